@@ -0,0 +1,218 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { BootstrapMerge } from "../src/config-compiler/bootstrap-merge";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { ConfigValidator } from "../src/config-compiler/validator";
+import { EnvoyConfig, ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const base = (): EnvoyConfig => ({
+  static_resources: { listeners: [], clusters: [] },
+  admin: {
+    address: { socket_address: { address: "127.0.0.1", port_value: 9901 } },
+  },
+  layered_runtime: {
+    layers: [
+      {
+        name: "static",
+        static_layer: { "overload.global_downstream_max_connections": 50000 },
+      },
+      { name: "admin", admin_layer: {} },
+    ],
+  },
+  stats_config: { stats_tags: [{ tag_name: "env", fixed_value: "prod" }] },
+});
+
+const service = (
+  path: string,
+  runtime?: Record<string, unknown>,
+  statsTags?: ServiceConfg["statsTags"]
+): ServiceConfg => ({ path, clusters: [], routes: [], runtime, statsTags });
+
+describe("BootstrapMerge", () => {
+  it("should add runtime keys to the first static layer", () => {
+    const config = base();
+    const conflicts = BootstrapMerge.mergeRuntime(config, {
+      "re2.max_program_size.error_level": 200,
+    });
+
+    expect(conflicts).toEqual([]);
+    expect(config.layered_runtime!.layers[0].static_layer).toEqual({
+      "overload.global_downstream_max_connections": 50000,
+      "re2.max_program_size.error_level": 200,
+    });
+  });
+
+  it("should create a static layer ahead of the other layers", () => {
+    const config: EnvoyConfig = {
+      static_resources: { listeners: [], clusters: [] },
+      layered_runtime: { layers: [{ name: "admin", admin_layer: {} }] },
+    };
+    BootstrapMerge.mergeRuntime(config, { key: true });
+
+    expect(config.layered_runtime!.layers).toEqual([
+      { name: BootstrapMerge.STATIC_LAYER_NAME, static_layer: { key: true } },
+      { name: "admin", admin_layer: {} },
+    ]);
+  });
+
+  it("should keep existing values and report differing ones", () => {
+    const config = base();
+    const conflicts = BootstrapMerge.mergeRuntime(config, {
+      "overload.global_downstream_max_connections": 10,
+    });
+
+    expect(conflicts).toEqual([
+      {
+        kind: "runtime",
+        key: "overload.global_downstream_max_connections",
+        path: "layered_runtime.layers[static].static_layer.overload.global_downstream_max_connections",
+        existing: 50000,
+        incoming: 10,
+      },
+    ]);
+    expect(
+      config.layered_runtime!.layers[0].static_layer![
+        "overload.global_downstream_max_connections"
+      ]
+    ).toBe(50000);
+  });
+
+  it("should deduplicate stats tags by name", () => {
+    const config = base();
+    const conflicts = BootstrapMerge.mergeStatsTags(config, [
+      { tag_name: "env", fixed_value: "prod" },
+      { tag_name: "team", fixed_value: "payments" },
+      { tag_name: "env", fixed_value: "dev" },
+    ]);
+
+    expect(config.stats_config!.stats_tags).toEqual([
+      { tag_name: "env", fixed_value: "prod" },
+      { tag_name: "team", fixed_value: "payments" },
+    ]);
+    expect(conflicts.map((c) => c.key)).toEqual(["env"]);
+  });
+});
+
+describe("Bootstrap contributions", () => {
+  it("should reject conflicting runtime keys and stats tags with their origin", () => {
+    const compiler = new Compiler(base(), [
+      service("services/a", { "feature.a": true }, [
+        { tag_name: "team", fixed_value: "a" },
+      ]),
+      service("services/b", { "feature.a": false }, [
+        { tag_name: "team", fixed_value: "b" },
+        { tag_name: "env", fixed_value: "dev" },
+      ]),
+    ]);
+    compiler.build();
+
+    expect(compiler.validate()).toEqual([
+      {
+        severity: "error",
+        code: "RUNTIME_KEY_CONFLICT",
+        message:
+          "services/b sets runtime key 'feature.a' to false, but services/a already sets it to true",
+        path: "layered_runtime.layers[static].static_layer.feature.a",
+        service: "services/b",
+      },
+      {
+        severity: "error",
+        code: "STATS_TAG_CONFLICT",
+        message:
+          'services/b sets stats tag \'team\' to {"tag_name":"team","fixed_value":"b"}, but services/a already sets it to {"tag_name":"team","fixed_value":"a"}',
+        path: "stats_config.stats_tags[team]",
+        service: "services/b",
+      },
+      {
+        severity: "error",
+        code: "STATS_TAG_CONFLICT",
+        message:
+          'services/b sets stats tag \'env\' to {"tag_name":"env","fixed_value":"dev"}, but the base configuration already sets it to {"tag_name":"env","fixed_value":"prod"}',
+        path: "stats_config.stats_tags[env]",
+        service: "services/b",
+      },
+    ]);
+  });
+
+  it("should read runtime keys and stats tags from service files", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-bootstrap-"));
+    try {
+      fs.mkdirSync(join(root, "svc", "envoy"), { recursive: true });
+      fs.writeFileSync(
+        join(root, "svc", "envoy", "runtime.yaml"),
+        "runtime:\n  feature.enabled: true\nstats_tags:\n  - tag_name: team\n    fixed_value: payments\n"
+      );
+
+      const [discovered] = new ConfigDiscover(
+        [join(root, "svc")],
+        "base.yaml"
+      ).collect();
+
+      expect(discovered.runtime).toEqual({ "feature.enabled": true });
+      expect(discovered.statsTags).toEqual([
+        { tag_name: "team", fixed_value: "payments" },
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Admin validation", () => {
+  it.each([
+    [
+      { socket_address: { address: "127.0.0.1", port_value: 70000 } },
+      "admin port 70000 is not a port between 0 and 65535",
+    ],
+    [
+      { socket_address: { address: "", port_value: 9901 } },
+      "admin socket_address has no address",
+    ],
+    [{}, "admin address must have a socket_address or a pipe"],
+  ])("should reject the admin address %j", (address, message) => {
+    const config = { ...base(), admin: { address } } as EnvoyConfig;
+
+    expect(new ConfigValidator(config).validate()).toContainEqual({
+      severity: "error",
+      code: "INVALID_ADMIN_ADDRESS",
+      message,
+      path: "admin.address",
+    });
+  });
+
+  it("should report listeners binding the admin port", () => {
+    const config = base();
+    config.static_resources.listeners.push({
+      name: "main",
+      address: { socket_address: { address: "0.0.0.0", port_value: 9901 } },
+      filter_chains: [],
+    });
+
+    expect(new ConfigValidator(config).validate()).toEqual([
+      {
+        severity: "error",
+        code: "LISTENER_PORT_COLLISION",
+        message:
+          "listener 'main' binds 0.0.0.0:9901, which the admin interface already binds on 127.0.0.1:9901",
+        path: "static_resources.listeners[main].address",
+      },
+    ]);
+  });
+
+  it("should check the structure of the bootstrap sections", () => {
+    const config = {
+      ...base(),
+      layered_runtime: { layers: [{ static_layer: {} }] },
+      stats_sinks: "statsd",
+    } as unknown as EnvoyConfig;
+
+    expect(
+      new ConfigValidator(config).validateStructure().map((d) => d.path)
+    ).toEqual(["layered_runtime.layers[0].name", "stats_sinks"]);
+  });
+});
@@ -1,6 +1,13 @@
 /* eslint-disable */
+import { ClusterNamespacing } from "../src/config-compiler/cluster-namespacing";
 import { Compiler } from "../src/config-compiler/compiler";
-import { EnvoyConfig, Route, ServiceConfg, Cluster } from "../src/config-types";
+import {
+  EnvoyConfig,
+  HttpConnectionManagerTypedConfig,
+  Route,
+  ServiceConfg,
+  Cluster,
+} from "../src/config-types";
 
 // Mock console.log to avoid cluttering test output
 const consoleSpy = jest.spyOn(console, "log").mockImplementation();
@@ -158,7 +165,6 @@ describe("Compiler", () => {
     });
 
     it("should handle missing filter_chains", () => {
-      // @ts-expect-error - for testing purposes
       compiler["store"]!.static_resources.listeners[0].filter_chains =
         undefined;
       const routesToAdd: Route[] = [
@@ -229,10 +235,10 @@ describe("Compiler", () => {
     });
 
     it("should handle missing route_config", () => {
-      compiler[
-        "store"
-      ]!.static_resources.listeners[0].filter_chains![0].filters![0].typed_config!.route_config =
-        undefined;
+      (
+        compiler["store"]!.static_resources.listeners[0].filter_chains![0]
+          .filters![0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config = undefined;
       const routesToAdd: Route[] = [
         {
           match: { prefix: "/test" },
@@ -245,10 +251,10 @@ describe("Compiler", () => {
 
     it("should handle missing virtual_hosts", () => {
       // @ts-expect-error - for testing purposes
-      compiler[
-        "store"
-      ]!.static_resources.listeners[0].filter_chains![0].filters![0].typed_config!.route_config!.virtual_hosts =
-        undefined;
+      (
+        compiler["store"]!.static_resources.listeners[0].filter_chains![0]
+          .filters![0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts = undefined;
       const routesToAdd: Route[] = [
         {
           match: { prefix: "/test" },
@@ -260,10 +266,10 @@ describe("Compiler", () => {
     });
 
     it("should handle empty virtual_hosts array", () => {
-      compiler[
-        "store"
-      ]!.static_resources.listeners[0].filter_chains![0].filters![0].typed_config!.route_config!.virtual_hosts =
-        [];
+      (
+        compiler["store"]!.static_resources.listeners[0].filter_chains![0]
+          .filters![0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts = [];
       const routesToAdd: Route[] = [
         {
           match: { prefix: "/test" },
@@ -282,9 +288,10 @@ describe("Compiler", () => {
         },
       ];
 
-      const originalRoutes =
+      const originalRoutes = (
         compiler["store"]!.static_resources.listeners[0].filter_chains![0]
-          .filters![0].typed_config!.route_config!.virtual_hosts![0].routes;
+          .filters![0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts![0].routes!;
       const originalLength = originalRoutes.length;
 
       compiler["addRoute"](routesToAdd);
@@ -428,7 +435,7 @@ describe("Compiler", () => {
 
       compiler["mergeConfig"](serviceConfig);
 
-      expect(addRouteSpy).toHaveBeenCalledWith(serviceConfig.routes);
+      expect(addRouteSpy).toHaveBeenCalledWith(serviceConfig.routes, {});
       expect(addRouteSpy).toHaveBeenCalledTimes(1);
 
       addRouteSpy.mockRestore();
@@ -443,7 +450,7 @@ describe("Compiler", () => {
 
       compiler["mergeConfig"](serviceConfig);
 
-      expect(addRouteSpy).toHaveBeenCalledWith([]);
+      expect(addRouteSpy).toHaveBeenCalledWith([], {});
 
       addRouteSpy.mockRestore();
     });
@@ -623,6 +630,562 @@ describe("Compiler", () => {
     });
   });
 
+  describe("Route conflicts", () => {
+    const routesOf = (compiler: Compiler) =>
+      (
+        compiler["store"]!.static_resources.listeners[0].filter_chains![0]
+          .filters[0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts[0].routes!;
+
+    const conflictingServices = (): ServiceConfg[] => [
+      {
+        path: "services/users",
+        clusters: [],
+        routes: [
+          { match: { prefix: "/api/users" }, route: { cluster: "users_v1" } },
+        ],
+        routeSources: [{ file: "services/users/envoy/routes/a.yaml" }],
+      },
+      {
+        path: "services/accounts",
+        clusters: [],
+        routes: [
+          { match: { prefix: "/api/users" }, route: { cluster: "users_v2" } },
+        ],
+        routeSources: [{ file: "services/accounts/envoy/routes/b.yaml" }],
+      },
+    ];
+
+    it("should keep both routes and warn by default", () => {
+      const compiler = new Compiler(mockBaseConfig, conflictingServices());
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.route?.cluster)).toEqual([
+        "health_cluster",
+        "users_v1",
+        "users_v2",
+      ]);
+      expect(compiler.validate()).toContainEqual({
+        severity: "warning",
+        code: "ROUTE_CONFLICT",
+        message:
+          'duplicate route match {"prefix":"/api/users"}: services/users (services/users/envoy/routes/a.yaml) conflicts with services/accounts (services/accounts/envoy/routes/b.yaml) [warn]',
+        service: "services/accounts",
+        file: "services/accounts/envoy/routes/b.yaml",
+      });
+      expect(compiler.getConflicts()).toEqual([
+        {
+          kind: "duplicate",
+          match: { prefix: "/api/users" },
+          existing: {
+            service: "services/users",
+            file: "services/users/envoy/routes/a.yaml",
+          },
+          incoming: {
+            service: "services/accounts",
+            file: "services/accounts/envoy/routes/b.yaml",
+          },
+          policy: "warn",
+        },
+      ]);
+    });
+
+    it("should throw a report naming both services with the error policy", () => {
+      const compiler = new Compiler(mockBaseConfig, conflictingServices(), {
+        conflictPolicy: "error",
+      });
+
+      expect(() => compiler.build()).toThrow(
+        /services\/users \(services\/users\/envoy\/routes\/a\.yaml\) conflicts with services\/accounts/
+      );
+    });
+
+    it("should drop later routes with the first-wins policy", () => {
+      const compiler = new Compiler(mockBaseConfig, conflictingServices(), {
+        conflictPolicy: "first-wins",
+      });
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.route?.cluster)).toEqual([
+        "health_cluster",
+        "users_v1",
+      ]);
+    });
+
+    it("should replace earlier routes with the last-wins policy", () => {
+      const compiler = new Compiler(mockBaseConfig, conflictingServices(), {
+        conflictPolicy: "last-wins",
+      });
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.route?.cluster)).toEqual([
+        "health_cluster",
+        "users_v2",
+      ]);
+    });
+
+    it("should report and replace every conflicting route", () => {
+      const [users, accounts] = conflictingServices();
+      users.routes.push({
+        name: "users-canary",
+        match: { prefix: "/api/users" },
+        route: { cluster: "users_canary" },
+      });
+      const compiler = new Compiler(mockBaseConfig, [users, accounts], {
+        conflictPolicy: "last-wins",
+      });
+      compiler.build();
+
+      expect(compiler.getConflicts()).toHaveLength(2);
+      expect(routesOf(compiler).map((r) => r.route?.cluster)).toEqual([
+        "health_cluster",
+        "users_v2",
+      ]);
+      expect(compiler.getStats().routes).toBe(1);
+    });
+
+    it("should detect conflicts with base routes", () => {
+      const compiler = new Compiler(
+        mockBaseConfig,
+        [
+          {
+            clusters: [],
+            routes: [
+              { match: { prefix: "/health" }, route: { cluster: "other" } },
+            ],
+          },
+        ],
+        { conflictPolicy: "first-wins", baseFile: "base.yaml" }
+      );
+      compiler.build();
+
+      expect(compiler.getConflicts()[0].existing).toEqual({
+        service: "base",
+        file: "base.yaml",
+      });
+      expect(routesOf(compiler)).toHaveLength(1);
+    });
+
+    it("should treat header matchers as part of the match independent of order", () => {
+      const headers = [
+        { name: "x-version", exact_match: "2" },
+        { name: "x-tenant", present_match: true },
+      ];
+      const compiler = new Compiler(mockBaseConfig, [
+        {
+          clusters: [],
+          routes: [
+            { match: { prefix: "/api", headers }, route: { cluster: "a" } },
+          ],
+        },
+        {
+          clusters: [],
+          routes: [
+            {
+              match: { prefix: "/api", headers: [...headers].reverse() },
+              route: { cluster: "b" },
+            },
+            {
+              match: { prefix: "/api", headers: [headers[0]] },
+              route: { cluster: "c" },
+            },
+          ],
+        },
+      ]);
+      compiler.build();
+
+      expect(compiler.getConflicts()).toHaveLength(1);
+      expect(compiler.getConflicts()[0].kind).toBe("overlap");
+    });
+
+    it("should not report routes of the same service as conflicts", () => {
+      const compiler = new Compiler(mockBaseConfig, [
+        {
+          clusters: [],
+          routes: [
+            { match: { prefix: "/api" }, route: { cluster: "a" } },
+            { match: { prefix: "/api" }, route: { cluster: "b" } },
+          ],
+        },
+      ]);
+      compiler.build();
+
+      expect(compiler.getConflicts()).toEqual([]);
+    });
+  });
+
+  describe("Route targets", () => {
+    const virtualHost = (name: string, domains: string[]) => ({
+      name,
+      domains,
+      routes: [] as Route[],
+    });
+
+    const httpListener = (name: string, virtualHosts: any[]) => ({
+      name,
+      address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+      filter_chains: [
+        {
+          filters: [
+            {
+              name: "envoy.filters.network.tcp_proxy",
+              typed_config: { "@type": "tcp_proxy" } as any,
+            },
+            {
+              name: "http",
+              typed_config: {
+                "@type":
+                  "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+                route_config: {
+                  name: `${name}_route`,
+                  virtual_hosts: virtualHosts,
+                },
+              } as any,
+            },
+          ],
+        },
+      ],
+    });
+
+    let config: EnvoyConfig;
+
+    beforeEach(() => {
+      config = {
+        static_resources: {
+          listeners: [
+            httpListener("public", [
+              virtualHost("api", ["api.example.com"]),
+              virtualHost("internal", ["internal.example.com"]),
+            ]),
+            httpListener("admin", [virtualHost("admin", ["*"])]),
+          ],
+          clusters: [],
+        },
+      };
+    });
+
+    const hostsOf = (listener: number) =>
+      (
+        config.static_resources.listeners[listener].filter_chains![0].filters[1]
+          .typed_config as any
+      ).route_config.virtual_hosts;
+
+    const serviceWith = (source: any): ServiceConfg => ({
+      clusters: [],
+      routes: [{ match: { prefix: "/x" }, route: { cluster: "x" } }],
+      routeSources: [{ file: "routes.yaml", ...source }],
+    });
+
+    it("should locate the connection manager by @type and default to its first virtual host", () => {
+      new Compiler(config, [serviceWith({})]).build();
+
+      expect(hostsOf(0)[0].routes).toHaveLength(1);
+    });
+
+    it("should attach routes to a virtual host matched by name", () => {
+      new Compiler(config, [serviceWith({ virtual_host: "internal" })]).build();
+
+      expect(hostsOf(0)[0].routes).toHaveLength(0);
+      expect(hostsOf(0)[1].routes).toHaveLength(1);
+    });
+
+    it("should attach routes to a virtual host matched by domain", () => {
+      new Compiler(config, [
+        serviceWith({ virtual_host: "internal.example.com" }),
+      ]).build();
+
+      expect(hostsOf(0)[1].routes).toHaveLength(1);
+    });
+
+    it("should attach routes to the first virtual host of a named listener", () => {
+      new Compiler(config, [serviceWith({ listener: "admin" })]).build();
+
+      expect(hostsOf(0)[0].routes).toHaveLength(0);
+      expect(hostsOf(1)[0].routes).toHaveLength(1);
+    });
+
+    it("should fail when the listener does not exist", () => {
+      const compiler = new Compiler(config, [
+        serviceWith({ listener: "missing" }),
+      ]);
+
+      expect(() => compiler.build()).toThrow(
+        "listener 'missing' not found (required by routes.yaml)"
+      );
+    });
+
+    it("should fail when the virtual host does not exist on the listener", () => {
+      const compiler = new Compiler(config, [
+        serviceWith({ listener: "admin", virtual_host: "api" }),
+      ]);
+
+      expect(() => compiler.build()).toThrow(
+        "virtual host 'api' not found on listener 'admin'"
+      );
+    });
+  });
+
+  describe("Route ordering", () => {
+    const routesOf = (compiler: Compiler) =>
+      (
+        compiler["store"]!.static_resources.listeners[0].filter_chains![0]
+          .filters[0].typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts[0].routes!;
+
+    const service: ServiceConfg = {
+      clusters: [],
+      routes: [
+        { name: "catch_all", match: { prefix: "/" } },
+        { name: "api", match: { prefix: "/api" } },
+        { name: "regex", match: { safe_regex: "^/v[0-9]+/.*" } as any },
+        { name: "api_users", match: { prefix: "/api/users" } },
+        {
+          name: "api_canary",
+          match: { prefix: "/api", headers: [{ name: "x-canary" }] },
+        },
+        { name: "exact", match: { path: "/api/users/me" } },
+        { name: "api_again", match: { prefix: "/api" } },
+      ],
+    };
+
+    it("should keep discovery order by default", () => {
+      const compiler = new Compiler(mockBaseConfig, [service]);
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.name)).toEqual([
+        undefined,
+        ...service.routes.map((r) => r.name),
+      ]);
+    });
+
+    it("should sort routes by specificity with a stable order for ties", () => {
+      const compiler = new Compiler(mockBaseConfig, [service], {
+        routeOrdering: "specificity",
+      });
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.name)).toEqual([
+        "exact",
+        "api_users",
+        undefined, // base /health
+        "regex", // keeps its position
+        "api_canary",
+        "api",
+        "api_again",
+        "catch_all",
+      ]);
+    });
+
+    it("should not move a broad regex route ahead of prefix routes", () => {
+      const compiler = new Compiler(
+        mockBaseConfig,
+        [
+          {
+            clusters: [],
+            routes: [
+              { name: "api_users", match: { prefix: "/api/users" } },
+              { name: "fallback", match: { safe_regex: { regex: "^/.*$" } } },
+            ],
+          },
+        ],
+        { routeOrdering: "specificity" }
+      );
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.name)).toEqual([
+        "api_users",
+        undefined, // base /health
+        "fallback",
+      ]);
+    });
+
+    it("should sort path separated prefixes with the prefixes", () => {
+      const compiler = new Compiler(
+        mockBaseConfig,
+        [
+          {
+            clusters: [],
+            routes: [
+              { name: "api", match: { prefix: "/api" } },
+              {
+                name: "user_service",
+                match: { path_separated_prefix: "/api/user-service" },
+              },
+            ],
+          },
+        ],
+        { routeOrdering: "specificity" }
+      );
+      compiler.build();
+
+      expect(routesOf(compiler).map((r) => r.name)).toEqual([
+        "user_service",
+        undefined, // base /health
+        "api",
+      ]);
+    });
+
+    it("should honor explicit route priorities", () => {
+      const compiler = new Compiler(
+        mockBaseConfig,
+        [
+          {
+            ...service,
+            routeSources: service.routes.map((r) =>
+              r.name === "regex" ? { priority: -1 } : {}
+            ),
+          },
+        ],
+        { routeOrdering: "specificity" }
+      );
+      compiler.build();
+
+      const names = routesOf(compiler).map((r) => r.name);
+      expect(names[names.length - 1]).toBe("regex");
+    });
+  });
+
+  describe("Cluster namespacing", () => {
+    const teamService = (namespace?: string): ServiceConfg => ({
+      path: `services/${namespace ?? "plain"}`,
+      manifest: namespace ? { name: namespace, namespace } : undefined,
+      clusters: [
+        {
+          name: "backend",
+          type: "STRICT_DNS",
+          load_assignment: { cluster_name: "backend", endpoints: [] },
+        } as Cluster,
+      ],
+      routes: [
+        {
+          match: { prefix: `/${namespace}` },
+          route: { cluster: "backend" },
+        },
+        {
+          match: { prefix: `/${namespace}/split` },
+          route: {
+            weighted_clusters: {
+              clusters: [
+                { name: "backend", weight: 90 },
+                { name: "existing_cluster", weight: 10 },
+              ],
+            },
+          },
+        },
+      ],
+    });
+
+    it("should leave cluster names alone unless enabled", () => {
+      const compiler = new Compiler(mockBaseConfig, [
+        teamService("users"),
+        teamService("orders"),
+      ]);
+      compiler.build();
+
+      expect(
+        compiler["store"]!.static_resources.clusters.map((c) => c.name)
+      ).toEqual(["existing_cluster", "backend"]);
+    });
+
+    it("should prefix clusters and rewrite references of namespaced services", () => {
+      const compiler = new Compiler(
+        mockBaseConfig,
+        [teamService("users"), teamService("orders"), teamService()],
+        { namespaceClusters: true }
+      );
+      compiler.build();
+
+      const store = compiler["store"]!;
+      expect(store.static_resources.clusters.map((c) => c.name)).toEqual([
+        "existing_cluster",
+        "users.backend",
+        "orders.backend",
+        "backend",
+      ]);
+      expect(store.static_resources.clusters[1].load_assignment).toEqual({
+        cluster_name: "users.backend",
+        endpoints: [],
+      });
+
+      const routes = (
+        store.static_resources.listeners[0].filter_chains![0].filters[0]
+          .typed_config as HttpConnectionManagerTypedConfig
+      ).route_config!.virtual_hosts[0].routes!;
+      expect(routes[1].route!.cluster).toBe("users.backend");
+      expect(routes[2].route!.weighted_clusters!.clusters).toEqual([
+        { name: "users.backend", weight: 90 },
+        { name: "existing_cluster", weight: 10 },
+      ]);
+      expect(routes[3].route!.cluster).toBe("orders.backend");
+      expect(
+        compiler
+          .validate()
+          .filter((d) => d.code === "DANGLING_CLUSTER_REFERENCE")
+          .map((d) => d.message)
+      ).toEqual(["route references unknown cluster 'health_cluster'"]);
+    });
+
+    it("should rewrite cluster references in HTTP filters", () => {
+      const authz = (grpcCluster: string, httpCluster: string) => ({
+        name: "envoy.filters.http.ext_authz",
+        typed_config: {
+          "@type":
+            "type.googleapis.com/envoy.extensions.filters.http.ext_authz.v3.ExtAuthz",
+          grpc_service: { envoy_grpc: { cluster_name: grpcCluster } },
+          http_service: {
+            server_uri: { uri: "http://authz", cluster: httpCluster },
+          },
+        },
+      });
+      const service: ServiceConfg = {
+        ...teamService("users"),
+        httpFilters: [authz("backend", "existing_cluster")] as any,
+        listeners: [
+          {
+            name: "users",
+            filter_chains: [
+              {
+                filters: [
+                  {
+                    name: "envoy.filters.network.http_connection_manager",
+                    typed_config: {
+                      http_filters: [authz("existing_cluster", "backend")],
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        ] as any,
+      };
+
+      const namespaced = ClusterNamespacing.apply(service);
+
+      expect(namespaced.httpFilters).toEqual([
+        authz("users.backend", "existing_cluster"),
+      ]);
+      expect(
+        (
+          namespaced.listeners![0].filter_chains![0].filters[0]
+            .typed_config as HttpConnectionManagerTypedConfig
+        ).http_filters
+      ).toEqual([authz("existing_cluster", "users.backend")]);
+      expect(service.httpFilters).toEqual([
+        authz("backend", "existing_cluster"),
+      ]);
+    });
+
+    it("should not modify the service configurations passed in", () => {
+      const service = teamService("users");
+      new Compiler(mockBaseConfig, [service], {
+        namespaceClusters: true,
+      }).build();
+
+      expect(service.clusters[0].name).toBe("backend");
+      expect(service.routes[0].route!.cluster).toBe("backend");
+    });
+  });
+
   describe("Edge Cases and Error Handling", () => {
     it("should handle malformed base config gracefully", () => {
       const malformedConfig = {
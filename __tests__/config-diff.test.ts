@@ -0,0 +1,121 @@
+/* eslint-disable */
+import { ConfigDiff } from "../src/config-compiler/config-diff";
+import { EnvoyConfig, Route, Cluster } from "../src/config-types";
+
+const configWith = (
+  routes: Route[],
+  clusters: Cluster[],
+  domains: string[] = ["*"]
+): EnvoyConfig => ({
+  static_resources: {
+    listeners: [
+      {
+        name: "main",
+        address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+        filter_chains: [
+          {
+            filters: [
+              {
+                name: "envoy.filters.network.http_connection_manager",
+                typed_config: {
+                  "@type":
+                    "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+                  route_config: {
+                    name: "local_route",
+                    virtual_hosts: [{ name: "api", domains, routes }],
+                  },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    clusters,
+  },
+});
+
+describe("ConfigDiff", () => {
+  const users: Cluster = { name: "users", type: "STRICT_DNS" };
+  const usersRoute: Route = {
+    match: { prefix: "/api/users" },
+    route: { cluster: "users", timeout: "15s" },
+  };
+
+  it("should report no changes for equal configurations", () => {
+    const config = configWith([usersRoute], [users]);
+
+    expect(
+      new ConfigDiff(config, JSON.parse(JSON.stringify(config))).diff()
+    ).toEqual([]);
+  });
+
+  it("should treat a missing current configuration as empty", () => {
+    expect(
+      new ConfigDiff(null, configWith([usersRoute], [users])).diff()
+    ).toEqual([
+      { kind: "listener", id: "main", change: "added" },
+      { kind: "route", id: "main/api/prefix:/api/users", change: "added" },
+      { kind: "cluster", id: "users", change: "added" },
+    ]);
+  });
+
+  it("should key entities by identity rather than position", () => {
+    const orders: Cluster = { name: "orders", type: "STRICT_DNS" };
+    const ordersRoute: Route = {
+      name: "orders",
+      match: { prefix: "/api/orders" },
+      route: { cluster: "orders" },
+    };
+    const before = configWith([usersRoute, ordersRoute], [users, orders]);
+    const after = configWith(
+      [
+        { ...ordersRoute },
+        { ...usersRoute, route: { cluster: "users", timeout: "30s" } },
+      ],
+      [{ ...orders, connect_timeout: "1s" }]
+    );
+
+    expect(new ConfigDiff(before, after).diff()).toEqual([
+      {
+        kind: "route",
+        id: "main/api/prefix:/api/users",
+        change: "modified",
+        fields: ["route.timeout"],
+      },
+      {
+        kind: "cluster",
+        id: "orders",
+        change: "modified",
+        fields: ["connect_timeout"],
+      },
+      { kind: "cluster", id: "users", change: "removed" },
+    ]);
+  });
+
+  it("should report virtual host changes on the listener without its routes", () => {
+    const before = configWith([usersRoute], [users]);
+    const after = configWith([], [users], ["api.example.com"]);
+
+    expect(new ConfigDiff(before, after).diff()).toEqual([
+      {
+        kind: "listener",
+        id: "main",
+        change: "modified",
+        fields: [
+          "filter_chains[0].filters[0].typed_config.route_config.virtual_hosts[0].domains[0]",
+        ],
+      },
+      { kind: "route", id: "main/api/prefix:/api/users", change: "removed" },
+    ]);
+  });
+
+  it("should format entries as Markdown", () => {
+    expect(
+      ConfigDiff.toMarkdown([
+        { kind: "cluster", id: "users", change: "modified", fields: ["type"] },
+      ])
+    ).toBe("- ~ **cluster** `users` modified\n  - `type`");
+    expect(ConfigDiff.toMarkdown([])).toBe("No changes.");
+  });
+});
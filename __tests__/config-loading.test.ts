@@ -0,0 +1,91 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { YamlTools } from "../src/utils/yaml-tools";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const write = (path: string, content: string) => {
+  fs.mkdirSync(join(path, ".."), { recursive: true });
+  fs.writeFileSync(path, content);
+};
+
+describe("Config file loading", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-loading-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["routes.yaml", true],
+    ["routes.YML", true],
+    ["routes.json", true],
+    ["routes.yaml.bak", false],
+    ["routes.yamlx", false],
+  ])("should recognize %s as a config file: %s", (file, expected) => {
+    expect(YamlTools.isConfigFile(file)).toBe(expected);
+  });
+
+  it("should read .yaml, .yml and .json files in nested folders in path order", () => {
+    const envoy = join(root, "svc", "envoy");
+    write(
+      join(envoy, "routes", "b.yml"),
+      "routes:\n  - name: b\n    match: { prefix: /b }\n"
+    );
+    write(
+      join(envoy, "routes", "a", "nested.json"),
+      JSON.stringify({ routes: [{ name: "nested", match: { prefix: "/n" } }] })
+    );
+    write(
+      join(envoy, "routes", "c.yaml.bak"),
+      "routes:\n  - name: backup\n    match: { prefix: /x }\n"
+    );
+    write(
+      join(envoy, "routes", "d.yaml"),
+      "routes:\n  - name: d1\n    match: { prefix: /d1 }\n---\nlistener: admin\nroutes:\n  - name: d2\n    match: { prefix: /d2 }\n"
+    );
+
+    const [service] = new ConfigDiscover(
+      [join(root, "svc")],
+      "base.yaml"
+    ).collect();
+
+    expect(service.routes.map((r) => r.name)).toEqual([
+      "nested",
+      "b",
+      "d1",
+      "d2",
+    ]);
+    expect(service.routeSources!.map((s) => s.listener)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      "admin",
+    ]);
+  });
+
+  it("should read routes and clusters from the same file", () => {
+    write(
+      join(root, "svc", "envoy", "users.yaml"),
+      "routes:\n  - name: users\n    match: { prefix: /users }\n    route: { cluster: users }\nclusters:\n  - name: users\n    type: STRICT_DNS\n"
+    );
+
+    const [service] = new ConfigDiscover(
+      [join(root, "svc")],
+      "base.yaml"
+    ).collect();
+
+    expect(service.routes.map((r) => r.name)).toEqual(["users"]);
+    expect(service.clusters.map((c) => c.name)).toEqual(["users"]);
+    expect(service.clusterSources).toEqual([
+      { file: join(root, "svc", "envoy", "users.yaml") },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import {
+  ConfigWatcher,
+  WatchTarget,
+} from "../src/config-compiler/config-watcher";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+
+jest.spyOn(console, "log").mockImplementation();
+jest.spyOn(console, "error").mockImplementation();
+
+const waitFor = async (check: () => boolean, timeoutMs = 3000) => {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 20));
+  }
+};
+
+describe("ConfigDiscover.getWatchTargets", () => {
+  it("should list the base file and the config folders of every service", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-targets-"));
+    try {
+      fs.mkdirSync(join(root, "a", "envoy", "routes", "v2"), {
+        recursive: true,
+      });
+      fs.mkdirSync(join(root, "a", "envoy", "clusters"), { recursive: true });
+      const discovery = new ConfigDiscover(
+        [join(root, "a"), join(root, "b")],
+        "conf/base.yaml"
+      );
+      expect(discovery.getWatchTargets()).toEqual([
+        { service: "base", path: "conf", file: "base.yaml" },
+        { service: join(root, "a"), path: join(root, "a", "envoy") },
+        {
+          service: join(root, "a"),
+          path: join(root, "a", "envoy", "clusters"),
+        },
+        { service: join(root, "a"), path: join(root, "a", "envoy", "routes") },
+        {
+          service: join(root, "a"),
+          path: join(root, "a", "envoy", "routes", "v2"),
+        },
+        { service: join(root, "b"), path: join(root, "b", "envoy") },
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should record files that could not be parsed", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-discover-"));
+    try {
+      const routes = join(root, "svc", "envoy", "routes");
+      fs.mkdirSync(routes, { recursive: true });
+      fs.writeFileSync(join(routes, "broken.yaml"), "routes: [\n  - {");
+      const discovery = new ConfigDiscover([join(root, "svc")], "base.yaml");
+      discovery.collect();
+      expect(discovery.getReadErrors()).toEqual([join(routes, "broken.yaml")]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("ConfigDiscover.getSearchTargets", () => {
+  it("should list the folders searched by items patterns, without config folders", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-targets-"));
+    try {
+      fs.mkdirSync(join(root, "services", "a", "envoy", "routes"), {
+        recursive: true,
+      });
+      fs.mkdirSync(join(root, "services", "node_modules"));
+      expect(
+        ConfigDiscover.getSearchTargets(root, ["services/*", "users"])
+      ).toEqual([
+        { service: "services/*", path: join(root, "services") },
+        { service: "services/*", path: join(root, "services", "a") },
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("ConfigWatcher", () => {
+  let root: string;
+  let watcher: ConfigWatcher | null;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-watch-"));
+    watcher = null;
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should debounce a burst of changes into one rebuild", async () => {
+    const routes = join(root, "routes");
+    fs.mkdirSync(routes);
+    const calls: string[][] = [];
+    watcher = new ConfigWatcher(
+      () => [{ service: "users", path: routes }],
+      (services) => calls.push(services),
+      100
+    );
+    expect(watcher.start()).toBe(1);
+
+    fs.writeFileSync(join(routes, "a.yaml"), "routes: []");
+    fs.writeFileSync(join(routes, "b.yaml"), "routes: []");
+    await waitFor(() => calls.length > 0);
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(calls).toEqual([["users"]]);
+  });
+
+  it("should ignore other files in a directory watched for a single file", async () => {
+    const calls: string[][] = [];
+    watcher = new ConfigWatcher(
+      () => [{ service: "base", path: root, file: "base.yaml" }],
+      (services) => calls.push(services),
+      20
+    );
+    watcher.start();
+
+    fs.writeFileSync(join(root, "output.yaml"), "x: 1");
+    await new Promise((r) => setTimeout(r, 150));
+    expect(calls).toEqual([]);
+
+    fs.writeFileSync(join(root, "base.yaml"), "x: 1");
+    await waitFor(() => calls.length > 0);
+    expect(calls).toEqual([["base"]]);
+  });
+
+  it("should keep watching after a failed rebuild and pick up new folders", async () => {
+    const routes = join(root, "routes");
+    const targets: WatchTarget[] = [
+      { service: "users", path: root },
+      { service: "users", path: routes },
+    ];
+    let calls = 0;
+    watcher = new ConfigWatcher(
+      () => targets,
+      () => {
+        calls++;
+        throw new Error("parse error");
+      },
+      20
+    );
+    expect(watcher.start()).toBe(1);
+
+    fs.mkdirSync(routes);
+    await waitFor(() => calls === 1);
+
+    fs.writeFileSync(join(routes, "a.yaml"), "routes: []");
+    await waitFor(() => calls === 2);
+    expect(console.error).toHaveBeenCalledWith("Rebuild failed: parse error");
+  });
+});
@@ -0,0 +1,317 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { HttpFilters } from "../src/config-compiler/http-filters";
+import { EnvoyConfig, HTTPFilter, ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const filter = (name: string, extra: Record<string, unknown> = {}) =>
+  ({
+    name,
+    typed_config: { "@type": `type.googleapis.com/${name}`, ...extra },
+  } as HTTPFilter);
+
+const router = filter(HttpFilters.ROUTER_NAME);
+
+const listener = (name: string, filters: HTTPFilter[]) => ({
+  name,
+  address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+  filter_chains: [
+    {
+      filters: [
+        {
+          name: "envoy.filters.network.http_connection_manager",
+          typed_config: {
+            "@type":
+              "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+            stat_prefix: name,
+            http_filters: filters,
+            route_config: {
+              name: `${name}_route`,
+              virtual_hosts: [{ name: "default", domains: ["*"], routes: [] }],
+            },
+          },
+        },
+      ],
+    },
+  ],
+});
+
+const base = (): EnvoyConfig =>
+  ({
+    static_resources: {
+      listeners: [
+        listener("public", [filter("envoy.filters.http.cors"), router]),
+        listener("admin", [router]),
+      ],
+      clusters: [],
+    },
+  } as unknown as EnvoyConfig);
+
+const chainOf = (config: EnvoyConfig, index: number) =>
+  (
+    config.static_resources.listeners[index].filter_chains![0].filters[0]
+      .typed_config as any
+  ).http_filters.map((f: HTTPFilter) => f.name);
+
+describe("HttpFilters", () => {
+  it("should insert filters before the router by default", () => {
+    const { chain, result } = HttpFilters.insert(
+      [filter("a"), router],
+      filter("b")
+    );
+
+    expect(result).toBe("added");
+    expect(chain.map((f) => f.name)).toEqual([
+      "a",
+      "b",
+      HttpFilters.ROUTER_NAME,
+    ]);
+  });
+
+  it("should insert filters relative to another filter", () => {
+    const chain = [filter("a"), filter("b"), router];
+
+    expect(
+      HttpFilters.insert(chain, filter("x"), { before: "a" }).chain.map(
+        (f) => f.name
+      )
+    ).toEqual(["x", "a", "b", HttpFilters.ROUTER_NAME]);
+    expect(
+      HttpFilters.insert(chain, filter("x"), { after: "a" }).chain.map(
+        (f) => f.name
+      )
+    ).toEqual(["a", "x", "b", HttpFilters.ROUTER_NAME]);
+  });
+
+  it("should keep the router last", () => {
+    const { chain } = HttpFilters.insert([filter("a"), router], filter("x"), {
+      after: HttpFilters.ROUTER_NAME,
+    });
+
+    expect(chain.map((f) => f.name)).toEqual([
+      "a",
+      "x",
+      HttpFilters.ROUTER_NAME,
+    ]);
+  });
+
+  it("should deduplicate filters by name", () => {
+    const chain = [filter("a", { x: 1 }), router];
+
+    expect(HttpFilters.insert(chain, filter("a", { x: 1 }))).toEqual({
+      chain,
+      result: "duplicate",
+    });
+    expect(HttpFilters.insert(chain, filter("a", { x: 2 })).result).toBe(
+      "conflict"
+    );
+  });
+
+  it("should report a position naming a missing filter", () => {
+    const insertion = HttpFilters.insert([router], filter("x"), {
+      before: "missing",
+    });
+
+    expect(insertion.missing).toBe("missing");
+    expect(insertion.chain.map((f) => f.name)).toEqual([
+      "x",
+      HttpFilters.ROUTER_NAME,
+    ]);
+  });
+
+  it("should reject positions with both before and after", () => {
+    expect(() =>
+      HttpFilters.insert([router], filter("x"), { before: "a", after: "b" })
+    ).toThrow("can't be positioned both before 'a' and after 'b'");
+  });
+});
+
+describe("Service HTTP filters", () => {
+  const service = (
+    filters: HTTPFilter[],
+    sources: ServiceConfg["httpFilterSources"]
+  ): ServiceConfg => ({
+    path: "services/auth",
+    clusters: [],
+    routes: [],
+    httpFilters: filters,
+    httpFilterSources: sources,
+  });
+
+  it("should add service filters to the first connection manager by default", () => {
+    const compiler = new Compiler(base(), [
+      service([filter("envoy.filters.http.ext_authz")], [{}]),
+    ]);
+    compiler.build();
+    const config = compiler.getStore()!;
+
+    expect(chainOf(config, 0)).toEqual([
+      "envoy.filters.http.cors",
+      "envoy.filters.http.ext_authz",
+      HttpFilters.ROUTER_NAME,
+    ]);
+    expect(chainOf(config, 1)).toEqual([HttpFilters.ROUTER_NAME]);
+  });
+
+  it("should add filters to the listener and position they declare", () => {
+    const compiler = new Compiler(base(), [
+      service(
+        [
+          filter("envoy.filters.http.jwt_authn"),
+          filter("envoy.filters.http.lua"),
+        ],
+        [
+          {
+            file: "jwt.yaml",
+            listener: "public",
+            before: "envoy.filters.http.cors",
+          },
+          { file: "lua.yaml", listener: "admin" },
+        ]
+      ),
+    ]);
+    compiler.build();
+    const config = compiler.getStore()!;
+
+    expect(chainOf(config, 0)).toEqual([
+      "envoy.filters.http.jwt_authn",
+      "envoy.filters.http.cors",
+      HttpFilters.ROUTER_NAME,
+    ]);
+    expect(chainOf(config, 1)).toEqual([
+      "envoy.filters.http.lua",
+      HttpFilters.ROUTER_NAME,
+    ]);
+  });
+
+  it("should warn about filters already in the chain with another config", () => {
+    const compiler = new Compiler(base(), [
+      service(
+        [filter("envoy.filters.http.cors", { changed: true })],
+        [{ file: "cors.yaml" }]
+      ),
+    ]);
+    compiler.build();
+
+    expect(chainOf(compiler.getStore()!, 0)).toEqual([
+      "envoy.filters.http.cors",
+      HttpFilters.ROUTER_NAME,
+    ]);
+    expect(compiler.validate()).toContainEqual(
+      expect.objectContaining({
+        severity: "warning",
+        code: "HTTP_FILTER_CONFLICT",
+        path: "static_resources.listeners[public].http_filters[envoy.filters.http.cors]",
+        file: "cors.yaml",
+      })
+    );
+  });
+
+  it("should warn about positions naming a filter that is not in the chain", () => {
+    const compiler = new Compiler(base(), [
+      service(
+        [filter("envoy.filters.http.lua")],
+        [{ file: "lua.yaml", listener: "admin", before: "missing" }]
+      ),
+    ]);
+    compiler.build();
+
+    expect(chainOf(compiler.getStore()!, 1)).toEqual([
+      "envoy.filters.http.lua",
+      HttpFilters.ROUTER_NAME,
+    ]);
+    expect(compiler.validate()).toContainEqual(
+      expect.objectContaining({
+        severity: "warning",
+        code: "HTTP_FILTER_POSITION_NOT_FOUND",
+        path: "static_resources.listeners[admin].http_filters[envoy.filters.http.lua]",
+        file: "lua.yaml",
+      })
+    );
+  });
+
+  it("should fail for an unknown listener", () => {
+    const compiler = new Compiler(base(), [
+      service([filter("x")], [{ file: "x.yaml", listener: "missing" }]),
+    ]);
+
+    expect(() => compiler.build()).toThrow(
+      "listener 'missing' not found (required by x.yaml)"
+    );
+  });
+
+  it("should warn about per-route configs of filters missing from the chain", () => {
+    const compiler = new Compiler(base(), [
+      {
+        path: "services/auth",
+        clusters: [],
+        routes: [
+          {
+            match: { prefix: "/" },
+            direct_response: { status: 200 },
+            typed_per_filter_config: {
+              "envoy.filters.http.cors": {},
+              "envoy.filters.http.ext_authz": { disabled: true },
+            },
+          },
+        ],
+      } as ServiceConfg,
+    ]);
+    compiler.build();
+    const diagnostics = compiler
+      .validate()
+      .filter((d) => d.code === "UNKNOWN_PER_FILTER_CONFIG");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain("envoy.filters.http.ext_authz");
+  });
+
+  it("should read http_filters and their positions from service files", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-filters-"));
+    try {
+      fs.mkdirSync(join(root, "auth", "envoy"), { recursive: true });
+      fs.writeFileSync(
+        join(root, "auth", "envoy", "filters.yaml"),
+        [
+          "listener: public",
+          "http_filters:",
+          "  - name: envoy.filters.http.ext_authz",
+          "    after: envoy.filters.http.cors",
+          "    typed_config:",
+          '      "@type": type.googleapis.com/envoy.extensions.filters.http.ext_authz.v3.ExtAuthz',
+          "",
+        ].join("\n")
+      );
+
+      const [discovered] = new ConfigDiscover(
+        [join(root, "auth")],
+        "base.yaml"
+      ).collect();
+
+      expect(discovered.httpFilters).toEqual([
+        {
+          name: "envoy.filters.http.ext_authz",
+          typed_config: {
+            "@type":
+              "type.googleapis.com/envoy.extensions.filters.http.ext_authz.v3.ExtAuthz",
+          },
+        },
+      ]);
+      expect(discovered.httpFilterSources).toEqual([
+        {
+          file: join(root, "auth", "envoy", "filters.yaml"),
+          listener: "public",
+          before: undefined,
+          after: "envoy.filters.http.cors",
+        },
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,119 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Interpolator } from "../src/config-compiler/interpolation";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+
+jest.spyOn(console, "log").mockImplementation();
+
+describe("Interpolator", () => {
+  it("should coerce values that consist of a single reference", () => {
+    const interpolator = new Interpolator({
+      PORT: "8080",
+      TLS: "true",
+      TIMEOUT: "5s",
+    });
+    expect(
+      interpolator.interpolate(
+        {
+          port_value: "${PORT}",
+          tls: "${TLS}",
+          connect_timeout: "${TIMEOUT}",
+          address: "${HOST:-localhost}",
+        },
+        "clusters.yaml"
+      )
+    ).toEqual({
+      port_value: 8080,
+      tls: true,
+      connect_timeout: "5s",
+      address: "localhost",
+    });
+    expect(interpolator.getUnresolved()).toEqual([]);
+  });
+
+  it("should substitute references inside longer strings as text", () => {
+    const interpolator = new Interpolator({ ENV: "staging", PORT: "80" });
+    expect(
+      interpolator.interpolate(
+        {
+          address: "users.${ENV}.svc:${PORT}",
+          literal: "$${ENV}",
+          "${ENV}": "keys are kept",
+        },
+        "f.yaml"
+      )
+    ).toEqual({
+      address: "users.staging.svc:80",
+      literal: "${ENV}",
+      "${ENV}": "keys are kept",
+    });
+  });
+
+  it("should report every unresolved variable with its location", () => {
+    const interpolator = new Interpolator({});
+    interpolator.interpolate(
+      { clusters: [{ name: "users", connect_timeout: "${TIMEOUT}" }] },
+      "a.yaml"
+    );
+    interpolator.interpolate({ routes: [{ prefix: "/${PREFIX}" }] }, "b.yaml");
+
+    expect(interpolator.getUnresolved()).toEqual([
+      { name: "TIMEOUT", file: "a.yaml", path: "clusters[0].connect_timeout" },
+      { name: "PREFIX", file: "b.yaml", path: "routes[0].prefix" },
+    ]);
+    expect(() => interpolator.assertResolved()).toThrow(
+      "unresolved variables:\n  - TIMEOUT at a.yaml: clusters[0].connect_timeout\n  - PREFIX at b.yaml: routes[0].prefix"
+    );
+  });
+
+  it("should give later variable sources precedence", () => {
+    expect(
+      Interpolator.mergeVars(
+        { A: "env", B: "env", C: "env" },
+        { B: "file", C: 8080 },
+        { C: "option", D: undefined }
+      )
+    ).toEqual({ A: "env", B: "file", C: "option" });
+  });
+});
+
+describe("ConfigDiscover interpolation", () => {
+  it("should interpolate the base and service files", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-vars-"));
+    try {
+      const clusters = join(root, "users", "envoy", "clusters");
+      fs.mkdirSync(clusters, { recursive: true });
+      fs.writeFileSync(
+        join(clusters, "users.yaml"),
+        "clusters:\n  - name: users\n    connect_timeout: ${TIMEOUT:-5s}\n    port_value: ${USER_PORT}\n"
+      );
+      fs.writeFileSync(
+        join(root, "base.yaml"),
+        "admin:\n  port_value: ${ADMIN_PORT}\nstatic_resources: {}\n"
+      );
+      const interpolator = new Interpolator({
+        USER_PORT: "3000",
+        ADMIN_PORT: "9901",
+      });
+      const discovery = new ConfigDiscover(
+        [join(root, "users")],
+        join(root, "base.yaml"),
+        "envoy",
+        { interpolator }
+      );
+
+      expect(discovery.collect()[0].clusters).toEqual([
+        { name: "users", connect_timeout: "5s", port_value: 3000 },
+      ]);
+      expect(discovery.collectBase()).toEqual({
+        admin: { port_value: 9901 },
+        static_resources: {},
+      });
+      expect(interpolator.getUnresolved()).toEqual([]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
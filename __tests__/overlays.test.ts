@@ -0,0 +1,142 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { ObjectTools } from "../src/utils/object-tools";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const write = (path: string, content: string) => {
+  fs.mkdirSync(join(path, ".."), { recursive: true });
+  fs.writeFileSync(path, content);
+};
+
+describe("ObjectTools.deepMerge", () => {
+  it("should merge objects and named lists and honor removal markers", () => {
+    expect(
+      ObjectTools.deepMerge(
+        {
+          admin: { port: 9901, host: "0.0.0.0" },
+          listeners: [
+            { name: "main", port: 8080 },
+            { name: "debug", port: 8081 },
+          ],
+          domains: ["a", "b"],
+        },
+        {
+          admin: { host: { $remove: true } },
+          listeners: [
+            { name: "main", port: 80 },
+            { name: "debug", $remove: true },
+            { name: "tls", port: 443 },
+          ],
+          domains: ["c"],
+        }
+      )
+    ).toEqual({
+      admin: { port: 9901 },
+      listeners: [
+        { name: "main", port: 80 },
+        { name: "tls", port: 443 },
+      ],
+      domains: ["c"],
+    });
+  });
+});
+
+describe("ConfigDiscover overlays", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-overlays-"));
+    const envoy = join(root, "users", "envoy");
+    write(
+      join(envoy, "routes", "users.yaml"),
+      "routes:\n  - name: users\n    match: { prefix: /users }\n    route: { cluster: users }\n  - name: legacy\n    match: { prefix: /legacy }\n    route: { cluster: users }\n"
+    );
+    write(
+      join(envoy, "clusters", "users.yaml"),
+      "clusters:\n  - name: users\n    connect_timeout: 5s\n    type: STRICT_DNS\n"
+    );
+    write(
+      join(envoy, "overlays", "prod", "clusters", "users.yaml"),
+      "clusters:\n  - name: users\n    outlier_detection: { consecutive_5xx: 5 }\n    circuit_breakers: { thresholds: [{ max_connections: 100 }] }\n"
+    );
+    write(
+      join(envoy, "overlays", "prod", "routes", "users.yaml"),
+      "routes:\n  - name: legacy\n    $remove: true\n"
+    );
+    write(
+      join(envoy, "overlays", "staging", "routes", "debug.yaml"),
+      "routes:\n  - name: debug\n    match: { prefix: /debug }\n    route: { cluster: users }\n"
+    );
+    write(
+      join(root, "base.yaml"),
+      "admin: { address: { socket_address: { port_value: 9901 } } }\nstatic_resources: { listeners: [], clusters: [] }\n"
+    );
+    write(
+      join(root, "overlays", "prod", "admin.yaml"),
+      "admin: { $remove: true }\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const discover = (environment?: string) =>
+    new ConfigDiscover(
+      [join(root, "users")],
+      join(root, "base.yaml"),
+      "envoy",
+      {
+        environment,
+      }
+    );
+
+  it("should merge and remove items by name for the selected environment", () => {
+    const [service] = discover("prod").collect();
+
+    expect(service.clusters).toEqual([
+      {
+        name: "users",
+        connect_timeout: "5s",
+        type: "STRICT_DNS",
+        outlier_detection: { consecutive_5xx: 5 },
+        circuit_breakers: { thresholds: [{ max_connections: 100 }] },
+      },
+    ]);
+    expect(service.routes.map((r) => r.name)).toEqual(["users"]);
+    expect(service.routeSources).toHaveLength(1);
+  });
+
+  it("should append overlay items that match nothing, with their source", () => {
+    const [service] = discover("staging").collect();
+
+    expect(service.routes.map((r) => r.name)).toEqual([
+      "users",
+      "legacy",
+      "debug",
+    ]);
+    expect(service.routeSources?.[2].file).toBe(
+      join(
+        root,
+        "users",
+        "envoy",
+        "overlays",
+        "staging",
+        "routes",
+        "debug.yaml"
+      )
+    );
+    expect(service.clusters[0]).not.toHaveProperty("outlier_detection");
+  });
+
+  it("should merge the base overlays of the selected environment", () => {
+    expect(discover("prod").collectBase()).toEqual({
+      static_resources: { listeners: [], clusters: [] },
+    });
+    expect(discover().collectBase()).toHaveProperty("admin");
+  });
+});
@@ -0,0 +1,213 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { Diagnostics } from "../src/config-compiler/diagnostics";
+import { EnvoyConfig, ServiceConfg } from "../src/config-types";
+import { PluginError, YamlTools } from "../src/utils";
+
+jest.spyOn(console, "log").mockImplementation();
+jest.spyOn(console, "error").mockImplementation();
+
+const base = (): EnvoyConfig =>
+  ({
+    static_resources: {
+      listeners: [
+        {
+          name: "main",
+          address: { socket_address: { address: "0.0.0.0", port_value: 80 } },
+          filter_chains: [
+            {
+              filters: [
+                {
+                  name: "envoy.filters.network.http_connection_manager",
+                  typed_config: {
+                    route_config: {
+                      virtual_hosts: [
+                        { name: "default", domains: ["*"], routes: [] },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      clusters: [{ name: "shared" }],
+    },
+  } as unknown as EnvoyConfig);
+
+const route = (prefix: string) => ({
+  match: { prefix },
+  route: { cluster: "shared" },
+});
+
+describe("PluginError", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-errors-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should classify read failures", () => {
+    fs.writeFileSync(join(root, "broken.yaml"), "routes: [\n");
+
+    expect(() => YamlTools.load_yaml(join(root, "missing.yaml"))).toThrow(
+      expect.objectContaining({
+        code: "FILE_NOT_FOUND",
+        file: join(root, "missing.yaml"),
+      })
+    );
+    expect(() => YamlTools.load_documents(join(root, "broken.yaml"))).toThrow(
+      expect.objectContaining({ code: "YAML_PARSE_ERROR" })
+    );
+    expect(YamlTools.read_yaml(join(root, "missing.yaml"))).toBeNull();
+  });
+
+  it("should report when a file can't be written", () => {
+    expect(YamlTools.write_yaml({}, join(root, "missing", "out.yaml"))).toBe(
+      false
+    );
+    expect(YamlTools.write_yaml({}, join(root, "out.yaml"))).toBe(true);
+  });
+
+  it("should turn errors into diagnostics with their code and source", () => {
+    expect(
+      Diagnostics.fromError(
+        new PluginError("INVALID_MANIFEST", "bad manifest", {
+          file: "svc/envoy/service.yaml",
+          service: "svc",
+        })
+      )
+    ).toEqual({
+      severity: "error",
+      code: "INVALID_MANIFEST",
+      message: "bad manifest",
+      service: "svc",
+      file: "svc/envoy/service.yaml",
+    });
+    expect(Diagnostics.fromError(new Error("boom"))).toEqual({
+      severity: "error",
+      code: "UNKNOWN_ERROR",
+      message: "boom",
+    });
+  });
+
+  it("should attribute unreadable files and invalid manifests to their service", () => {
+    const service = join(root, "svc");
+    fs.mkdirSync(join(service, "envoy", "routes"), { recursive: true });
+    fs.writeFileSync(join(service, "envoy", "routes", "bad.yaml"), "a: [\n");
+    fs.writeFileSync(
+      join(service, "envoy", "routes", "good.yaml"),
+      JSON.stringify({ routes: [route("/")] })
+    );
+
+    const discovery = new ConfigDiscover([service], join(root, "base.yaml"));
+    discovery.collect();
+
+    expect(discovery.getReadErrors()).toEqual([
+      join(service, "envoy", "routes", "bad.yaml"),
+    ]);
+    expect(discovery.getReadFailures()[0]).toMatchObject({
+      code: "YAML_PARSE_ERROR",
+      service,
+      file: join(service, "envoy", "routes", "bad.yaml"),
+    });
+    expect(() => discovery.collectBase()).toThrow(
+      expect.objectContaining({ code: "BASE_CONFIG_NOT_FOUND" })
+    );
+
+    fs.writeFileSync(join(service, "envoy", "service.yaml"), "mount: api\n");
+    expect(() => discovery.collect()).toThrow(
+      expect.objectContaining({
+        code: "INVALID_MANIFEST",
+        service,
+        file: join(service, "envoy", "service.yaml"),
+      })
+    );
+  });
+});
+
+describe("Compiler statistics and errors", () => {
+  it("should count the services, routes and clusters merged", () => {
+    const services: ServiceConfg[] = [
+      {
+        path: "services/a",
+        routes: [route("/a"), route("/b")],
+        clusters: [{ name: "a" } as any],
+      },
+      {
+        path: "services/b",
+        routes: [route("/a")],
+        clusters: [{ name: "a" } as any, { name: "b" } as any],
+      },
+    ];
+    const compiler = new Compiler(base(), services, {
+      conflictPolicy: "first-wins",
+    });
+    compiler.build();
+
+    expect(compiler.getStats()).toEqual({
+      services: 2,
+      routes: 2,
+      clusters: 3,
+    });
+
+    const lastWins = new Compiler(base(), services, {
+      conflictPolicy: "last-wins",
+    });
+    lastWins.build();
+    expect(lastWins.getStats().routes).toBe(2);
+  });
+
+  it("should not count routes that have no virtual host to attach to", () => {
+    const tcpOnly = base();
+    tcpOnly.static_resources.listeners = [];
+    const compiler = new Compiler(tcpOnly, [
+      {
+        path: "services/a",
+        routes: [route("/a")],
+        routeSources: [{ file: "a/routes.yaml" }],
+        clusters: [],
+      },
+    ]);
+    compiler.build();
+
+    expect(compiler.getStats().routes).toBe(0);
+    expect(compiler.validate()).toContainEqual({
+      severity: "warning",
+      code: "ROUTE_NOT_MERGED",
+      message:
+        'route match {"prefix":"/a"} of services/a was dropped: the base configuration has no virtual host to attach it to',
+      service: "services/a",
+      file: "a/routes.yaml",
+    });
+  });
+
+  it("should report missing targets with the file and service", () => {
+    const compiler = new Compiler(base(), [
+      {
+        path: "services/a",
+        routes: [route("/a")],
+        routeSources: [{ file: "a/routes.yaml", listener: "admin" }],
+        clusters: [],
+      },
+    ]);
+
+    expect(() => compiler.build()).toThrow(
+      expect.objectContaining({
+        code: "TARGET_NOT_FOUND",
+        message: "listener 'admin' not found (required by a/routes.yaml)",
+        file: "a/routes.yaml",
+        service: "services/a",
+      })
+    );
+  });
+});
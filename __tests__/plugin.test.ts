@@ -0,0 +1,421 @@
+/* eslint-disable */
+jest.mock("@hembrow-innovations/odm-plugin-js", () => ({}), { virtual: true });
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { EnvoyProxyPlugin } from "../src/plugin";
+import { YamlTools } from "../src/utils";
+
+jest.spyOn(console, "log").mockImplementation();
+jest.spyOn(console, "warn").mockImplementation();
+jest.spyOn(console, "error").mockImplementation();
+
+const BASE = `static_resources:
+  listeners:
+    - name: main
+      address: { socket_address: { address: 0.0.0.0, port_value: 8080 } }
+      filter_chains:
+        - filters:
+            - name: envoy.filters.network.http_connection_manager
+              typed_config:
+                "@type": type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager
+                stat_prefix: ingress_http
+                route_config:
+                  virtual_hosts:
+                    - { name: default, domains: ["*"], routes: [] }
+                http_filters:
+                  - name: envoy.filters.http.router
+                    typed_config:
+                      "@type": type.googleapis.com/envoy.extensions.filters.http.router.v3.Router
+  clusters: []
+`;
+
+const SERVICE = `routes:
+  - match: { prefix: /users }
+    route: { cluster: users }
+clusters:
+  - name: users
+    type: STRICT_DNS
+    connect_timeout: 1s
+    load_assignment:
+      cluster_name: users
+      endpoints:
+        - lb_endpoints:
+            - endpoint:
+                address: { socket_address: { address: users, port_value: 8080 } }
+`;
+
+const execute = async (options: Record<string, unknown>) => {
+  const { result } = await new EnvoyProxyPlugin().execute({ options } as any);
+  return JSON.parse(result as string);
+};
+
+describe("EnvoyProxyPlugin", () => {
+  let root: string;
+  let options: Record<string, unknown>;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-plugin-"));
+    fs.writeFileSync(join(root, "base.yaml"), BASE);
+    fs.mkdirSync(join(root, "users", "envoy"), { recursive: true });
+    fs.writeFileSync(join(root, "users", "envoy", "users.yaml"), SERVICE);
+    options = {
+      "root-path": root,
+      items: ["users"],
+      base: "base.yaml",
+      output: "envoy.yaml",
+      strict: false,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("options", () => {
+    it.each([
+      ["action", "deploy", "invalid action 'deploy'"],
+      ["route-conflicts", "first", "invalid route-conflicts 'first'"],
+      ["route-ordering", "random", "invalid route-ordering 'random'"],
+      ["output-mode", "ads", "invalid output-mode 'ads'"],
+      ["environment", "../prod", "invalid environment '../prod'"],
+      ["watch-debounce", "-1", "invalid watch-debounce '-1'"],
+    ])("should reject %s '%s'", async (key, value, message) => {
+      const response = await execute({ ...options, [key]: value });
+
+      expect(response).toEqual({
+        status: "failure",
+        action: "merge",
+        diagnostics: [
+          {
+            severity: "error",
+            code: "INVALID_OPTION",
+            message: expect.stringContaining(message),
+          },
+        ],
+      });
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+    });
+
+    it("should accept booleans and numbers as strings or as values", async () => {
+      const strings = await execute({
+        ...options,
+        "include-config": "true",
+        "auto-discover": "true",
+        "namespace-clusters": "false",
+      });
+      const values = await execute({
+        ...options,
+        items: [],
+        "include-config": true,
+        "auto-discover": true,
+        "namespace-clusters": false,
+      });
+
+      expect(strings.config).toEqual(values.config);
+      expect(values.stats).toEqual(
+        expect.objectContaining({ services: 1, routes: 1, clusters: 1 })
+      );
+    });
+
+    it("should resolve paths against the root path", async () => {
+      const response = await execute(options);
+
+      expect(response.output).toBe(join(root, "envoy.yaml"));
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(true);
+    });
+  });
+
+  describe("merge", () => {
+    it("should write the compiled configuration and report the build", async () => {
+      const response = await execute({
+        ...options,
+        action: "merge",
+        "include-config": true,
+      });
+
+      expect(response).toEqual({
+        status: "success",
+        action: "merge",
+        diagnostics: [],
+        stats: expect.objectContaining({
+          services: 1,
+          routes: 1,
+          clusters: 1,
+        }),
+        output: join(root, "envoy.yaml"),
+        config: YamlTools.read_yaml(join(root, "envoy.yaml")),
+      });
+      expect(
+        response.config.static_resources.clusters.map((c: any) => c.name)
+      ).toEqual(["users"]);
+    });
+
+    it("should not write the output when an error is found", async () => {
+      fs.writeFileSync(
+        join(root, "users", "envoy", "users.yaml"),
+        "routes:\n  - match: { prefix: /users }\n    route: { cluster: missing }\n"
+      );
+
+      const response = await execute(options);
+
+      expect(response.status).toBe("failure");
+      expect(response.output).toBeUndefined();
+      expect(response.diagnostics).toContainEqual(
+        expect.objectContaining({
+          severity: "error",
+          code: "DANGLING_CLUSTER_REFERENCE",
+        })
+      );
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+    });
+
+    it("should report a missing base configuration", async () => {
+      const response = await execute({ ...options, base: "missing.yaml" });
+
+      expect(response.status).toBe("failure");
+      expect(response.diagnostics).toEqual([
+        expect.objectContaining({
+          code: "BASE_CONFIG_NOT_FOUND",
+          file: join(root, "missing.yaml"),
+        }),
+      ]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should report the configuration as valid without writing it", async () => {
+      const response = await execute({ ...options, action: "validate" });
+
+      expect(response).toEqual({
+        status: "success",
+        action: "validate",
+        diagnostics: [],
+        stats: expect.objectContaining({ services: 1 }),
+        report: { valid: true, conflicts: [] },
+      });
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+    });
+
+    it("should report the errors and route conflicts found", async () => {
+      fs.mkdirSync(join(root, "orders", "envoy"), { recursive: true });
+      fs.writeFileSync(
+        join(root, "orders", "envoy", "routes.yaml"),
+        "routes:\n  - match: { prefix: /users }\n    route: { cluster: orders }\n"
+      );
+
+      const response = await execute({
+        ...options,
+        action: "validate",
+        items: ["users", "orders"],
+      });
+
+      expect(response.status).toBe("failure");
+      expect(response.report.valid).toBe(false);
+      expect(response.report.conflicts).toEqual([
+        expect.objectContaining({
+          match: { prefix: "/users" },
+          existing: expect.objectContaining({ service: join(root, "users") }),
+          incoming: expect.objectContaining({ service: join(root, "orders") }),
+        }),
+      ]);
+      expect(response.diagnostics.map((d: any) => d.code)).toEqual(
+        expect.arrayContaining(["ROUTE_CONFLICT", "DANGLING_CLUSTER_REFERENCE"])
+      );
+    });
+  });
+
+  describe("diff", () => {
+    it("should compare the compiled configuration with the output", async () => {
+      const before = await execute({ ...options, action: "diff" });
+
+      expect(before).toEqual({
+        status: "success",
+        action: "diff",
+        diagnostics: [],
+        stats: expect.objectContaining({ services: 1 }),
+        report: {
+          output: join(root, "envoy.yaml"),
+          changed: true,
+          entries: expect.arrayContaining([
+            expect.objectContaining({ change: "added", kind: "cluster" }),
+          ]),
+          markdown: expect.stringContaining("users"),
+        },
+      });
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+
+      await execute(options);
+      const after = await execute({ ...options, action: "diff" });
+
+      expect(after.report.changed).toBe(false);
+      expect(after.report.entries).toEqual([]);
+    });
+
+    it("should treat a missing output as empty without logging an error", async () => {
+      (console.error as jest.Mock).mockClear();
+
+      const response = await execute({ ...options, action: "diff" });
+
+      expect(response.status).toBe("success");
+      expect(response.report.entries).toEqual([
+        expect.objectContaining({ change: "added", kind: "listener" }),
+        expect.objectContaining({ change: "added", kind: "route" }),
+        expect.objectContaining({ change: "added", kind: "cluster" }),
+      ]);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("should compare with the xDS resource files in the xds output mode", async () => {
+      const xds = { ...options, "output-mode": "xds", rds: true };
+      await execute(xds);
+
+      const unchanged = await execute({ ...xds, action: "diff" });
+
+      expect(unchanged.status).toBe("success");
+      expect(unchanged.report.changed).toBe(false);
+
+      fs.writeFileSync(
+        join(root, "users", "envoy", "users.yaml"),
+        SERVICE.replace("prefix: /users", "prefix: /people")
+      );
+      const changed = await execute({ ...xds, action: "diff" });
+
+      expect(changed.report.entries).toEqual([
+        expect.objectContaining({ change: "added", kind: "route" }),
+        expect.objectContaining({ change: "removed", kind: "route" }),
+      ]);
+    });
+  });
+
+  describe("scaffold", () => {
+    const scaffold = {
+      action: "scaffold",
+      "service-path": "orders",
+      "service-name": "orders",
+      "upstream-host": "orders",
+      "upstream-port": 9000,
+      "path-prefix": "/orders",
+    };
+
+    it("should create the starter files of a service", async () => {
+      const response = await execute({ ...options, ...scaffold });
+
+      expect(response).toEqual({
+        status: "success",
+        action: "scaffold",
+        diagnostics: [],
+        report: {
+          files: expect.arrayContaining([
+            expect.stringContaining(join(root, "orders", "envoy")),
+          ]),
+          cluster: "orders-cluster",
+        },
+      });
+      for (const file of response.report.files)
+        expect(fs.existsSync(file)).toBe(true);
+    });
+
+    it("should fail with SCAFFOLD_FAILED when a file exists", async () => {
+      const response = await execute({ ...options, ...scaffold });
+      const again = await execute({ ...options, ...scaffold });
+
+      expect(response.status).toBe("success");
+      expect(again).toEqual({
+        status: "failure",
+        action: "scaffold",
+        diagnostics: [
+          expect.objectContaining({
+            severity: "error",
+            code: "SCAFFOLD_FAILED",
+            service: join(root, "orders"),
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("expand", () => {
+    it("should report the contributions of every service", async () => {
+      const response = await execute({ ...options, action: "expand" });
+
+      expect(response).toEqual({
+        status: "success",
+        action: "expand",
+        diagnostics: [],
+        report: [
+          {
+            path: join(root, "users"),
+            routes: [expect.objectContaining({ match: { prefix: "/users" } })],
+            clusters: [expect.objectContaining({ name: "users" })],
+          },
+        ],
+      });
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+    });
+  });
+
+  describe("watch", () => {
+    it("should merge, then report the build counts once stopped", async () => {
+      const pending = execute({
+        ...options,
+        action: "watch",
+        "watch-debounce": 10,
+      });
+      await new Promise((r) => setTimeout(r, 50));
+      process.emit("SIGTERM" as any);
+      const response = await pending;
+
+      expect(response).toEqual({
+        status: "success",
+        action: "watch",
+        diagnostics: [],
+        output: join(root, "envoy.yaml"),
+        report: { builds: 1, writes: 1 },
+      });
+      expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(true);
+    });
+
+    it("should not rewrite an output that is already up to date", async () => {
+      await execute(options);
+      const pending = execute({
+        ...options,
+        action: "watch",
+        "watch-debounce": 10,
+      });
+      await new Promise((r) => setTimeout(r, 50));
+      process.emit("SIGTERM" as any);
+      const response = await pending;
+
+      expect(response.status).toBe("success");
+      expect(response.output).toBeUndefined();
+      expect(response.report).toEqual({ builds: 1, writes: 0 });
+    });
+
+    it("should pick up new service folders matching an items pattern", async () => {
+      const pending = execute({
+        ...options,
+        items: ["*"],
+        action: "watch",
+        "watch-debounce": 10,
+      });
+      await new Promise((r) => setTimeout(r, 50));
+      fs.mkdirSync(join(root, "orders", "envoy"), { recursive: true });
+      fs.writeFileSync(
+        join(root, "orders", "envoy", "orders.yaml"),
+        SERVICE.replace(/users/g, "orders")
+      );
+      await new Promise((r) => setTimeout(r, 200));
+      process.emit("SIGTERM" as any);
+      const response = await pending;
+
+      const config = YamlTools.read_yaml(join(root, "envoy.yaml")) as any;
+      expect(response.report.writes).toBe(2);
+      expect(config.static_resources.clusters.map((c: any) => c.name)).toEqual([
+        "orders",
+        "users",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { PolicyLint } from "../src/config-compiler/policy-lint";
+import { ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+jest.spyOn(console, "error").mockImplementation();
+
+const healthCheck = {
+  timeout: "1s",
+  interval: "5s",
+  http_health_check: { path: "/health" },
+};
+
+const service = (): ServiceConfg => ({
+  path: "services/users",
+  clusters: [
+    {
+      name: "users",
+      type: "STRICT_DNS",
+      connect_timeout: "0.25s",
+      health_checks: [healthCheck],
+    } as any,
+    {
+      name: "legacy",
+      type: "LOGICAL_DNS",
+      connect_timeout: "10s",
+      lb_policy: "RING_HASH",
+      load_assignment: {
+        cluster_name: "legacy",
+        endpoints: [{ lb_endpoints: [{}, {}] }],
+      },
+      health_checks: [{ ...healthCheck, timeout: "5s" }],
+    } as any,
+  ],
+  clusterSources: [
+    { file: "users/clusters.yaml" },
+    { file: "users/legacy.yaml" },
+  ],
+  routes: [
+    {
+      name: "users",
+      match: { prefix: "/users" },
+      route: { cluster: "users", timeout: "3s" },
+    },
+    { match: { prefix: "/legacy" }, route: { cluster: "legacy" } },
+    {
+      name: "old",
+      match: { prefix: "/old" },
+      redirect: { path_redirect: "/" },
+    },
+  ],
+  routeSources: [
+    { file: "users/routes.yaml" },
+    { file: "users/routes.yaml" },
+    {},
+  ],
+});
+
+describe("PolicyLint", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-lint-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should report every violation of the built-in rules as a warning", () => {
+    const { diagnostics, suppressed } = new PolicyLint().lint([service()]);
+
+    expect(diagnostics.map((d) => [d.code, d.file])).toEqual([
+      ["CONNECT_TIMEOUT_TOO_LONG", "users/legacy.yaml"],
+      ["LB_POLICY_NOT_ALLOWED", "users/legacy.yaml"],
+      ["LOGICAL_DNS_MULTIPLE_ENDPOINTS", "users/legacy.yaml"],
+      ["HEALTH_CHECK_TIMEOUT_TOO_LONG", "users/legacy.yaml"],
+      ["MISSING_ROUTE_TIMEOUT", "users/routes.yaml"],
+    ]);
+    expect(diagnostics[0]).toEqual({
+      severity: "warning",
+      code: "CONNECT_TIMEOUT_TOO_LONG",
+      message:
+        "cluster 'legacy' sets connect_timeout to 10s, more than the maximum of 5s [cluster-connect-timeout]",
+      service: "services/users",
+      file: "users/legacy.yaml",
+    });
+    expect(diagnostics[4].message).toBe(
+      'route {"prefix":"/legacy"} doesn\'t set a timeout [route-timeout]'
+    );
+    expect(suppressed).toEqual([]);
+  });
+
+  it("should apply the severity and options of the rules file", () => {
+    fs.writeFileSync(
+      join(root, "lint.yaml"),
+      [
+        "rules:",
+        "  cluster-health-checks: error",
+        "  cluster-connect-timeout: { severity: error, max: 100ms }",
+        "  cluster-lb-policy: { allow: [ROUND_ROBIN, RING_HASH] }",
+        "  logical-dns-endpoints: off",
+        "  health-check-timeout: off",
+        "  route-timeout: off",
+      ].join("\n")
+    );
+    const config = PolicyLint.loadConfig(join(root, "lint.yaml"));
+    const original = service();
+    delete original.clusters[0].health_checks;
+    const { diagnostics } = new PolicyLint(config).lint([original]);
+
+    expect(diagnostics.map((d) => [d.severity, d.code, d.message])).toEqual([
+      [
+        "error",
+        "MISSING_HEALTH_CHECKS",
+        "cluster 'users' has no health_checks [cluster-health-checks]",
+      ],
+      [
+        "error",
+        "CONNECT_TIMEOUT_TOO_LONG",
+        "cluster 'users' sets connect_timeout to 0.25s, more than the maximum of 100ms [cluster-connect-timeout]",
+      ],
+      [
+        "error",
+        "CONNECT_TIMEOUT_TOO_LONG",
+        "cluster 'legacy' sets connect_timeout to 10s, more than the maximum of 100ms [cluster-connect-timeout]",
+      ],
+    ]);
+  });
+
+  it.each([
+    ["rules:\n  unknown-rule: error\n", "unknown rule 'unknown-rule'"],
+    [
+      "rules:\n  route-timeout: fatal\n",
+      "'route-timeout' severity must be one of error, warning, off",
+    ],
+    [
+      "rules:\n  cluster-connect-timeout: { max: 5 }\n",
+      "'cluster-connect-timeout.max' must be a duration like '5s'",
+    ],
+    [
+      "rules:\n  cluster-lb-policy: { allow: ROUND_ROBIN }\n",
+      "'cluster-lb-policy.allow' must be a list of strings",
+    ],
+    [
+      "rules:\n  route-timeout: { max: 5s }\n",
+      "unknown option 'max' for rule 'route-timeout'",
+    ],
+  ])("should reject invalid rules files: %s", (contents, problem) => {
+    fs.writeFileSync(join(root, "lint.yaml"), contents);
+    expect(() => PolicyLint.loadConfig(join(root, "lint.yaml"))).toThrow(
+      expect.objectContaining({
+        code: "INVALID_LINT_CONFIG",
+        message: expect.stringContaining(problem),
+        file: join(root, "lint.yaml"),
+      })
+    );
+  });
+
+  it("should move violations suppressed by the service aside with their justification", () => {
+    const original = service();
+    original.manifest = {
+      lint_suppressions: [
+        { rule: "route-timeout", justification: "streams responses" },
+        {
+          rule: "cluster-lb-policy",
+          justification: "needs sticky sessions",
+          target: "other",
+        },
+        { rule: "no-such-rule", justification: "typo" },
+      ],
+    };
+    const { diagnostics, suppressed } = new PolicyLint().lint([original]);
+
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "UNKNOWN_LINT_RULE",
+      "CONNECT_TIMEOUT_TOO_LONG",
+      "LB_POLICY_NOT_ALLOWED",
+      "LOGICAL_DNS_MULTIPLE_ENDPOINTS",
+      "HEALTH_CHECK_TIMEOUT_TOO_LONG",
+    ]);
+    expect(suppressed).toEqual([
+      expect.objectContaining({
+        code: "MISSING_ROUTE_TIMEOUT",
+        rule: "route-timeout",
+        justification: "streams responses",
+        service: "services/users",
+      }),
+    ]);
+  });
+
+  it("should require a justification for every suppression in the manifest", () => {
+    const folder = join(root, "users", "envoy");
+    fs.mkdirSync(folder, { recursive: true });
+    fs.writeFileSync(
+      join(folder, "clusters.yaml"),
+      "clusters:\n  - name: users\n"
+    );
+    fs.writeFileSync(
+      join(folder, "service.yaml"),
+      "lint_suppressions:\n  - rule: route-timeout\n    justification: ' '\n"
+    );
+
+    expect(() =>
+      new ConfigDiscover([join(root, "users")], "base.yaml").collect()
+    ).toThrow(
+      expect.objectContaining({
+        code: "INVALID_MANIFEST",
+        message: expect.stringContaining(
+          "'lint_suppressions[0].justification' must explain why 'route-timeout' is suppressed"
+        ),
+      })
+    );
+  });
+});
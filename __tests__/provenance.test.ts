@@ -0,0 +1,157 @@
+/* eslint-disable */
+import { Compiler } from "../src/config-compiler/compiler";
+import { PROVENANCE_METADATA_KEY } from "../src/config-compiler/provenance";
+import { EnvoyConfig, ServiceConfg } from "../src/config-types";
+import { YamlTools } from "../src/utils";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const hcm = (routes: any[]) => ({
+  name: "envoy.filters.network.http_connection_manager",
+  typed_config: {
+    route_config: {
+      virtual_hosts: [{ name: "default", domains: ["*"], routes }],
+    },
+  },
+});
+
+const base = (): EnvoyConfig =>
+  ({
+    static_resources: {
+      listeners: [
+        {
+          name: "main",
+          address: { socket_address: { address: "0.0.0.0", port_value: 80 } },
+          filter_chains: [
+            {
+              filters: [
+                hcm([{ match: { prefix: "/" }, route: { cluster: "shared" } }]),
+              ],
+            },
+          ],
+        },
+      ],
+      clusters: [{ name: "shared" }],
+    },
+  } as unknown as EnvoyConfig);
+
+const services = (): ServiceConfg[] => [
+  {
+    path: "services/a",
+    routes: [
+      { name: "a", match: { prefix: "/a" }, route: { cluster: "shared" } },
+    ],
+    routeSources: [{ file: "services/a/envoy/routes.yaml" }],
+    clusters: [
+      { name: "shared", metadata: { filter_metadata: { team: "a" } } } as any,
+    ],
+    clusterSources: [{ file: "services/a/envoy/clusters.yaml" }],
+  },
+  {
+    path: "services/b",
+    routes: [],
+    clusters: [{ name: "shared" } as any],
+    clusterSources: [{ file: "services/b/envoy/clusters.yaml" }],
+    listeners: [
+      {
+        name: "admin",
+        address: { socket_address: { address: "0.0.0.0", port_value: 9000 } },
+        filter_chains: [
+          {
+            filters: [
+              hcm([
+                { match: { prefix: "/admin" }, route: { cluster: "shared" } },
+              ]),
+            ],
+          },
+        ],
+      } as any,
+    ],
+    listenerSources: [{ file: "services/b/envoy/listeners.yaml" }],
+  },
+];
+
+describe("Provenance", () => {
+  it("should map every route and cluster to its service and file", () => {
+    const compiler = new Compiler(base(), services(), {
+      baseFile: "base-envoy.yaml",
+    });
+    compiler.build();
+
+    expect(compiler.getProvenance()).toEqual({
+      routes: [
+        {
+          listener: "main",
+          virtual_host: "default",
+          index: 0,
+          match: { prefix: "/" },
+          service: "base",
+          file: "base-envoy.yaml",
+        },
+        {
+          listener: "main",
+          virtual_host: "default",
+          index: 1,
+          name: "a",
+          match: { prefix: "/a" },
+          service: "services/a",
+          file: "services/a/envoy/routes.yaml",
+        },
+        {
+          listener: "admin",
+          virtual_host: "default",
+          index: 0,
+          match: { prefix: "/admin" },
+          service: "services/b",
+          file: "services/b/envoy/listeners.yaml",
+        },
+      ],
+      clusters: [
+        {
+          name: "shared",
+          service: "services/b",
+          file: "services/b/envoy/clusters.yaml",
+          overwrote: [
+            { service: "base", file: "base-envoy.yaml" },
+            { service: "services/a", file: "services/a/envoy/clusters.yaml" },
+          ],
+        },
+      ],
+    });
+    expect(
+      compiler.getStore()!.static_resources.clusters[0].metadata
+    ).toBeUndefined();
+  });
+
+  it("should annotate routes and clusters with their origin when asked to", () => {
+    const [a] = services();
+    const compiler = new Compiler(base(), [a], { provenanceMetadata: true });
+    compiler.build();
+    const config = compiler.getStore()!;
+    const routes = (
+      config.static_resources.listeners[0].filter_chains![0].filters[0]
+        .typed_config as any
+    ).route_config.virtual_hosts[0].routes;
+
+    expect(routes.map((r: any) => r.metadata.filter_metadata)).toEqual([
+      { [PROVENANCE_METADATA_KEY]: { service: "base" } },
+      {
+        [PROVENANCE_METADATA_KEY]: {
+          service: "services/a",
+          file: "services/a/envoy/routes.yaml",
+        },
+      },
+    ]);
+    expect(config.static_resources.clusters[0].metadata).toEqual({
+      filter_metadata: {
+        team: "a",
+        [PROVENANCE_METADATA_KEY]: {
+          service: "services/a",
+          file: "services/a/envoy/clusters.yaml",
+          overwrote: [{ service: "base" }],
+        },
+      },
+    });
+    expect(() => YamlTools.dump_yaml(config)).not.toThrow();
+  });
+});
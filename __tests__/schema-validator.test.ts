@@ -0,0 +1,309 @@
+/* eslint-disable */
+import { Compiler } from "../src/config-compiler/compiler";
+import {
+  ENVOY_API_MESSAGES,
+  SchemaValidator,
+} from "../src/config-compiler/schema-validator";
+import { EnvoyConfig, ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const HCM =
+  "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager";
+
+const listener = (typedConfig: Record<string, unknown>) => ({
+  name: "main",
+  address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+  filter_chains: [
+    {
+      filters: [
+        {
+          name: "envoy.filters.network.http_connection_manager",
+          typed_config: { "@type": HCM, ...typedConfig },
+        },
+      ],
+    },
+  ],
+});
+
+describe("SchemaValidator", () => {
+  const validator = new SchemaValidator();
+
+  it("should accept configurations that match the Envoy API", () => {
+    const cluster = {
+      name: "users",
+      type: "STRICT_DNS",
+      connect_timeout: "0.25s",
+      lb_policy: "ROUND_ROBIN",
+      load_assignment: {
+        cluster_name: "users",
+        endpoints: [
+          {
+            lb_endpoints: [
+              {
+                endpoint: {
+                  address: {
+                    socket_address: { address: "users", port_value: "8080" },
+                  },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+    const route = {
+      match: { prefix: "/users", headers: [{ name: ":method" }] },
+      route: { cluster: "users", timeout: "3s" },
+    };
+    const hcm = listener({
+      stat_prefix: "ingress_http",
+      route_config: {
+        virtual_hosts: [{ name: "default", domains: ["*"], routes: [route] }],
+      },
+      http_filters: [
+        {
+          name: "envoy.filters.http.router",
+          typed_config: {
+            "@type":
+              "type.googleapis.com/envoy.extensions.filters.http.router.v3.Router",
+          },
+        },
+      ],
+    });
+
+    expect(
+      validator.validate(cluster, ENVOY_API_MESSAGES.cluster, "clusters[users]")
+    ).toEqual([]);
+    expect(validator.validate(route, ENVOY_API_MESSAGES.route, "")).toEqual([]);
+    expect(validator.validate(hcm, ENVOY_API_MESSAGES.listener, "")).toEqual(
+      []
+    );
+  });
+
+  it("should report each mismatch with the path of the field", () => {
+    const cluster = {
+      type: "STRICT",
+      conect_timeout: "1s",
+      connect_timeout: 5,
+      per_connection_buffer_limit_bytes: -1,
+      load_assignment: { cluster_name: "users", endpoints: {} },
+    };
+
+    expect(
+      validator.validate(cluster, ENVOY_API_MESSAGES.cluster, "clusters[0]")
+    ).toEqual([
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: expect.stringMatching(
+          /^unknown value 'STRICT', expected one of STATIC, STRICT_DNS/
+        ),
+        path: "clusters[0].type",
+      },
+      {
+        severity: "error",
+        code: "UNKNOWN_FIELD",
+        message:
+          "unknown field 'conect_timeout' in envoy.config.cluster.v3.Cluster",
+        path: "clusters[0].conect_timeout",
+      },
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: "expected a duration like '5s'",
+        path: "clusters[0].connect_timeout",
+      },
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: "expected a non-negative integer",
+        path: "clusters[0].per_connection_buffer_limit_bytes",
+      },
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: "expected a list",
+        path: "clusters[0].load_assignment.endpoints",
+      },
+      {
+        severity: "error",
+        code: "MISSING_FIELD",
+        message:
+          "required field 'name' is missing (envoy.config.cluster.v3.Cluster)",
+        path: "clusters[0].name",
+      },
+    ]);
+  });
+
+  it("should apply the validate rules of the protos", () => {
+    const route = {
+      match: { prefix: "/", path: "/exact" },
+      route: { cluster: "users", timeout: "3s", priority: "URGENT" },
+    };
+    const cluster = {
+      name: "users",
+      connect_timeout: "0s",
+      load_assignment: {
+        cluster_name: "users",
+        endpoints: [
+          {
+            lb_endpoints: [
+              {
+                endpoint: {
+                  address: {
+                    socket_address: { address: "users", port_value: 70000 },
+                  },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(
+      validator.validate({ route: {} }, ENVOY_API_MESSAGES.route, "routes[0]")
+    ).toEqual([
+      expect.objectContaining({
+        code: "MISSING_FIELD",
+        message:
+          "one of cluster, cluster_header, weighted_clusters, cluster_specifier_plugin, inline_cluster_specifier_plugin is required",
+        path: "routes[0].route",
+      }),
+      expect.objectContaining({
+        code: "MISSING_FIELD",
+        message:
+          "required field 'match' is missing (envoy.config.route.v3.Route)",
+        path: "routes[0].match",
+      }),
+    ]);
+    expect(
+      validator
+        .validate(route, ENVOY_API_MESSAGES.route, "routes[0]")
+        .map((d) => [d.code, d.path, d.message])
+    ).toEqual([
+      [
+        "CONFLICTING_FIELDS",
+        "routes[0].match",
+        "only one of prefix, path may be set",
+      ],
+      [
+        "INVALID_FIELD",
+        "routes[0].route.priority",
+        "unknown value 'URGENT', expected one of DEFAULT, HIGH",
+      ],
+    ]);
+    expect(
+      validator
+        .validate(cluster, ENVOY_API_MESSAGES.cluster, "clusters[users]")
+        .map((d) => [d.path, d.message])
+    ).toEqual([
+      [
+        "clusters[users].connect_timeout",
+        "expected a value greater than 0, got 0",
+      ],
+      [
+        "clusters[users].load_assignment.endpoints[0].lb_endpoints[0].endpoint.address.socket_address.port_value",
+        "expected a value at most 65535, got 70000",
+      ],
+    ]);
+  });
+
+  it("should check typed configs against the message of their @type", () => {
+    const config = listener({
+      codec_type: "HTTP3000",
+      route_config: { virtual_hosts: [{ name: "default", domains: [] }] },
+      http_filters: [
+        {
+          name: "envoy.filters.http.custom",
+          typed_config: { "@type": "type.googleapis.com/acme.Custom" },
+        },
+        { name: "envoy.filters.http.router", typed_config: { foo: 1 } },
+      ],
+    });
+
+    expect(
+      validator
+        .validate(config, ENVOY_API_MESSAGES.listener, "listeners[main]")
+        .map((d) => [d.severity, d.code, d.path])
+    ).toEqual([
+      [
+        "error",
+        "INVALID_FIELD",
+        "listeners[main].filter_chains[0].filters[0].typed_config.codec_type",
+      ],
+      [
+        "error",
+        "INVALID_FIELD",
+        "listeners[main].filter_chains[0].filters[0].typed_config.route_config.virtual_hosts[0].domains",
+      ],
+      [
+        "warning",
+        "UNKNOWN_TYPE_URL",
+        "listeners[main].filter_chains[0].filters[0].typed_config.http_filters[0].typed_config.@type",
+      ],
+      [
+        "error",
+        "MISSING_FIELD",
+        "listeners[main].filter_chains[0].filters[0].typed_config.http_filters[1].typed_config.@type",
+      ],
+      [
+        "error",
+        "MISSING_FIELD",
+        "listeners[main].filter_chains[0].filters[0].typed_config.stat_prefix",
+      ],
+    ]);
+  });
+
+  it("should check the routes, clusters and listeners of every service when the compiler validates", () => {
+    const base = {
+      static_resources: {
+        listeners: [
+          listener({
+            stat_prefix: "ingress_http",
+            route_config: {
+              virtual_hosts: [{ name: "default", domains: ["*"], routes: [] }],
+            },
+          }),
+        ],
+        clusters: [],
+      },
+    } as unknown as EnvoyConfig;
+    const service: ServiceConfg = {
+      path: "services/users",
+      routes: [
+        {
+          match: { prefix: "/users" },
+          route: { cluster: "users", timeout: 3 },
+        },
+      ] as any,
+      routeSources: [{ file: "services/users/envoy/routes.yaml" }],
+      clusters: [{ name: "users", connect_timeout: "1 second" } as any],
+      clusterSources: [{ file: "services/users/envoy/clusters.yaml" }],
+    };
+    const compiler = new Compiler(base, [service]);
+    compiler.build();
+
+    expect(
+      compiler.validate().filter((d) => d.service === "services/users")
+    ).toEqual([
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: "expected a duration like '5s'",
+        path: "routes[0].route.timeout",
+        service: "services/users",
+        file: "services/users/envoy/routes.yaml",
+      },
+      {
+        severity: "error",
+        code: "INVALID_FIELD",
+        message: "expected a duration like '5s'",
+        path: "clusters[users].connect_timeout",
+        service: "services/users",
+        file: "services/users/envoy/clusters.yaml",
+      },
+    ]);
+  });
+});
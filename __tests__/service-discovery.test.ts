@@ -0,0 +1,90 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { FsTools } from "../src/utils/fs-tools";
+
+jest.spyOn(console, "log").mockImplementation();
+
+describe("FsTools.matchesGlob", () => {
+  it.each([
+    ["services/users", "services/*", true],
+    ["services/users/api", "services/*", false],
+    ["apps", "apps/**", true],
+    ["apps/web/api", "apps/**", true],
+    ["apps/web/api", "**/api", true],
+    ["svc-1", "svc-?", true],
+    ["svc.1", "svc?1", true],
+    ["svcx1", "svc.1", false],
+  ])("%s matches %s: %s", (path, pattern, expected) => {
+    expect(FsTools.matchesGlob(path, pattern)).toBe(expected);
+  });
+
+  it("should match patterns without a slash against any segment", () => {
+    expect(FsTools.matchesAny("apps/node_modules", ["node_modules"])).toBe(
+      true
+    );
+    expect(FsTools.matchesAny("apps/web", ["legacy/*"])).toBe(false);
+  });
+});
+
+describe("Service discovery", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-services-"));
+    for (const folder of [
+      "services/users/envoy/routes",
+      "services/orders/envoy/clusters",
+      "services/docs",
+      "apps/web/envoy",
+      "apps/web/admin/envoy",
+      "apps/node_modules/dep/envoy",
+      "legacy/billing/envoy",
+    ]) {
+      fs.mkdirSync(join(root, folder), { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should resolve items relative to the root path and expand globs", () => {
+    expect(
+      ConfigDiscover.resolveItems(root, [
+        "legacy/billing",
+        "services/*",
+        "apps/**",
+        "services/users",
+      ])
+    ).toEqual([
+      join(root, "legacy/billing"),
+      join(root, "services/orders"),
+      join(root, "services/users"),
+      join(root, "apps/web"),
+      join(root, "apps/web/admin"),
+    ]);
+  });
+
+  it("should find every folder with a configuration subfolder in sorted order", () => {
+    expect(ConfigDiscover.discoverServices(root, "envoy", ["legacy"])).toEqual([
+      join(root, "apps/web"),
+      join(root, "apps/web/admin"),
+      join(root, "services/orders"),
+      join(root, "services/users"),
+    ]);
+  });
+
+  it("should leave absolute and empty paths unchanged", () => {
+    expect(ConfigDiscover.resolvePath("root", "/etc/envoy.yaml")).toBe(
+      "/etc/envoy.yaml"
+    );
+    expect(ConfigDiscover.resolvePath("root", "")).toBe("");
+    expect(ConfigDiscover.resolvePath("", "base.yaml")).toBe("base.yaml");
+    expect(ConfigDiscover.resolvePath("root", "base.yaml")).toBe(
+      join("root", "base.yaml")
+    );
+  });
+});
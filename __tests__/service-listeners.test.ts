@@ -0,0 +1,196 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { ConfigValidator } from "../src/config-compiler/validator";
+import { EnvoyConfig, Listener, ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const tcpListener = (
+  name: string,
+  port: number,
+  cluster: string,
+  address = "0.0.0.0"
+): Listener =>
+  ({
+    name,
+    address: { socket_address: { address, port_value: port } },
+    filter_chains: [
+      {
+        filters: [
+          {
+            name: "envoy.filters.network.tcp_proxy",
+            typed_config: {
+              "@type":
+                "type.googleapis.com/envoy.extensions.filters.network.tcp_proxy.v3.TcpProxy",
+              stat_prefix: name,
+              cluster,
+            },
+          },
+        ],
+      },
+    ],
+  } as Listener);
+
+const cluster = (name: string) => ({
+  name,
+  type: "STRICT_DNS",
+  connect_timeout: "5s",
+  load_assignment: {
+    cluster_name: name,
+    endpoints: [
+      {
+        lb_endpoints: [
+          {
+            endpoint: {
+              address: { socket_address: { address: name, port_value: 1 } },
+            },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const base = (): EnvoyConfig =>
+  ({
+    static_resources: {
+      listeners: [tcpListener("main", 8080, "main")],
+      clusters: [cluster("main")],
+    },
+  } as unknown as EnvoyConfig);
+
+const service = (
+  listeners: Listener[],
+  clusters: string[] = []
+): ServiceConfg =>
+  ({
+    path: "services/postgres",
+    routes: [],
+    clusters: clusters.map(cluster),
+    listeners,
+  } as unknown as ServiceConfg);
+
+describe("Service listeners", () => {
+  it("should add service listeners", () => {
+    const compiler = new Compiler(base(), [
+      service([tcpListener("postgres", 5432, "postgres")], ["postgres"]),
+      service([tcpListener("postgres", 5432, "postgres")]),
+    ]);
+    compiler.build();
+    const listeners = compiler.getStore()!.static_resources.listeners;
+
+    expect(listeners.map((l) => l.name)).toEqual(["main", "postgres"]);
+    expect(compiler.validate()).toEqual([]);
+  });
+
+  it("should reject listeners whose name is taken by a different listener", () => {
+    const redis = service([tcpListener("redis", 6379, "main")]);
+    redis.path = "services/redis";
+    redis.listenerSources = [{ file: "services/redis/envoy/listeners.yaml" }];
+    const compiler = new Compiler(base(), [
+      service([tcpListener("main", 5432, "main")]),
+      redis,
+      service([tcpListener("redis", 6380, "main")]),
+    ]);
+    compiler.build();
+    const listeners = compiler.getStore()!.static_resources.listeners;
+
+    expect(listeners.map((l) => l.name)).toEqual(["main", "redis"]);
+    expect(listeners[0].address!.socket_address?.port_value).toBe(8080);
+    expect(listeners[1].address!.socket_address?.port_value).toBe(6379);
+    expect(compiler.validate()).toEqual([
+      {
+        severity: "error",
+        code: "LISTENER_NAME_COLLISION",
+        message:
+          "services/postgres defines listener 'main', but the base configuration already defines a different listener with that name",
+        path: "static_resources.listeners[main]",
+        service: "services/postgres",
+      },
+      {
+        severity: "error",
+        code: "LISTENER_NAME_COLLISION",
+        message:
+          "services/postgres defines listener 'redis', but services/redis (services/redis/envoy/listeners.yaml) already defines a different listener with that name",
+        path: "static_resources.listeners[redis]",
+        service: "services/postgres",
+      },
+    ]);
+  });
+
+  it("should report listeners binding the same port", () => {
+    const compiler = new Compiler(base(), [
+      service([tcpListener("redis", 8080, "main", "10.0.0.1")]),
+      service([tcpListener("mqtt", 1883, "main", "::")]),
+      service([tcpListener("mqtt-v4", 1883, "main", "127.0.0.1")]),
+    ]);
+    compiler.build();
+
+    expect(compiler.validate()).toEqual([
+      {
+        severity: "error",
+        code: "LISTENER_PORT_COLLISION",
+        message:
+          "listener 'redis' binds 10.0.0.1:8080, which listener 'main' already binds on 0.0.0.0:8080",
+        path: "static_resources.listeners[redis].address",
+      },
+    ]);
+  });
+
+  it("should check the clusters of tcp proxies", () => {
+    const config = base();
+    config.static_resources.listeners.push(tcpListener("redis", 6379, "redis"));
+
+    expect(new ConfigValidator(config).validate()).toEqual([
+      {
+        severity: "error",
+        code: "DANGLING_CLUSTER_REFERENCE",
+        message: "tcp proxy references unknown cluster 'redis'",
+        path: "static_resources.listeners[redis].tcp_proxy[0].cluster",
+      },
+    ]);
+  });
+
+  it("should namespace the clusters of tcp proxies", () => {
+    const namespaced = {
+      ...service([tcpListener("postgres", 5432, "postgres")], ["postgres"]),
+      manifest: { namespace: "data" },
+    };
+    const compiler = new Compiler(base(), [namespaced], {
+      namespaceClusters: true,
+    });
+    compiler.build();
+    const listener = compiler.getStore()!.static_resources.listeners[1];
+
+    expect(
+      (listener.filter_chains![0].filters[0].typed_config as any).cluster
+    ).toBe("data.postgres");
+    expect(compiler.validate()).toEqual([]);
+  });
+
+  it("should read listeners from service files", () => {
+    const root = fs.mkdtempSync(join(os.tmpdir(), "envoy-listeners-"));
+    try {
+      const file = join(root, "postgres", "envoy", "listeners", "tcp.yaml");
+      fs.mkdirSync(join(file, ".."), { recursive: true });
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ listeners: [tcpListener("postgres", 5432, "pg")] })
+      );
+
+      const [discovered] = new ConfigDiscover(
+        [join(root, "postgres")],
+        "base.yaml"
+      ).collect();
+
+      expect(discovered.listeners?.map((l) => l.name)).toEqual(["postgres"]);
+      expect(discovered.listenerSources).toEqual([{ file }]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
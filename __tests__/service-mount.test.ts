@@ -0,0 +1,169 @@
+/* eslint-disable */
+import { ServiceMount } from "../src/config-compiler/service-mount";
+import { ServiceConfg } from "../src/config-types";
+
+const service = (mount_rewrite?: boolean): ServiceConfg => ({
+  path: "services/users",
+  manifest: { name: "users", mount: "/api/user-service/", mount_rewrite },
+  clusters: [],
+  routes: [
+    { name: "users", match: { prefix: "/users" }, route: { cluster: "users" } },
+    { name: "health", match: { path: "/health" }, route: { cluster: "users" } },
+    {
+      name: "versioned",
+      match: { safe_regex: { regex: "^/v[0-9]+/.*" } },
+      route: { cluster: "users" },
+    },
+    {
+      name: "old",
+      match: { prefix: "/old" },
+      redirect: { path_redirect: "/" },
+    },
+  ],
+  routeSources: [{}, {}, {}, {}],
+});
+
+describe("ServiceMount", () => {
+  it("should normalize mount paths", () => {
+    expect(ServiceMount.normalize("/api/users/")).toBe("/api/users");
+    expect(ServiceMount.normalize("api")).toBe("/api");
+    expect(ServiceMount.normalize("/")).toBe("");
+  });
+
+  it("should prefix every route match with the mount path", () => {
+    const { service: mounted, diagnostics } = ServiceMount.apply(service());
+
+    expect(mounted.routes.map((r) => r.match)).toEqual([
+      { prefix: "/api/user-service/users" },
+      { path: "/api/user-service/health" },
+      { safe_regex: { regex: "^/api/user-service/v[0-9]+/.*" } },
+      { prefix: "/api/user-service/old" },
+    ]);
+    expect(mounted.routes[0].route).toEqual({ cluster: "users" });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("should rewrite mounted paths back to the original ones", () => {
+    const { service: mounted } = ServiceMount.apply(service(true));
+
+    expect(mounted.routes.map((r) => r.route)).toEqual([
+      { cluster: "users", prefix_rewrite: "/users" },
+      { cluster: "users", prefix_rewrite: "/health" },
+      {
+        cluster: "users",
+        regex_rewrite: {
+          pattern: { regex: "^/api/user-service(/.*)$" },
+          substitution: "\\1",
+        },
+      },
+      undefined,
+    ]);
+  });
+
+  it("should mount a root prefix at the mount path itself", () => {
+    const original = service(true);
+    original.routes = [
+      { name: "all", match: { prefix: "/" }, route: { cluster: "users" } },
+    ];
+    const { service: mounted } = ServiceMount.apply(original);
+
+    expect(mounted.routes[0]).toEqual({
+      name: "all",
+      match: { path_separated_prefix: "/api/user-service" },
+      route: {
+        cluster: "users",
+        regex_rewrite: {
+          pattern: { regex: "^/api/user-service(?:/(.*))?$" },
+          substitution: "/\\1",
+        },
+      },
+    });
+  });
+
+  it("should not match paths that only start with the mount path", () => {
+    const original = service(true);
+    original.manifest!.mount = "/api/user";
+    original.routes = [
+      { name: "all", match: { prefix: "/" }, route: { cluster: "users" } },
+    ];
+    const { service: mounted } = ServiceMount.apply(original);
+
+    expect(mounted.routes[0].match).toEqual({
+      path_separated_prefix: "/api/user",
+    });
+    const pattern = new RegExp(
+      mounted.routes[0].route!.regex_rewrite!.pattern.regex
+    );
+    expect(pattern.test("/api/users")).toBe(false);
+    expect("/api/user".replace(pattern, "/$1")).toBe("/");
+    expect("/api/user/42".replace(pattern, "/$1")).toBe("/42");
+  });
+
+  it("should mount and rewrite path separated prefixes", () => {
+    const original = service(true);
+    original.routes = [
+      {
+        name: "orders",
+        match: { path_separated_prefix: "/orders" },
+        route: { cluster: "users" },
+      },
+    ];
+    const { service: mounted, diagnostics } = ServiceMount.apply(original);
+
+    expect(mounted.routes[0]).toEqual({
+      name: "orders",
+      match: { path_separated_prefix: "/api/user-service/orders" },
+      route: { cluster: "users", prefix_rewrite: "/orders" },
+    });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("should report routes whose match cannot be mounted", () => {
+    const original = service(true);
+    original.routes = [
+      {
+        name: "templated",
+        match: { path_match_policy: { name: "uri_template" } } as any,
+        route: { cluster: "users" },
+      },
+    ];
+    original.routeSources = [{ file: "routes/templated.yaml" }];
+    const { service: mounted, diagnostics } = ServiceMount.apply(original);
+
+    expect(mounted.routes[0]).toBe(original.routes[0]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "MOUNT_UNSUPPORTED_MATCH",
+        message:
+          "route 'templated' has no prefix, path, path_separated_prefix or safe_regex match, so it was not mounted at '/api/user-service'",
+        service: "services/users",
+        file: "routes/templated.yaml",
+      },
+    ]);
+  });
+
+  it("should report rewrites the service already sets instead of overwriting them", () => {
+    const original = service(true);
+    original.routes[0].route!.prefix_rewrite = "/v2/users";
+    original.routeSources![0] = { file: "routes/users.yaml" };
+    const { service: mounted, diagnostics } = ServiceMount.apply(original);
+
+    expect(mounted.routes[0].route!.prefix_rewrite).toBe("/v2/users");
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "MOUNT_REWRITE_CONFLICT",
+        message:
+          "route 'users' already sets prefix_rewrite, so the rewrite for mount '/api/user-service' was not added",
+        service: "services/users",
+        file: "routes/users.yaml",
+      },
+    ]);
+  });
+
+  it("should leave services without a mount unchanged", () => {
+    const original = { ...service(), manifest: { name: "users" } };
+    expect(ServiceMount.apply(original).service).toBe(original);
+  });
+});
@@ -0,0 +1,117 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ServiceScaffold } from "../src/config-compiler/service-scaffold";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigValidator } from "../src/config-compiler/validator";
+import { EnvoyConfig } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+describe("ServiceScaffold", () => {
+  let root: string;
+
+  const baseConfig = (): EnvoyConfig => ({
+    static_resources: {
+      listeners: [
+        {
+          name: "main",
+          address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+          filter_chains: [
+            {
+              filters: [
+                {
+                  name: "envoy.filters.network.http_connection_manager",
+                  typed_config: {
+                    "@type":
+                      "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+                    route_config: {
+                      name: "local_route",
+                      virtual_hosts: [
+                        { name: "vh", domains: ["*"], routes: [] },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      clusters: [],
+    },
+  });
+
+  const options = () => ({
+    servicePath: join(root, "user-service"),
+    serviceName: "user-service",
+    upstreamHost: "user-service",
+    upstreamPort: 3000,
+    pathPrefix: "/api/users",
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-scaffold-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should write starter files that compile cleanly", () => {
+    const files = new ServiceScaffold(options()).write();
+
+    expect(files).toEqual([
+      join(root, "user-service/envoy/routes/user-service-routes.yaml"),
+      join(root, "user-service/envoy/clusters/user-service-clusters.yaml"),
+    ]);
+
+    const services = new ConfigDiscover(
+      [join(root, "user-service")],
+      ""
+    ).collect();
+    const compiler = new Compiler(baseConfig(), services);
+    compiler.build();
+    const config = compiler.getStore()!;
+
+    expect(new ConfigValidator(config).validateStructure()).toEqual([]);
+    expect(compiler.validate()).toEqual([]);
+    expect(config.static_resources.clusters[0].health_checks).toHaveLength(1);
+  });
+
+  it("should refuse to overwrite existing files unless forced", () => {
+    new ServiceScaffold(options()).write();
+
+    expect(() => new ServiceScaffold(options()).write()).toThrow(
+      /refusing to overwrite existing files/
+    );
+    expect(() =>
+      new ServiceScaffold({ ...options(), force: true }).write()
+    ).not.toThrow();
+  });
+
+  it("should fail when a file can't be written", () => {
+    const routes = join(
+      root,
+      "user-service/envoy/routes/user-service-routes.yaml"
+    );
+    fs.mkdirSync(routes, { recursive: true });
+
+    expect(() =>
+      new ServiceScaffold({ ...options(), force: true }).write()
+    ).toThrow(
+      expect.objectContaining({ code: "FILE_WRITE_FAILED", file: routes })
+    );
+  });
+
+  it("should reject invalid options", () => {
+    expect(
+      () => new ServiceScaffold({ ...options(), upstreamPort: 0 })
+    ).toThrow("invalid upstream port '0'");
+    expect(
+      () => new ServiceScaffold({ ...options(), pathPrefix: "api" })
+    ).toThrow(/must start with '\//);
+  });
+});
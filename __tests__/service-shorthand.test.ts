@@ -0,0 +1,151 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ServiceShorthand } from "../src/config-compiler/service-shorthand";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+
+jest.spyOn(console, "log").mockImplementation();
+
+describe("ServiceShorthand", () => {
+  it("should expand the short form into a cluster and a route per path", () => {
+    const { clusters, routes } = ServiceShorthand.expand({
+      name: "users",
+      upstream: "user-service:3000",
+      paths: ["/api/users", "/api/auth"],
+      timeout: "10s",
+      health: "/healthz",
+    });
+
+    expect(clusters).toEqual([
+      {
+        name: "users-cluster",
+        type: "STRICT_DNS",
+        connect_timeout: "5s",
+        lb_policy: "ROUND_ROBIN",
+        load_assignment: {
+          cluster_name: "users-cluster",
+          endpoints: [
+            {
+              lb_endpoints: [
+                {
+                  endpoint: {
+                    address: {
+                      socket_address: {
+                        address: "user-service",
+                        port_value: 3000,
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        health_checks: [
+          {
+            timeout: "5s",
+            interval: "10s",
+            unhealthy_threshold: 3,
+            healthy_threshold: 2,
+            http_health_check: { path: "/healthz" },
+          },
+        ],
+      },
+    ]);
+    expect(routes).toEqual([
+      {
+        name: "users-route-1",
+        match: { prefix: "/api/users" },
+        route: { cluster: "users-cluster", timeout: "10s" },
+      },
+      {
+        name: "users-route-2",
+        match: { prefix: "/api/auth" },
+        route: { cluster: "users-cluster", timeout: "10s" },
+      },
+    ]);
+  });
+
+  it("should default the timeout and omit the health check", () => {
+    const { clusters, routes } = ServiceShorthand.expand({
+      name: "users",
+      upstream: "10.0.0.1:80",
+      paths: ["/"],
+    });
+    expect(clusters[0].health_checks).toBeUndefined();
+    expect(routes[0]).toEqual({
+      name: "users-route",
+      match: { prefix: "/" },
+      route: { cluster: "users-cluster", timeout: "30s" },
+    });
+  });
+
+  it.each(["user-service", ":3000", "user-service:0", "user-service:http"])(
+    "should reject the upstream '%s'",
+    (upstream) => {
+      expect(() =>
+        ServiceShorthand.expand({ name: "users", upstream, paths: ["/"] })
+      ).toThrow(`invalid upstream '${upstream}'`);
+    }
+  );
+
+  it("should reject paths that don't start with a slash", () => {
+    expect(() =>
+      ServiceShorthand.expand({
+        name: "users",
+        upstream: "users:80",
+        paths: ["api"],
+      })
+    ).toThrow("'paths' must be a list of paths starting with '/'");
+  });
+});
+
+describe("ConfigDiscover short form", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-shorthand-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should expand the short form of a service manifest ahead of its files", () => {
+    const envoy = join(root, "users", "envoy");
+    fs.mkdirSync(join(envoy, "routes"), { recursive: true });
+    fs.writeFileSync(
+      join(envoy, "service.yaml"),
+      "name: users\nupstream: user-service:3000\npaths: [/api/users]\n"
+    );
+    fs.writeFileSync(
+      join(envoy, "routes", "extra.yaml"),
+      "routes:\n  - name: extra\n    match: { prefix: /extra }\n    route: { cluster: users-cluster }\n"
+    );
+
+    const [service] = new ConfigDiscover(
+      [join(root, "users")],
+      "base.yaml"
+    ).collect();
+
+    expect(service.routes.map((r) => r.name)).toEqual(["users-route", "extra"]);
+    expect(service.routeSources![0].file).toBe(join(envoy, "service.yaml"));
+    expect(service.clusters.map((c) => c.name)).toEqual(["users-cluster"]);
+  });
+
+  it("should report invalid short forms with the manifest path", () => {
+    const envoy = join(root, "users", "envoy");
+    fs.mkdirSync(envoy, { recursive: true });
+    fs.writeFileSync(join(envoy, "service.yaml"), "upstream: users:80\n");
+
+    expect(() =>
+      new ConfigDiscover([join(root, "users")], "base.yaml").collect()
+    ).toThrow(
+      `invalid service manifest at ${join(
+        envoy,
+        "service.yaml"
+      )}: a service name is required`
+    );
+  });
+});
@@ -0,0 +1,215 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { Diagnostics } from "../src/config-compiler/diagnostics";
+import { XdsWriter } from "../src/config-compiler/xds-writer";
+import { EnvoyConfig } from "../src/config-types";
+import { FsTools, PluginError, YamlTools } from "../src/utils";
+
+jest.spyOn(console, "log").mockImplementation();
+jest.spyOn(console, "error").mockImplementation();
+
+describe("Strict mode", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-strict-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const write = (path: string, contents: string) => {
+    fs.mkdirSync(join(root, path, ".."), { recursive: true });
+    fs.writeFileSync(join(root, path), contents);
+    return join(root, path);
+  };
+
+  it("should report the line and column of syntax errors", () => {
+    const yamlFile = write("routes.yaml", "routes:\n  - match: [\n");
+    const jsonFile = write("routes.json", '{\n  "routes": [],\n}');
+
+    expect(() => YamlTools.load_documents(yamlFile)).toThrow(
+      expect.objectContaining({
+        code: "YAML_PARSE_ERROR",
+        file: yamlFile,
+        line: 3,
+        column: 1,
+      })
+    );
+    expect(() => YamlTools.load_documents(jsonFile)).toThrow(
+      expect.objectContaining({
+        code: "YAML_PARSE_ERROR",
+        message: expect.stringContaining(`could not parse ${jsonFile}:3:1:`),
+        line: 3,
+        column: 1,
+      })
+    );
+  });
+
+  it("should throw on folders and files that can't be read or written", () => {
+    expect(() => FsTools.readDirContents(join(root, "missing"))).toThrow(
+      expect.objectContaining({ code: "FOLDER_NOT_FOUND" })
+    );
+    expect(FsTools.listDirContents(join(root, "missing"))).toBeNull();
+    expect(() => FsTools.walkFiles(join(root, "missing"))).toThrow(
+      expect.objectContaining({ code: "FOLDER_NOT_FOUND" })
+    );
+    const errors: PluginError[] = [];
+    expect(FsTools.walkFiles(join(root, "missing"), [], errors)).toEqual([]);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        code: "FOLDER_NOT_FOUND",
+        file: join(root, "missing"),
+      }),
+    ]);
+    expect(() =>
+      YamlTools.save_yaml({}, join(root, "missing", "envoy.yaml"))
+    ).toThrow(expect.objectContaining({ code: "FILE_WRITE_FAILED" }));
+  });
+
+  it("should skip non-list keys and report them outside strict mode", () => {
+    const file = write(
+      "svc/envoy/routes/routes.yaml",
+      "routes:\n  match: { prefix: / }\nclusters:\n  - name: svc\nruntime: [on]\n"
+    );
+
+    const discovery = new ConfigDiscover([join(root, "svc")], "base.yaml");
+    const [service] = discovery.collect();
+
+    expect(service.clusters.map((c) => c.name)).toEqual(["svc"]);
+    expect(service.routes).toEqual([]);
+    expect(discovery.getReadFailures()).toEqual([
+      expect.objectContaining({
+        code: "INVALID_CONFIG_FILE",
+        message: `'routes' in ${file} must be a list`,
+        service: join(root, "svc"),
+      }),
+      expect.objectContaining({
+        code: "INVALID_CONFIG_FILE",
+        message: `'runtime' in ${file} must be a mapping`,
+        service: join(root, "svc"),
+      }),
+    ]);
+  });
+
+  it("should skip list entries that are not mappings and report them", () => {
+    const file = write(
+      "svc/envoy/clusters/clusters.yaml",
+      "clusters:\n  -\n  - name: svc\nlisteners: [web]\n"
+    );
+
+    const discovery = new ConfigDiscover([join(root, "svc")], "base.yaml");
+    const [service] = discovery.collect();
+
+    expect(service.clusters.map((c) => c.name)).toEqual(["svc"]);
+    expect(service.listeners ?? []).toEqual([]);
+    expect(discovery.getReadFailures()).toEqual([
+      expect.objectContaining({
+        code: "INVALID_CONFIG_FILE",
+        message: `'clusters[0]' in ${file} must be a mapping`,
+        file,
+        service: join(root, "svc"),
+      }),
+      expect.objectContaining({
+        code: "INVALID_CONFIG_FILE",
+        message: `'listeners[0]' in ${file} must be a mapping`,
+        file,
+      }),
+    ]);
+    expect(() =>
+      new ConfigDiscover([join(root, "svc")], "base.yaml", "envoy", {
+        strict: true,
+      }).collect()
+    ).toThrow(expect.objectContaining({ code: "BUILD_ABORTED" }));
+  });
+
+  it("should record service folders that can't be listed", () => {
+    write("a/envoy/routes/routes.yaml", "routes: []\n");
+    write("a/envoy/clusters/clusters.yaml", "clusters:\n  - name: a\n");
+    const unreadable = join(root, "a", "envoy", "routes");
+    const nodeFs = require("node:fs");
+    const readdirSync = nodeFs.readdirSync;
+    const spy = jest
+      .spyOn(nodeFs, "readdirSync")
+      .mockImplementation((path: any, options: any) => {
+        if (path === unreadable)
+          throw Object.assign(new Error("permission denied"), {
+            code: "EACCES",
+          });
+        return readdirSync(path, options);
+      });
+
+    try {
+      const discovery = new ConfigDiscover([join(root, "a")], "base.yaml");
+      const [service] = discovery.collect();
+
+      expect(service.clusters.map((c) => c.name)).toEqual(["a"]);
+      expect(discovery.getReadFailures()).toEqual([
+        expect.objectContaining({
+          code: "FILE_READ_FAILED",
+          file: unreadable,
+          service: join(root, "a"),
+        }),
+      ]);
+      expect(() =>
+        new ConfigDiscover([join(root, "a")], "base.yaml", "envoy", {
+          strict: true,
+        }).collect()
+      ).toThrow(expect.objectContaining({ code: "BUILD_ABORTED" }));
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("should abort with every problem found in strict mode", () => {
+    write("a/envoy/routes/broken.yaml", "routes: [\n");
+    write("a/envoy/clusters/clusters.yaml", "clusters: svc\n");
+    write("a/envoy/routes/good.yaml", "routes: []\n");
+
+    const discovery = new ConfigDiscover(
+      [join(root, "a"), join(root, "missing")],
+      "base.yaml",
+      "envoy",
+      { strict: true }
+    );
+
+    let error: PluginError | undefined;
+    try {
+      discovery.collect();
+    } catch (e) {
+      error = e as PluginError;
+    }
+
+    expect(error?.code).toBe("BUILD_ABORTED");
+    expect(error?.message).toMatch(/^build aborted in strict mode:\n  - /);
+    expect(Diagnostics.fromErrors(error).map((d) => d.code)).toEqual([
+      "INVALID_CONFIG_FILE",
+      "YAML_PARSE_ERROR",
+      "FOLDER_NOT_FOUND",
+    ]);
+  });
+
+  it("should stop writing xDS files at the first failure in strict mode", () => {
+    const config = {
+      static_resources: { listeners: [], clusters: [] },
+    } as unknown as EnvoyConfig;
+    fs.mkdirSync(join(root, "cds.yaml"));
+
+    expect(() =>
+      new XdsWriter(config, {
+        bootstrapPath: join(root, "envoy.yaml"),
+        strict: true,
+      }).write()
+    ).toThrow(expect.objectContaining({ code: "FILE_WRITE_FAILED" }));
+    expect(fs.existsSync(join(root, "envoy.yaml"))).toBe(false);
+
+    const written = new XdsWriter(config, {
+      bootstrapPath: join(root, "envoy.yaml"),
+    }).write();
+    expect(written).toEqual([join(root, "lds.yaml"), join(root, "envoy.yaml")]);
+  });
+});
@@ -0,0 +1,235 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Compiler } from "../src/config-compiler/compiler";
+import { ConfigDiscover } from "../src/config-compiler/config-discovery";
+import { UpstreamTls } from "../src/config-compiler/upstream-tls";
+import { ConfigValidator } from "../src/config-compiler/validator";
+import { EnvoyConfig, ServiceConfg } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const cluster = (name: string) =>
+  ({
+    name,
+    type: "STRICT_DNS",
+    connect_timeout: "5s",
+    load_assignment: {
+      cluster_name: name,
+      endpoints: [
+        {
+          lb_endpoints: [
+            {
+              endpoint: {
+                address: { socket_address: { address: name, port_value: 443 } },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  } as any);
+
+const base = (): EnvoyConfig =>
+  ({
+    static_resources: { listeners: [], clusters: [] },
+  } as unknown as EnvoyConfig);
+
+describe("UpstreamTls", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(join(os.tmpdir(), "envoy-tls-"));
+    for (const file of ["ca.pem", "client.pem", "client-key.pem"]) {
+      fs.writeFileSync(join(root, file), "");
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const service = (tls: object, clusters = [cluster("payments")]) =>
+    ({
+      path: "services/payments",
+      clusters,
+      routes: [],
+      manifest: { name: "payments", tls },
+    } as ServiceConfg);
+
+  it("should add a transport socket and secrets for the certificate files", () => {
+    const { service: result, diagnostics } = UpstreamTls.apply(
+      service({
+        sni: "payments.internal",
+        ca_file: join(root, "ca.pem"),
+        cert_file: join(root, "client.pem"),
+        key_file: join(root, "client-key.pem"),
+      })
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(result.clusters[0].transport_socket).toEqual({
+      name: "envoy.transport_sockets.tls",
+      typed_config: {
+        "@type": UpstreamTls.UPSTREAM_TLS_CONTEXT_TYPE,
+        sni: "payments.internal",
+        common_tls_context: {
+          tls_certificate_sds_secret_configs: [
+            { name: "payments-client-cert" },
+          ],
+          validation_context_sds_secret_config: { name: "payments-ca" },
+        },
+      },
+    });
+    expect(result.secrets).toEqual([
+      {
+        name: "payments-client-cert",
+        tls_certificate: {
+          certificate_chain: { filename: join(root, "client.pem") },
+          private_key: { filename: join(root, "client-key.pem") },
+        },
+      },
+      {
+        name: "payments-ca",
+        validation_context: {
+          trusted_ca: { filename: join(root, "ca.pem") },
+        },
+      },
+    ]);
+  });
+
+  it("should report missing files and keep existing transport sockets", () => {
+    const own = {
+      ...cluster("own"),
+      transport_socket: { name: "custom", typed_config: { "@type": "x" } },
+    };
+    const { service: result, diagnostics } = UpstreamTls.apply(
+      service({ ca_file: join(root, "missing.pem") }, [own])
+    );
+
+    expect(result.clusters[0]).toBe(own);
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "TLS_FILE_NOT_FOUND",
+        message: `tls ca_file '${join(root, "missing.pem")}' does not exist`,
+        path: "static_resources.secrets[payments-ca].validation_context.trusted_ca.filename",
+        service: "services/payments",
+      },
+      {
+        severity: "warning",
+        code: "TLS_TRANSPORT_SOCKET_CONFLICT",
+        message:
+          "cluster 'own' already sets a transport_socket, so the service's tls settings were not applied to it",
+        path: "static_resources.clusters[own].transport_socket",
+        service: "services/payments",
+      },
+    ]);
+  });
+
+  it("should reject secrets defined differently by two services", () => {
+    const other = {
+      ...service({ ca_file: join(root, "client.pem") }),
+      path: "services/billing",
+      clusters: [cluster("billing")],
+    };
+    const compiler = new Compiler(base(), [
+      service({ ca_file: join(root, "ca.pem") }),
+      other,
+    ]);
+    compiler.build();
+
+    expect(compiler.validate()).toContainEqual({
+      severity: "error",
+      code: "SECRET_NAME_COLLISION",
+      message:
+        "services/billing defines secret 'payments-ca', but services/payments already defines a different secret with that name",
+      path: "static_resources.secrets[payments-ca]",
+      service: "services/billing",
+    });
+  });
+
+  it("should report references to unknown secrets", () => {
+    const compiler = new Compiler(base(), [service({ secret: "shared-cert" })]);
+    compiler.build();
+
+    expect(new ConfigValidator(compiler.getStore()!).validate()).toContainEqual(
+      {
+        severity: "error",
+        code: "UNKNOWN_SECRET",
+        message: "cluster 'payments' references unknown secret 'shared-cert'",
+        path: "static_resources.clusters[payments].transport_socket",
+      }
+    );
+  });
+
+  it("should not report secrets fetched from an SDS source", () => {
+    const secret = {
+      name: "shared-cert",
+      sds_config: { path_config_source: { path: "/etc/envoy/sds.yaml" } },
+    };
+    const compiler = new Compiler(base(), [service({ secret })]);
+    compiler.build();
+    const config = compiler.getStore()!;
+
+    expect(
+      (
+        config.static_resources.clusters[0].transport_socket!
+          .typed_config as any
+      ).common_tls_context
+    ).toEqual({ tls_certificate_sds_secret_configs: [secret] });
+    expect(
+      new ConfigValidator(config)
+        .validate()
+        .filter((d) => d.code === "UNKNOWN_SECRET")
+    ).toEqual([]);
+  });
+
+  it("should resolve manifest tls paths against the service folder", () => {
+    fs.mkdirSync(join(root, "svc", "envoy"), { recursive: true });
+    fs.writeFileSync(
+      join(root, "svc", "envoy", "service.yaml"),
+      "name: svc\ntls:\n  ca_file: ../ca.pem\n  sni: svc.internal\n"
+    );
+    fs.mkdirSync(join(root, "svc", "envoy", "clusters"));
+    fs.writeFileSync(
+      join(root, "svc", "envoy", "clusters", "svc.yaml"),
+      JSON.stringify({ clusters: [cluster("svc")] })
+    );
+
+    const [discovered] = new ConfigDiscover(
+      [join(root, "svc")],
+      "base.yaml"
+    ).collect();
+
+    expect(discovered.manifest?.tls).toEqual({
+      ca_file: join(root, "ca.pem"),
+      sni: "svc.internal",
+    });
+  });
+
+  it("should reject a client certificate without its key", () => {
+    fs.mkdirSync(join(root, "svc", "envoy"), { recursive: true });
+    fs.writeFileSync(
+      join(root, "svc", "envoy", "service.yaml"),
+      "name: svc\ntls:\n  cert_file: client.pem\n"
+    );
+
+    expect(() =>
+      new ConfigDiscover([join(root, "svc")], "base.yaml").collect()
+    ).toThrow(/invalid service manifest at .*service\.yaml/);
+  });
+
+  it("should reject an SDS secret without a config source", () => {
+    fs.mkdirSync(join(root, "svc", "envoy"), { recursive: true });
+    fs.writeFileSync(
+      join(root, "svc", "envoy", "service.yaml"),
+      "name: svc\ntls:\n  secret:\n    name: shared-cert\n"
+    );
+
+    expect(() =>
+      new ConfigDiscover([join(root, "svc")], "base.yaml").collect()
+    ).toThrow(/'tls.secret' must be a secret name or a mapping/);
+  });
+});
@@ -0,0 +1,268 @@
+/* eslint-disable */
+import { ConfigValidator } from "../src/config-compiler/validator";
+import { EnvoyConfig, Route, Cluster } from "../src/config-types";
+
+const configWith = (routes: Route[], clusters: Cluster[]): EnvoyConfig => ({
+  static_resources: {
+    listeners: [
+      {
+        name: "listener_1",
+        address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+        filter_chains: [
+          {
+            filters: [
+              {
+                name: "envoy.filters.network.http_connection_manager",
+                typed_config: {
+                  "@type":
+                    "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+                  route_config: {
+                    name: "local_route",
+                    virtual_hosts: [{ name: "vh1", domains: ["*"], routes }],
+                  },
+                  http_filters: [
+                    {
+                      name: "envoy.filters.http.ext_authz",
+                      typed_config: {
+                        "@type": "ext_authz",
+                        http_service: {
+                          server_uri: {
+                            uri: "auth:9000",
+                            cluster: "auth_cluster",
+                            timeout: "1s",
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    clusters,
+  },
+});
+
+describe("ConfigValidator", () => {
+  it("should accept a configuration with consistent references", () => {
+    const config = configWith(
+      [{ match: { prefix: "/" }, route: { cluster: "users" } }],
+      [
+        {
+          name: "users",
+          type: "STRICT_DNS",
+          load_assignment: { cluster_name: "users", endpoints: [] },
+        },
+        { name: "auth_cluster", type: "STRICT_DNS" },
+      ]
+    );
+
+    expect(new ConfigValidator(config).validate()).toEqual([]);
+  });
+
+  it("should report dangling cluster references", () => {
+    const config = configWith(
+      [
+        { match: { prefix: "/a" }, route: { cluster: "userz" } },
+        {
+          match: { prefix: "/b" },
+          route: {
+            weighted_clusters: {
+              clusters: [
+                { name: "users", weight: 50 },
+                { name: "users_v2", weight: 50 },
+              ],
+            },
+          },
+        },
+      ],
+      [
+        { name: "users", type: "STRICT_DNS" },
+        { name: "auth_cluster", type: "STRICT_DNS" },
+      ]
+    );
+
+    const diagnostics = new ConfigValidator(config).validate();
+
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "DANGLING_CLUSTER_REFERENCE",
+        message: "route references unknown cluster 'userz'",
+        path: "static_resources.listeners[listener_1].virtual_hosts[vh1].routes[0].route.cluster",
+      },
+      {
+        severity: "error",
+        code: "DANGLING_CLUSTER_REFERENCE",
+        message: "weighted cluster references unknown cluster 'users_v2'",
+        path: "static_resources.listeners[listener_1].virtual_hosts[vh1].routes[1].route.weighted_clusters.clusters[1].name",
+      },
+    ]);
+  });
+
+  it("should report orphaned clusters as warnings", () => {
+    const config = configWith(
+      [],
+      [
+        { name: "unused", type: "STRICT_DNS" },
+        { name: "auth_cluster", type: "STRICT_DNS" },
+      ]
+    );
+
+    const diagnostics = new ConfigValidator(config).validate();
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      severity: "warning",
+      code: "ORPHANED_CLUSTER",
+      path: "static_resources.clusters[unused]",
+    });
+  });
+
+  it("should report load assignment name mismatches", () => {
+    const config = configWith(
+      [{ match: { prefix: "/" }, route: { cluster: "users" } }],
+      [
+        {
+          name: "users",
+          type: "STRICT_DNS",
+          load_assignment: { cluster_name: "user", endpoints: [] },
+        },
+        { name: "auth_cluster", type: "STRICT_DNS" },
+      ]
+    );
+
+    expect(new ConfigValidator(config).validate()).toEqual([
+      expect.objectContaining({ code: "LOAD_ASSIGNMENT_NAME_MISMATCH" }),
+    ]);
+  });
+
+  it("should report weighted cluster totals that don't match total_weight", () => {
+    const config = configWith(
+      [
+        {
+          match: { prefix: "/" },
+          route: {
+            weighted_clusters: {
+              total_weight: 100,
+              clusters: [
+                { name: "users", weight: 80 },
+                { name: "auth_cluster", weight: 10 },
+              ],
+            },
+          },
+        },
+      ],
+      [
+        { name: "users", type: "STRICT_DNS" },
+        { name: "auth_cluster", type: "STRICT_DNS" },
+      ]
+    );
+
+    expect(new ConfigValidator(config).validate()).toEqual([
+      expect.objectContaining({
+        code: "WEIGHTED_CLUSTER_TOTAL_MISMATCH",
+        message:
+          "weighted cluster weights add up to 90, expected total_weight 100",
+      }),
+    ]);
+  });
+});
+
+describe("ConfigValidator structure", () => {
+  it("should accept a well-formed configuration", () => {
+    const config = configWith(
+      [{ match: { prefix: "/" }, route: { cluster: "users" } }],
+      [
+        {
+          name: "users",
+          type: "STRICT_DNS",
+          load_assignment: {
+            cluster_name: "users",
+            endpoints: [
+              {
+                lb_endpoints: [
+                  {
+                    endpoint: {
+                      address: {
+                        socket_address: { address: "users", port_value: 80 },
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+          health_checks: [{ timeout: "1s", interval: "5s" }],
+        },
+      ]
+    );
+
+    expect(new ConfigValidator(config).validateStructure()).toEqual([]);
+  });
+
+  it("should report a missing static_resources section", () => {
+    expect(new ConfigValidator({} as EnvoyConfig).validateStructure()).toEqual([
+      {
+        severity: "error",
+        code: "MISSING_FIELD",
+        message: "required field 'static_resources' is missing",
+        path: "static_resources",
+      },
+    ]);
+  });
+
+  it("should report invalid routes and clusters with their paths", () => {
+    const config = configWith(
+      [
+        { match: { prefix: "/", path: "/x" }, route: { cluster: "users" } },
+        { match: { prefix: "/y" } } as Route,
+      ],
+      [
+        { name: "users" } as Cluster,
+        {
+          name: "auth_cluster",
+          type: "STATIC",
+          health_checks: [{ interval: "5s" } as any],
+        },
+      ]
+    );
+
+    const diagnostics = new ConfigValidator(config).validateStructure();
+    const routes =
+      "static_resources.listeners[0].filter_chains[0].filters[0].typed_config.route_config.virtual_hosts[0].routes";
+
+    expect(diagnostics.map((d) => [d.code, d.path])).toEqual([
+      ["CONFLICTING_FIELDS", `${routes}[0].match`],
+      ["MISSING_FIELD", `${routes}[1]`],
+      [
+        "MISSING_FIELD",
+        "static_resources.clusters[1].health_checks[0].timeout",
+      ],
+    ]);
+  });
+
+  it("should accept the other path matchers, cluster specifiers and route actions", () => {
+    const config = configWith(
+      [
+        {
+          match: { path_separated_prefix: "/users" },
+          route: { cluster: "users" },
+        },
+        {
+          match: { connect_matcher: {} },
+          route: { cluster_specifier_plugin: "picker" },
+        },
+        { match: { prefix: "/filter" }, filter_action: {} },
+        { match: { prefix: "/local" }, non_forwarding_action: {} },
+      ] as any,
+      [{ name: "users" } as Cluster]
+    );
+    delete (config.static_resources.listeners[0] as any).address;
+
+    expect(new ConfigValidator(config).validateStructure()).toEqual([]);
+  });
+});
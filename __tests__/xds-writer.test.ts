@@ -0,0 +1,166 @@
+/* eslint-disable */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import * as yaml from "js-yaml";
+import { XdsWriter } from "../src/config-compiler/xds-writer";
+import { EnvoyConfig } from "../src/config-types";
+
+jest.spyOn(console, "log").mockImplementation();
+
+const compiledConfig = (): EnvoyConfig =>
+  ({
+    admin: {
+      address: { socket_address: { address: "0.0.0.0", port_value: 9901 } },
+    },
+    static_resources: {
+      listeners: [
+        {
+          name: "main",
+          address: { socket_address: { address: "0.0.0.0", port_value: 8080 } },
+          filter_chains: [
+            {
+              filters: [
+                {
+                  name: "envoy.filters.network.http_connection_manager",
+                  typed_config: {
+                    "@type":
+                      "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager",
+                    route_config: {
+                      name: "local_route",
+                      virtual_hosts: [
+                        { name: "vh", domains: ["*"], routes: [] },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      clusters: [{ name: "users", type: "STRICT_DNS" }],
+    },
+  } as EnvoyConfig);
+
+describe("XdsWriter", () => {
+  it("should split the configuration into a bootstrap and typed resources", () => {
+    const files = new XdsWriter(compiledConfig(), {
+      bootstrapPath: "out/envoy.yaml",
+      xdsPath: "/etc/envoy",
+    }).getFiles();
+
+    expect(files.map((f) => f.path)).toEqual([
+      "out/cds.yaml",
+      "out/lds.yaml",
+      "out/envoy.yaml",
+    ]);
+    expect(files[0].content).toEqual({
+      resources: [
+        {
+          "@type": "type.googleapis.com/envoy.config.cluster.v3.Cluster",
+          name: "users",
+          type: "STRICT_DNS",
+        },
+      ],
+    });
+    expect((files[1].content as any).resources[0]["@type"]).toBe(
+      "type.googleapis.com/envoy.config.listener.v3.Listener"
+    );
+    expect(files[2].content).toEqual({
+      admin: compiledConfig()["admin" as keyof EnvoyConfig],
+      node: { id: "envoy", cluster: "envoy" },
+      dynamic_resources: {
+        cds_config: {
+          resource_api_version: "V3",
+          path_config_source: { path: "/etc/envoy/cds.yaml" },
+        },
+        lds_config: {
+          resource_api_version: "V3",
+          path_config_source: { path: "/etc/envoy/lds.yaml" },
+        },
+      },
+    });
+  });
+
+  it("should move inline route configurations to RDS", () => {
+    const config = compiledConfig();
+    const files = new XdsWriter(config, {
+      bootstrapPath: "out/envoy.yaml",
+      rds: true,
+      xdsPath: "/etc/envoy",
+    }).getFiles();
+
+    expect(files.map((f) => f.path)).toEqual([
+      "out/cds.yaml",
+      "out/rds.yaml",
+      "out/lds.yaml",
+      "out/envoy.yaml",
+    ]);
+    expect((files[1].content as any).resources).toEqual([
+      {
+        "@type": "type.googleapis.com/envoy.config.route.v3.RouteConfiguration",
+        name: "local_route",
+        virtual_hosts: [{ name: "vh", domains: ["*"], routes: [] }],
+      },
+    ]);
+    const manager = (files[2].content as any).resources[0].filter_chains![0]
+      .filters[0].typed_config;
+    expect(manager.route_config).toBeUndefined();
+    expect(manager.rds).toEqual({
+      route_config_name: "local_route",
+      config_source: {
+        resource_api_version: "V3",
+        path_config_source: { path: "/etc/envoy/rds.yaml" },
+      },
+    });
+    // The compiled configuration is left untouched
+    expect(
+      (
+        config.static_resources.listeners[0].filter_chains![0].filters[0]
+          .typed_config as any
+      ).route_config
+    ).toBeDefined();
+  });
+
+  it("should write every file without leaving temporary files behind", () => {
+    const dir = fs.mkdtempSync(join(os.tmpdir(), "envoy-xds-"));
+    try {
+      new XdsWriter(compiledConfig(), {
+        bootstrapPath: join(dir, "envoy.yaml"),
+      }).write();
+
+      expect(fs.readdirSync(dir).sort()).toEqual([
+        "cds.yaml",
+        "envoy.yaml",
+        "lds.yaml",
+      ]);
+      const bootstrap = yaml.load(
+        fs.readFileSync(join(dir, "envoy.yaml"), "utf8")
+      ) as any;
+      expect(
+        bootstrap.dynamic_resources.cds_config.path_config_source.path
+      ).toBe(join(dir, "cds.yaml"));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should read the written files back into the compiled resources", () => {
+    const dir = fs.mkdtempSync(join(os.tmpdir(), "envoy-xds-"));
+    const options = { bootstrapPath: join(dir, "envoy.yaml"), rds: true };
+    try {
+      expect(XdsWriter.read(options)).toBeNull();
+
+      new XdsWriter(compiledConfig(), options).write();
+      const config = XdsWriter.read(options)!;
+
+      expect(config.static_resources).toEqual(
+        compiledConfig().static_resources
+      );
+      expect(config.dynamic_resources).toBeDefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
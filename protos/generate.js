@@ -0,0 +1,30 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const protos = dirname(fileURLToPath(import.meta.url));
+const output = join(protos, "..", "src", "envoy-api");
+
+// the descriptors the schema validator checks configurations against
+const descriptors = execFileSync(
+  "buf",
+  ["build", "--exclude-source-info", "-o", "-"],
+  {
+    cwd: protos,
+    maxBuffer: 64 * 1024 * 1024,
+    stdio: ["ignore", "pipe", "inherit"],
+  }
+);
+
+mkdirSync(output, { recursive: true });
+writeFileSync(
+  join(output, "descriptors.ts"),
+  [
+    "// Code generated by protos/generate.js. DO NOT EDIT.",
+    "",
+    "/** The vendored Envoy API, as a base64 encoded `google.protobuf.FileDescriptorSet`. */",
+    `export const ENVOY_API_DESCRIPTORS = "${descriptors.toString("base64")}";`,
+    "",
+  ].join("\n")
+);
@@ -0,0 +1,139 @@
+import { EnvoyConfig, RuntimeLayer, TagSpecifier } from "../config-types";
+import { ObjectTools } from "../utils";
+
+/**
+ * A service contribution to a bootstrap section that differs from a value
+ * already in the configuration.
+ * @property {"runtime" | "stats_tag"} kind - Whether a runtime key or a stats tag conflicts.
+ * @property {string} key - The runtime key or the tag name.
+ * @property {unknown} existing - The value already in the configuration, which is kept.
+ * @property {unknown} incoming - The contributed value.
+ * @property {string} path - Location of the conflicting value in the configuration.
+ */
+export type BootstrapConflict = {
+  kind: "runtime" | "stats_tag";
+  key: string;
+  path: string;
+  existing: unknown;
+  incoming: unknown;
+};
+
+/**
+ * The BootstrapMerge class merges service contributions into the bootstrap
+ * sections outside `static_resources`: runtime keys go into the static
+ * runtime layer and stats tags into `stats_config.stats_tags`. Values
+ * already in the configuration are never overwritten; differing
+ * contributions are returned as conflicts instead.
+ *
+ * @export
+ * @class BootstrapMerge
+ */
+export class BootstrapMerge {
+  /**
+   * Name of the static runtime layer created when the configuration has none.
+   * @static
+   * @type {string}
+   */
+  public static readonly STATIC_LAYER_NAME = "static_layer";
+
+  /**
+   * Returns the first static layer of the layered runtime, adding one in
+   * front of the other layers if there is none, so that disk, admin and
+   * RTDS layers still override it.
+   *
+   * @static
+   * @param {EnvoyConfig} config - The configuration.
+   * @returns {Record<string, unknown>} The static layer values.
+   */
+  public static staticLayer(config: EnvoyConfig): Record<string, unknown> {
+    const layer = BootstrapMerge.findStaticLayer(config);
+    return (layer.static_layer ??= {});
+  }
+
+  /**
+   * Returns the first static layer of the layered runtime, adding it if
+   * there is none, as described for `staticLayer`.
+   *
+   * @private
+   * @static
+   * @param {EnvoyConfig} config - The configuration.
+   * @returns {RuntimeLayer} The static layer.
+   */
+  private static findStaticLayer(config: EnvoyConfig): RuntimeLayer {
+    const runtime = (config.layered_runtime ??= { layers: [] });
+    runtime.layers ??= [];
+    let layer = runtime.layers.find((l) => l.static_layer !== undefined);
+    if (!layer) {
+      layer = { name: BootstrapMerge.STATIC_LAYER_NAME, static_layer: {} };
+      runtime.layers.unshift(layer);
+    }
+    return layer;
+  }
+
+  /**
+   * Adds runtime keys to the static runtime layer.
+   *
+   * @static
+   * @param {EnvoyConfig} config - The configuration to add the keys to.
+   * @param {Record<string, unknown>} runtime - The runtime keys and their values.
+   * @returns {BootstrapConflict[]} The keys already set to another value.
+   */
+  public static mergeRuntime(
+    config: EnvoyConfig,
+    runtime: Record<string, unknown>
+  ): BootstrapConflict[] {
+    const entries = Object.entries(runtime);
+    if (entries.length === 0) return [];
+    const layer = BootstrapMerge.findStaticLayer(config);
+    const values = (layer.static_layer ??= {});
+    const conflicts: BootstrapConflict[] = [];
+    for (const [key, value] of entries) {
+      if (!Object.prototype.hasOwnProperty.call(values, key)) {
+        values[key] = value;
+      } else if (!ObjectTools.deepEqual(values[key], value)) {
+        conflicts.push({
+          kind: "runtime",
+          key,
+          path: `layered_runtime.layers[${layer.name}].static_layer.${key}`,
+          existing: values[key],
+          incoming: value,
+        });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Adds stats tags to `stats_config.stats_tags`, skipping tags already
+   * there with the same definition.
+   *
+   * @static
+   * @param {EnvoyConfig} config - The configuration to add the tags to.
+   * @param {TagSpecifier[]} tags - The stats tags.
+   * @returns {BootstrapConflict[]} The tag names already defined differently.
+   */
+  public static mergeStatsTags(
+    config: EnvoyConfig,
+    tags: TagSpecifier[]
+  ): BootstrapConflict[] {
+    if (tags.length === 0) return [];
+    const statsConfig = (config.stats_config ??= {});
+    const existingTags = (statsConfig.stats_tags ??= []);
+    const conflicts: BootstrapConflict[] = [];
+    for (const tag of tags) {
+      const existing = existingTags.find((t) => t.tag_name === tag.tag_name);
+      if (!existing) {
+        existingTags.push(tag);
+      } else if (!ObjectTools.deepEqual(existing, tag)) {
+        conflicts.push({
+          kind: "stats_tag",
+          key: tag.tag_name,
+          path: `stats_config.stats_tags[${tag.tag_name}]`,
+          existing,
+          incoming: tag,
+        });
+      }
+    }
+    return conflicts;
+  }
+}
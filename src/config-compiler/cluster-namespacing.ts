@@ -0,0 +1,276 @@
+import {
+  Cluster,
+  HTTPFilter,
+  HttpConnectionManagerTypedConfig,
+  Listener,
+  Route,
+  ServiceConfg,
+  TcpProxyTypedConfig,
+} from "../config-types";
+import { EnvoyTools, ObjectTools } from "../utils";
+
+/**
+ * The ClusterNamespacing class prefixes the names of a service's clusters
+ * with the namespace from its manifest, so that services owned by different
+ * teams can't overwrite each other's clusters, and rewrites the service's
+ * references to them. References to clusters the service doesn't define
+ * (shared clusters from the base configuration or other services) are left
+ * untouched.
+ *
+ * @export
+ * @class ClusterNamespacing
+ */
+export class ClusterNamespacing {
+  /**
+   * Returns the namespaced name of a cluster.
+   *
+   * @static
+   * @param {string} namespace - The namespace of the service.
+   * @param {string} name - The name of the cluster.
+   * @returns {string} The name prefixed with `<namespace>.`, unless it already is.
+   */
+  public static qualify(namespace: string, name: string): string {
+    return name.startsWith(`${namespace}.`) ? name : `${namespace}.${name}`;
+  }
+
+  /**
+   * The keys that hold a cluster name in HTTP filter configs, such as
+   * `http_uri.cluster` and `grpc_service.envoy_grpc.cluster_name`.
+   * @private
+   * @static
+   * @type {string[]}
+   */
+  private static readonly FILTER_CLUSTER_KEYS = ["cluster", "cluster_name"];
+
+  /**
+   * Returns a copy of a service with its clusters namespaced and the
+   * references of its routes, HTTP filters and listeners rewritten. Services without a namespace in their manifest are
+   * returned unchanged.
+   *
+   * @static
+   * @param {ServiceConfg} service - The service to namespace.
+   * @returns {ServiceConfg} The namespaced service.
+   */
+  public static apply(service: ServiceConfg): ServiceConfg {
+    const namespace = service.manifest?.namespace;
+    if (!namespace) return service;
+
+    const own = new Set(service.clusters.map((c) => c.name));
+    const namespaced: ServiceConfg = {
+      ...service,
+      clusters: service.clusters.map((c) =>
+        ClusterNamespacing.renameCluster(
+          c,
+          ClusterNamespacing.qualify(namespace, c.name)
+        )
+      ),
+      routes: service.routes.map((r) =>
+        ClusterNamespacing.rewriteRoute(r, own, namespace)
+      ),
+    };
+    if (service.httpFilters)
+      namespaced.httpFilters = service.httpFilters.map((f) =>
+        ClusterNamespacing.rewriteHttpFilter(f, own, namespace)
+      );
+    if (service.listeners)
+      namespaced.listeners = service.listeners.map((l) =>
+        ClusterNamespacing.rewriteListener(l, own, namespace)
+      );
+    return namespaced;
+  }
+
+  /**
+   * Returns a copy of a cluster with a new name, also updating its load
+   * assignment if it named the cluster.
+   *
+   * @private
+   * @static
+   * @param {Cluster} cluster - The cluster to rename.
+   * @param {string} name - The new name.
+   * @returns {Cluster} The renamed cluster.
+   */
+  private static renameCluster(cluster: Cluster, name: string): Cluster {
+    const renamed: Cluster = { ...cluster, name };
+    if (cluster.load_assignment?.cluster_name === cluster.name) {
+      renamed.load_assignment = {
+        ...cluster.load_assignment,
+        cluster_name: name,
+      };
+    }
+    return renamed;
+  }
+
+  /**
+   * Returns a copy of a route with its references to the service's own
+   * clusters namespaced.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route to rewrite.
+   * @param {Set<string>} own - The names of the clusters the service defines.
+   * @param {string} namespace - The namespace of the service.
+   * @returns {Route} The rewritten route.
+   */
+  private static rewriteRoute(
+    route: Route,
+    own: Set<string>,
+    namespace: string
+  ): Route {
+    const action = route.route;
+    if (!action) return route;
+
+    const rewritten = { ...action };
+    if (typeof action.cluster === "string")
+      rewritten.cluster = ClusterNamespacing.rename(
+        action.cluster,
+        own,
+        namespace
+      );
+    if (Array.isArray(action.weighted_clusters?.clusters)) {
+      rewritten.weighted_clusters = {
+        ...action.weighted_clusters!,
+        clusters: action.weighted_clusters!.clusters.map((c) => ({
+          ...c,
+          name: ClusterNamespacing.rename(c.name, own, namespace),
+        })),
+      };
+    }
+    return { ...route, route: rewritten };
+  }
+
+  /**
+   * Returns a copy of an HTTP filter with the references of its config to
+   * the service's own clusters namespaced, wherever they are nested.
+   *
+   * @private
+   * @static
+   * @param {HTTPFilter} filter - The filter to rewrite.
+   * @param {Set<string>} own - The names of the clusters the service defines.
+   * @param {string} namespace - The namespace of the service.
+   * @returns {HTTPFilter} The rewritten filter.
+   */
+  private static rewriteHttpFilter(
+    filter: HTTPFilter,
+    own: Set<string>,
+    namespace: string
+  ): HTTPFilter {
+    if (!filter.typed_config) return filter;
+    return {
+      ...filter,
+      typed_config: ClusterNamespacing.rewriteFilterConfig(
+        filter.typed_config,
+        own,
+        namespace
+      ) as HTTPFilter["typed_config"],
+    };
+  }
+
+  /**
+   * Returns a copy of a filter config with every `FILTER_CLUSTER_KEYS` value
+   * that names one of the service's own clusters namespaced.
+   *
+   * @private
+   * @static
+   * @param {unknown} value - The config, or a value nested in it.
+   * @param {Set<string>} own - The names of the clusters the service defines.
+   * @param {string} namespace - The namespace of the service.
+   * @returns {unknown} The rewritten value.
+   */
+  private static rewriteFilterConfig(
+    value: unknown,
+    own: Set<string>,
+    namespace: string
+  ): unknown {
+    if (Array.isArray(value))
+      return value.map((v) =>
+        ClusterNamespacing.rewriteFilterConfig(v, own, namespace)
+      );
+    if (!ObjectTools.isPlainObject(value)) return value;
+    const rewritten: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      rewritten[key] =
+        ClusterNamespacing.FILTER_CLUSTER_KEYS.includes(key) &&
+        typeof v === "string"
+          ? ClusterNamespacing.rename(v, own, namespace)
+          : ClusterNamespacing.rewriteFilterConfig(v, own, namespace);
+    }
+    return rewritten;
+  }
+
+  /**
+   * Returns a copy of a listener with the references of its TCP proxies and
+   * of the HTTP filters of its HTTP connection managers to the service's own
+   * clusters namespaced.
+   *
+   * @private
+   * @static
+   * @param {Listener} listener - The listener to rewrite.
+   * @param {Set<string>} own - The names of the clusters the service defines.
+   * @param {string} namespace - The namespace of the service.
+   * @returns {Listener} The rewritten listener.
+   */
+  private static rewriteListener(
+    listener: Listener,
+    own: Set<string>,
+    namespace: string
+  ): Listener {
+    return {
+      ...listener,
+      filter_chains: (listener.filter_chains ?? []).map((chain) => ({
+        ...chain,
+        filters: (chain.filters ?? []).map((filter) => {
+          if (EnvoyTools.isHttpConnectionManager(filter)) {
+            const manager =
+              filter.typed_config as HttpConnectionManagerTypedConfig;
+            if (!Array.isArray(manager?.http_filters)) return filter;
+            return {
+              ...filter,
+              typed_config: {
+                ...manager,
+                http_filters: manager.http_filters.map((f) =>
+                  ClusterNamespacing.rewriteHttpFilter(f, own, namespace)
+                ),
+              },
+            };
+          }
+          if (!EnvoyTools.isTcpProxy(filter) || !filter.typed_config)
+            return filter;
+          const proxy = { ...filter.typed_config } as TcpProxyTypedConfig;
+          if (typeof proxy.cluster === "string")
+            proxy.cluster = ClusterNamespacing.rename(
+              proxy.cluster,
+              own,
+              namespace
+            );
+          if (Array.isArray(proxy.weighted_clusters?.clusters))
+            proxy.weighted_clusters = {
+              ...proxy.weighted_clusters!,
+              clusters: proxy.weighted_clusters!.clusters.map((c) => ({
+                ...c,
+                name: ClusterNamespacing.rename(c.name, own, namespace),
+              })),
+            };
+          return { ...filter, typed_config: proxy };
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Namespaces a cluster reference if it refers to one of the service's own clusters.
+   *
+   * @private
+   * @static
+   * @param {string} name - The referenced cluster name.
+   * @param {Set<string>} own - The names of the clusters the service defines.
+   * @param {string} namespace - The namespace of the service.
+   * @returns {string} The reference to use.
+   */
+  private static rename(
+    name: string,
+    own: Set<string>,
+    namespace: string
+  ): string {
+    return own.has(name) ? ClusterNamespacing.qualify(namespace, name) : name;
+  }
+}
@@ -1,8 +1,87 @@
-import { EnvoyConfig, Route, ServiceConfg } from "../config-types";
+import {
+  Cluster,
+  EnvoyConfig,
+  HttpConnectionManagerTypedConfig,
+  Listener,
+  Route,
+  RouteSource,
+  ServiceConfg,
+  VirtualHost,
+} from "../config-types";
+import {
+  EnvoyTools,
+  ObjectTools,
+  PluginError,
+  PluginErrorSource,
+} from "../utils";
+import {
+  ConflictPolicy,
+  RouteConflict,
+  RouteConflicts,
+  RouteOrigin,
+} from "./route-conflicts";
+import { RouteOrdering, RouteOrderingMode } from "./route-ordering";
+import { Diagnostic } from "./diagnostics";
+import { ConfigValidator } from "./validator";
+import { ENVOY_API_MESSAGES, SchemaValidator } from "./schema-validator";
+import { ClusterNamespacing } from "./cluster-namespacing";
+import { ServiceMount } from "./service-mount";
+import { HttpFilters } from "./http-filters";
+import { BootstrapConflict, BootstrapMerge } from "./bootstrap-merge";
+import { UpstreamTls } from "./upstream-tls";
+import {
+  ClusterOrigin,
+  Provenance,
+  ProvenanceManifest,
+  ProvenanceTrace,
+} from "./provenance";
+
+/**
+ * Options controlling how the compiler merges service configurations.
+ * @property {ConflictPolicy} [conflictPolicy] - How conflicting route matches are resolved. Defaults to `warn`.
+ * @property {string} [baseFile] - Path of the base configuration, used when reporting conflicts with base routes.
+ * @property {RouteOrderingMode} [routeOrdering] - How the routes of each virtual host are ordered. Defaults to `discovery`.
+ * @property {boolean} [namespaceClusters] - Prefix the clusters of services whose manifest sets a `namespace` with it.
+ * @property {boolean} [provenanceMetadata] - Write the service and file every route and cluster came from to its `metadata.filter_metadata`.
+ */
+export type CompilerOptions = {
+  conflictPolicy?: ConflictPolicy;
+  baseFile?: string;
+  routeOrdering?: RouteOrderingMode;
+  namespaceClusters?: boolean;
+  provenanceMetadata?: boolean;
+};
+
+/**
+ * Counts of what the compiler merged from the services.
+ * @property {number} services - The services merged.
+ * @property {number} routes - The service routes in the compiled configuration: routes dropped by the conflict policy, or because there is no virtual host to attach them to, are not counted.
+ * @property {number} clusters - The service clusters added or replacing a cluster of the same name.
+ */
+export type BuildStats = {
+  services: number;
+  routes: number;
+  clusters: number;
+};
+
+/**
+ * Identifies the listener (by name) and virtual host (by name or domain) routes are attached to.
+ */
+export type RouteTarget = Pick<RouteSource, "listener" | "virtual_host">;
+
+/**
+ * An HTTP connection manager with the listener it belongs to.
+ * @property {Listener} listener - The listener.
+ * @property {HttpConnectionManagerTypedConfig} manager - The HTTP connection manager configuration.
+ */
+type ListenerManager = {
+  listener: Listener;
+  manager: HttpConnectionManagerTypedConfig;
+};
 
 /**
  * The Compiler class is responsible for merging service configurations into a
- * base Envoy configuration. It handles the addition and merging of clusters and routes.
+ * base Envoy configuration. It handles the addition and merging of listeners, clusters and routes.
  *
  * @export
  * @class Compiler
@@ -22,55 +101,501 @@ export class Compiler {
    */
   private store: EnvoyConfig | null = null;
 
+  /**
+   * Options controlling the merge behaviour.
+   * @private
+   * @type {CompilerOptions}
+   */
+  private options: CompilerOptions;
+
+  /**
+   * Origin of every route merged from a service, keyed by the route object in the store.
+   * Routes without an entry belong to the base configuration.
+   * @private
+   * @type {Map<Route, RouteOrigin>}
+   */
+  private routeOrigins: Map<Route, RouteOrigin> = new Map();
+
+  /**
+   * Explicit priority of merged routes that declare one, used for specificity ordering.
+   * @private
+   * @type {Map<Route, number>}
+   */
+  private routePriorities: Map<Route, number> = new Map();
+
+  /**
+   * Origin of every cluster merged from a service, keyed by cluster name.
+   * Clusters without an entry belong to the base configuration.
+   * @private
+   * @type {Map<string, ClusterOrigin>}
+   */
+  private clusterOrigins: Map<string, ClusterOrigin> = new Map();
+
+  /**
+   * Origin of every listener merged from a service, keyed by listener name.
+   * The routes inside a service listener belong to that service.
+   * @private
+   * @type {Map<string, RouteOrigin>}
+   */
+  private listenerOrigins: Map<string, RouteOrigin> = new Map();
+
+  /**
+   * The service that contributed each runtime key and stats tag, keyed by
+   * `runtime:<key>` or `stats_tag:<name>`. Entries without one belong to the
+   * base configuration.
+   * @private
+   * @type {Map<string, string>}
+   */
+  private bootstrapOrigins: Map<string, string> = new Map();
+
+  /**
+   * The service that contributed each secret, keyed by secret name. Secrets
+   * without an entry belong to the base configuration.
+   * @private
+   * @type {Map<string, string>}
+   */
+  private secretOrigins: Map<string, string> = new Map();
+
+  /**
+   * Route conflicts detected while merging.
+   * @private
+   * @type {RouteConflict[]}
+   */
+  private conflicts: RouteConflict[] = [];
+
+  /**
+   * Problems found while preparing and merging the services, reported by `validate()`.
+   * @private
+   * @type {Diagnostic[]}
+   */
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Counts of what was merged by `build()`.
+   * @private
+   * @type {BuildStats}
+   */
+  private stats: BuildStats = { services: 0, routes: 0, clusters: 0 };
+
   /**
    * Creates an instance of Compiler.
    * @param {EnvoyConfig} configBase - The base Envoy configuration to start with.
    * @param {ServiceConfg[]} serviceConfigs - An array of service-specific configurations to be merged.
+   * @param {CompilerOptions} [options={}] - Options controlling the merge behaviour.
    */
-  constructor(configBase: EnvoyConfig, serviceConfigs: ServiceConfg[]) {
+  constructor(
+    configBase: EnvoyConfig,
+    serviceConfigs: ServiceConfg[],
+    options: CompilerOptions = {}
+  ) {
     console.log("Initializing compiler");
     this.store = configBase;
-    this.serviceConfigs = serviceConfigs;
+    this.options = options;
+    this.serviceConfigs = serviceConfigs.map((s) => this.prepareService(s));
   }
 
   /**
-   * Adds new routes to the existing route array of the first virtual host.
-   * This method returns a new EnvoyConfig object to ensure immutability.
+   * Applies the service-level settings of a service's manifest: cluster
+   * namespacing (if enabled), upstream TLS and the mount path. Services
+   * without such settings are returned unchanged.
    *
    * @private
-   * @param {Route[]} routesToAdd - An array of new routes to add.
+   * @param {ServiceConfg} service - The service to prepare.
+   * @returns {ServiceConfg} The prepared service.
+   */
+  private prepareService(service: ServiceConfg): ServiceConfg {
+    let prepared = service;
+    if (this.options.namespaceClusters)
+      prepared = ClusterNamespacing.apply(prepared);
+    const secured = UpstreamTls.apply(prepared);
+    this.diagnostics.push(...secured.diagnostics);
+    const mounted = ServiceMount.apply(secured.service);
+    this.diagnostics.push(...mounted.diagnostics);
+    return mounted.service;
+  }
+
+  /**
+   * Locates the virtual host a set of routes is attached to. The listener is
+   * matched by name and its HTTP connection managers are located by filter name
+   * or `@type`; the virtual host is matched by name first, then by domain.
+   * Without a target, the first virtual host of the first HTTP connection manager is used.
+   *
+   * @private
+   * @param {RouteTarget} [target={}] - The listener and virtual host to locate.
+   * @param {PluginErrorSource} [requiredBy={}] - The file and service that require the target, used in errors.
+   * @returns {(VirtualHost | null)} The target virtual host, or null if no target was given and the base configuration has none.
+   * @throws {PluginError} `TARGET_NOT_FOUND` if an explicitly targeted listener or virtual host does not exist.
+   */
+  private findVirtualHost(
+    target: RouteTarget = {},
+    requiredBy: PluginErrorSource = {}
+  ): VirtualHost | null {
+    if (!this.store) return null;
+    const suffix = this.requiredBySuffix(requiredBy);
+    let listeners = this.store.static_resources.listeners ?? [];
+
+    if (target.listener) {
+      listeners = listeners.filter((l) => l.name === target.listener);
+      if (listeners.length === 0)
+        throw new PluginError(
+          "TARGET_NOT_FOUND",
+          `listener '${target.listener}' not found${suffix}`,
+          requiredBy
+        );
+    }
+
+    const virtualHosts = listeners
+      .flatMap((l) => EnvoyTools.getHttpConnectionManagers(l))
+      .flatMap((m) => EnvoyTools.getVirtualHosts(m));
+
+    if (!target.virtual_host) {
+      if (target.listener && virtualHosts.length === 0)
+        throw new PluginError(
+          "TARGET_NOT_FOUND",
+          `listener '${target.listener}' has no HttpConnectionManager with virtual hosts${suffix}`,
+          requiredBy
+        );
+      return virtualHosts[0] ?? null;
+    }
+
+    const virtualHost =
+      virtualHosts.find((v) => v.name === target.virtual_host) ??
+      virtualHosts.find((v) => v.domains?.includes(target.virtual_host!));
+    if (!virtualHost)
+      throw new PluginError(
+        "TARGET_NOT_FOUND",
+        `virtual host '${target.virtual_host}' not found${
+          target.listener ? ` on listener '${target.listener}'` : ""
+        }${suffix}`,
+        requiredBy
+      );
+    return virtualHost;
+  }
+
+  /**
+   * Locates the HTTP connection managers a service's HTTP filters are added
+   * to: every HTTP connection manager of the named listener or, without a
+   * listener, the first HTTP connection manager of the configuration.
+   *
+   * @private
+   * @param {string} [listener] - Name of the listener.
+   * @param {PluginErrorSource} [requiredBy={}] - The file and service that require the listener, used in errors.
+   * @returns {ListenerManager[]} The HTTP connection managers with their listener, empty if no listener was given and the base configuration has none.
+   * @throws {PluginError} `TARGET_NOT_FOUND` if an explicitly targeted listener does not exist or has no HTTP connection manager.
+   */
+  private findHttpConnectionManagers(
+    listener?: string,
+    requiredBy: PluginErrorSource = {}
+  ): ListenerManager[] {
+    if (!this.store) return [];
+    const suffix = this.requiredBySuffix(requiredBy);
+    const listeners = this.store.static_resources.listeners ?? [];
+    if (!listener) {
+      const first = listeners.flatMap(Compiler.managersOf)[0];
+      return first ? [first] : [];
+    }
+
+    const matching = listeners.filter((l) => l.name === listener);
+    if (matching.length === 0)
+      throw new PluginError(
+        "TARGET_NOT_FOUND",
+        `listener '${listener}' not found${suffix}`,
+        requiredBy
+      );
+    const managers = matching.flatMap(Compiler.managersOf);
+    if (managers.length === 0)
+      throw new PluginError(
+        "TARGET_NOT_FOUND",
+        `listener '${listener}' has no HttpConnectionManager${suffix}`,
+        requiredBy
+      );
+    return managers;
+  }
+
+  /**
+   * Returns the HTTP connection managers of a listener, each with the listener.
+   *
+   * @private
+   * @static
+   * @param {Listener} listener - The listener.
+   * @returns {ListenerManager[]} The HTTP connection managers, in declaration order.
+   */
+  private static managersOf(listener: Listener): ListenerManager[] {
+    return EnvoyTools.getHttpConnectionManagers(listener).map((manager) => ({
+      listener,
+      manager,
+    }));
+  }
+
+  /**
+   * Describes what requires a listener or virtual host, for error messages.
+   *
+   * @private
+   * @param {PluginErrorSource} requiredBy - The file and service that require it.
+   * @returns {string} The description, e.g. ` (required by <file>)`, or an empty string.
+   */
+  private requiredBySuffix(requiredBy: PluginErrorSource): string {
+    const label = requiredBy.file ?? requiredBy.service;
+    return label ? ` (required by ${label})` : "";
+  }
+
+  /**
+   * Inserts the HTTP filters of a service into the filter chains of their
+   * target HTTP connection managers. Filters already in a chain under the
+   * same name are skipped, with a warning if their configuration differs,
+   * and positions naming a filter that isn't in the chain are reported.
+   *
+   * @private
+   * @param {ServiceConfg} service - The service whose HTTP filters are being merged.
    * @returns {void} return void
    */
-  private addRoute(routesToAdd: Route[]): void {
-    // Null check
-    if (
-      this.store &&
-      this.store.static_resources.listeners.length > 0 &&
-      this.store.static_resources.listeners[0].filter_chains &&
-      this.store.static_resources.listeners[0].filter_chains.length > 0 &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters.length >
-        0 &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters[0]
-        .typed_config &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters[0]
-        .typed_config.route_config &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters[0]
-        .typed_config.route_config.virtual_hosts &&
-      this.store.static_resources.listeners[0].filter_chains[0].filters[0]
-        .typed_config.route_config.virtual_hosts.length > 0
-    ) {
-      this.store.static_resources.listeners[0].filter_chains[0].filters[0].typed_config.route_config.virtual_hosts[0].routes =
-        this.store.static_resources.listeners[0].filter_chains[0].filters[0].typed_config.route_config.virtual_hosts[0].routes.concat(
-          routesToAdd
+  private addHttpFilters(service: ServiceConfg): void {
+    (service.httpFilters ?? []).forEach((filter, index) => {
+      const source = service.httpFilterSources?.[index] ?? {};
+      const requiredBy = {
+        file: source.file,
+        service: this.serviceLabel(service),
+      };
+      for (const { listener, manager } of this.findHttpConnectionManagers(
+        source.listener,
+        requiredBy
+      )) {
+        const path = `static_resources.listeners[${listener.name}].http_filters[${filter.name}]`;
+        const insertion = HttpFilters.insert(
+          manager.http_filters ?? [],
+          filter,
+          { before: source.before, after: source.after }
         );
+        manager.http_filters = insertion.chain;
+        if (insertion.result === "conflict") {
+          this.diagnostics.push({
+            severity: "warning",
+            code: "HTTP_FILTER_CONFLICT",
+            message: `http filter '${filter.name}' is already in the chain with a different configuration, the existing one was kept`,
+            path,
+            ...requiredBy,
+          });
+        }
+        if (insertion.missing !== undefined) {
+          this.diagnostics.push({
+            severity: "warning",
+            code: "HTTP_FILTER_POSITION_NOT_FOUND",
+            message: `http filter '${filter.name}' is positioned relative to '${insertion.missing}', which is not in the chain, so it was added before the router`,
+            path,
+            ...requiredBy,
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Adds new routes to the existing route array of the targeted virtual host.
+   * Without a target and a virtual host in the base configuration, the routes
+   * can't be attached anywhere and are reported as not merged.
+   *
+   * @private
+   * @param {Route[]} routesToAdd - An array of new routes to add.
+   * @param {RouteTarget} [target={}] - The listener and virtual host to add the routes to.
+   * @returns {void} return void
+   */
+  private addRoute(routesToAdd: Route[], target: RouteTarget = {}): void {
+    const virtualHost = this.findVirtualHost(target);
+    if (virtualHost) {
+      virtualHost.routes = (virtualHost.routes ?? []).concat(routesToAdd);
+      this.stats.routes += routesToAdd.length;
+      return;
+    }
+    for (const route of routesToAdd) {
+      const origin = this.getRouteOrigin(route);
+      this.routeOrigins.delete(route);
+      const diagnostic: Diagnostic = {
+        severity: "warning",
+        code: "ROUTE_NOT_MERGED",
+        message: `route match ${ObjectTools.stableStringify(route.match)} of ${
+          origin.service
+        } was dropped: the base configuration has no virtual host to attach it to`,
+        service: origin.service,
+      };
+      if (origin.file !== undefined) diagnostic.file = origin.file;
+      this.diagnostics.push(diagnostic);
     }
   }
 
+  /**
+   * Reports a route conflict kept under the `warn` policy as a warning
+   * naming the service and file of both routes.
+   *
+   * @private
+   * @param {RouteConflict} conflict - The conflict.
+   * @returns {void} return void
+   */
+  private reportRouteConflict(conflict: RouteConflict): void {
+    const diagnostic: Diagnostic = {
+      severity: "warning",
+      code: "ROUTE_CONFLICT",
+      message: RouteConflicts.describe(conflict),
+      service: conflict.incoming.service,
+    };
+    if (conflict.incoming.file !== undefined)
+      diagnostic.file = conflict.incoming.file;
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Returns a label identifying a service in conflict reports.
+   *
+   * @private
+   * @param {ServiceConfg} service - The service to label.
+   * @returns {string} The service path, or its position in the service list.
+   */
+  private serviceLabel(service: ServiceConfg): string {
+    return (
+      service.path ?? `service #${this.serviceConfigs.indexOf(service) + 1}`
+    );
+  }
+
+  /**
+   * Groups the routes of a service by target, checks them against the routes
+   * already present in their target virtual host and applies the configured
+   * conflict policy. Routes already merged from another service may be removed (`last-wins`).
+   *
+   * @private
+   * @param {ServiceConfg} service - The service whose routes are being merged.
+   * @returns {{ target: RouteTarget; routes: Route[] }[]} The routes of the service that should be added, grouped by target.
+   */
+  private resolveRouteConflicts(
+    service: ServiceConfg
+  ): { target: RouteTarget; routes: Route[] }[] {
+    const policy = this.options.conflictPolicy ?? "warn";
+    const serviceName = this.serviceLabel(service);
+    const groups: Map<string, { target: RouteTarget; routes: Route[] }> =
+      new Map([["", { target: {}, routes: [] }]]);
+
+    service.routes.forEach((route, index) => {
+      const source = service.routeSources?.[index] ?? {};
+      const target: RouteTarget = {};
+      if (source.listener) target.listener = source.listener;
+      if (source.virtual_host) target.virtual_host = source.virtual_host;
+      const incoming: RouteOrigin = {
+        service: serviceName,
+        file: source.file,
+      };
+      const virtualHost = this.findVirtualHost(target, {
+        file: source.file,
+        service: serviceName,
+      });
+      const routes = virtualHost?.routes ?? [];
+      const conflicting = routes.filter(
+        (r) =>
+          this.getRouteOrigin(r).service !== serviceName &&
+          RouteConflicts.compare(r.match, route.match) !== null
+      );
+
+      for (const existing of conflicting) {
+        const conflict: RouteConflict = {
+          kind: RouteConflicts.compare(existing.match, route.match)!,
+          match: route.match,
+          existing: this.getRouteOrigin(existing),
+          incoming,
+          policy,
+        };
+        this.conflicts.push(conflict);
+
+        if (policy === "warn") this.reportRouteConflict(conflict);
+        if (policy === "last-wins") {
+          routes.splice(routes.indexOf(existing), 1);
+          // the replaced route was counted when its service was merged
+          if (this.routeOrigins.delete(existing)) this.stats.routes--;
+        }
+      }
+      if (policy === "first-wins" && conflicting.length) return;
+
+      this.routeOrigins.set(route, incoming);
+      if (source.priority !== undefined)
+        this.routePriorities.set(route, source.priority);
+      const key = Object.keys(target).length
+        ? `${target.listener ?? ""}/${target.virtual_host ?? ""}`
+        : "";
+      if (!groups.has(key)) groups.set(key, { target, routes: [] });
+      groups.get(key)!.routes.push(route);
+    });
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Returns the origin of a route in the store.
+   *
+   * @private
+   * @param {Route} route - A route in the store.
+   * @returns {RouteOrigin} The service and file the route was merged from.
+   */
+  private getRouteOrigin(route: Route): RouteOrigin {
+    return (
+      this.routeOrigins.get(route) ?? {
+        service: "base",
+        file: this.options.baseFile,
+      }
+    );
+  }
+
+  /**
+   * Returns the origin of a cluster in the store.
+   *
+   * @private
+   * @param {Cluster} cluster - A cluster in the store.
+   * @returns {ClusterOrigin} The service and file the cluster was merged from, and the definitions it replaced.
+   */
+  private getClusterOrigin(cluster: Cluster): ClusterOrigin {
+    return (
+      this.clusterOrigins.get(cluster.name) ?? {
+        service: "base",
+        file: this.options.baseFile,
+        overwrote: [],
+      }
+    );
+  }
+
+  /**
+   * Returns the origin of a route in the store. Routes that weren't merged
+   * on their own belong to the listener they are in.
+   *
+   * @private
+   * @param {Route} route - A route in the store.
+   * @param {Listener} listener - The listener the route is in.
+   * @returns {RouteOrigin} The service and file the route was merged from.
+   */
+  private getRouteProvenance(route: Route, listener: Listener): RouteOrigin {
+    return (
+      this.routeOrigins.get(route) ??
+      this.listenerOrigins.get(listener.name) ??
+      this.getRouteOrigin(route)
+    );
+  }
+
+  /**
+   * Lists every route and cluster of the store with its origin.
+   *
+   * @private
+   * @returns {ProvenanceTrace} The routes and clusters with their origin.
+   */
+  private trace(): ProvenanceTrace {
+    if (!this.store) return { routes: [], clusters: [] };
+    return Provenance.trace(
+      this.store,
+      (route, listener) => this.getRouteProvenance(route, listener),
+      (cluster) => this.getClusterOrigin(cluster)
+    );
+  }
+
   /**
    * Merges a single service configuration into the base Envoy configuration.
-   * It handles merging clusters by name (updating existing ones or adding new ones)
-   * and appends new routes.
+   * It adds new listeners (a listener whose name is taken by a different
+   * listener is rejected with an error), merges clusters by name (updating
+   * existing ones or adding new ones), appends new routes after resolving conflicts with routes already merged,
+   * inserts the service's HTTP filters and adds its runtime keys, stats tags
+   * and secrets.
    *
    * @private
    * @param {ServiceConfg} service - The service configuration to merge.
@@ -78,39 +603,368 @@ export class Compiler {
    */
   private mergeConfig(service: ServiceConfg): void {
     if (!this.store) return;
+    const serviceName = this.serviceLabel(service);
+    // Merge listeners first, so that routes and filters can target them
+    const listeners = (this.store.static_resources.listeners ??= []);
+    (service.listeners ?? []).forEach((newListener, index) => {
+      const file = service.listenerSources?.[index]?.file;
+      const existing = listeners.find(
+        (listener) => newListener.name === listener.name
+      );
+      if (existing) {
+        // replacing it would drop the routes and filters of the existing one
+        if (!ObjectTools.deepEqual(existing, newListener))
+          this.reportListenerCollision(newListener, serviceName, file);
+        return;
+      }
+      listeners.push(newListener);
+      this.listenerOrigins.set(newListener.name, {
+        service: serviceName,
+        file,
+      });
+    });
+
     // Merge clusters
-    for (const newCluster of service.clusters) {
+    const clusters = this.store.static_resources.clusters;
+    service.clusters.forEach((newCluster, index) => {
       // Get index if cluster already exists
-      const hasCluster = this.store.static_resources.clusters.findIndex(
+      const hasCluster = clusters.findIndex(
         (cluster) => newCluster.name === cluster.name
       );
+      const overwrote: RouteOrigin[] = [];
       if (hasCluster === -1) {
-        this.store.static_resources.clusters.push(newCluster);
+        clusters.push(newCluster);
       } else {
-        this.store.static_resources.clusters[hasCluster] = newCluster;
+        const { overwrote: earlier, ...previous } = this.getClusterOrigin(
+          clusters[hasCluster]
+        );
+        overwrote.push(...earlier, previous);
+        clusters[hasCluster] = newCluster;
       }
-    }
+      this.clusterOrigins.set(newCluster.name, {
+        service: serviceName,
+        file: service.clusterSources?.[index]?.file,
+        overwrote,
+      });
+      this.stats.clusters++;
+    });
 
     // Merge Routes
-    // TODO: A more robust conflict detection/resolution mechanism should be implemented here.
-    // The current approach simply appends the new routes.
-    this.addRoute(service.routes);
+    for (const group of this.resolveRouteConflicts(service)) {
+      this.addRoute(group.routes, group.target);
+    }
+
+    // Merge HTTP filters
+    this.addHttpFilters(service);
+
+    // Merge runtime keys and stats tags
+    this.mergeBootstrap(service);
+
+    // Merge secrets
+    this.mergeSecrets(service);
+  }
+
+  /**
+   * Reports a service listener whose name is already taken by a different
+   * listener, from the base configuration or an earlier service. The
+   * existing listener is kept.
+   *
+   * @private
+   * @param {Listener} listener - The rejected listener.
+   * @param {string} serviceName - The service defining it.
+   * @param {(string | undefined)} file - The file it was read from.
+   * @returns {void} return void
+   */
+  private reportListenerCollision(
+    listener: Listener,
+    serviceName: string,
+    file: string | undefined
+  ): void {
+    const origin = this.listenerOrigins.get(listener.name);
+    const where = origin
+      ? `${origin.service}${origin.file ? ` (${origin.file})` : ""}`
+      : "the base configuration";
+    const diagnostic: Diagnostic = {
+      severity: "error",
+      code: "LISTENER_NAME_COLLISION",
+      message: `${serviceName} defines listener '${listener.name}', but ${where} already defines a different listener with that name`,
+      path: `static_resources.listeners[${listener.name}]`,
+      service: serviceName,
+    };
+    if (file !== undefined) diagnostic.file = file;
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Adds the secrets of a service to `static_resources.secrets`. A secret
+   * whose name is already taken by a different secret, from the base
+   * configuration or another service, is rejected with an error.
+   *
+   * @private
+   * @param {ServiceConfg} service - The service whose secrets are being merged.
+   * @returns {void} return void
+   */
+  private mergeSecrets(service: ServiceConfg): void {
+    if (!this.store || !service.secrets?.length) return;
+    const serviceName = this.serviceLabel(service);
+    const secrets = (this.store.static_resources.secrets ??= []);
+    for (const secret of service.secrets) {
+      const existing = secrets.find((s) => s.name === secret.name);
+      if (!existing) {
+        secrets.push(secret);
+        this.secretOrigins.set(secret.name, serviceName);
+      } else if (!ObjectTools.deepEqual(existing, secret)) {
+        const origin =
+          this.secretOrigins.get(secret.name) ?? "the base configuration";
+        this.diagnostics.push({
+          severity: "error",
+          code: "SECRET_NAME_COLLISION",
+          message: `${serviceName} defines secret '${secret.name}', but ${origin} already defines a different secret with that name`,
+          path: `static_resources.secrets[${secret.name}]`,
+          service: serviceName,
+        });
+      }
+    }
+  }
+
+  /**
+   * Merges the runtime keys and stats tags of a service into the bootstrap
+   * sections. Contributions that differ from a value the base configuration
+   * or another service already set are rejected with an error.
+   *
+   * @private
+   * @param {ServiceConfg} service - The service whose contributions are being merged.
+   * @returns {void} return void
+   */
+  private mergeBootstrap(service: ServiceConfg): void {
+    if (!this.store) return;
+    const serviceName = this.serviceLabel(service);
+    const conflicts = [
+      ...BootstrapMerge.mergeRuntime(this.store, service.runtime ?? {}),
+      ...BootstrapMerge.mergeStatsTags(this.store, service.statsTags ?? []),
+    ];
+    for (const conflict of conflicts) {
+      this.diagnostics.push({
+        severity: "error",
+        code:
+          conflict.kind === "runtime"
+            ? "RUNTIME_KEY_CONFLICT"
+            : "STATS_TAG_CONFLICT",
+        message: this.describeBootstrapConflict(conflict, serviceName),
+        path: conflict.path,
+        service: serviceName,
+      });
+    }
+
+    const rejected = new Set(conflicts.map((c) => `${c.kind}:${c.key}`));
+    const keys = [
+      ...Object.keys(service.runtime ?? {}).map((k) => `runtime:${k}`),
+      ...(service.statsTags ?? []).map((t) => `stats_tag:${t.tag_name}`),
+    ];
+    for (const key of keys) {
+      if (!rejected.has(key) && !this.bootstrapOrigins.has(key))
+        this.bootstrapOrigins.set(key, serviceName);
+    }
+  }
+
+  /**
+   * Describes a conflicting runtime key or stats tag contribution.
+   *
+   * @private
+   * @param {BootstrapConflict} conflict - The conflict.
+   * @param {string} serviceName - The service that made the contribution.
+   * @returns {string} The description.
+   */
+  private describeBootstrapConflict(
+    conflict: BootstrapConflict,
+    serviceName: string
+  ): string {
+    const origin =
+      this.bootstrapOrigins.get(`${conflict.kind}:${conflict.key}`) ??
+      "the base configuration";
+    const what =
+      conflict.kind === "runtime"
+        ? `runtime key '${conflict.key}'`
+        : `stats tag '${conflict.key}'`;
+    return `${serviceName} sets ${what} to ${JSON.stringify(
+      conflict.incoming
+    )}, but ${origin} already sets it to ${JSON.stringify(conflict.existing)}`;
   }
 
   /**
    * Builds the final Envoy configuration by iterating through all service configurations
    * and merging them into the base configuration.
+   * With the `error` conflict policy, every conflict found is reported in a single error.
    *
    * @public
    * @returns {void} return void
+   * @throws {PluginError} `ROUTE_CONFLICTS` if route conflicts were found and the conflict policy is `error`,
+   * or `TARGET_NOT_FOUND` if a service targets a listener or virtual host that doesn't exist.
    */
   public build(): void {
     for (const s of this.serviceConfigs) {
       if (!this.store) return;
       this.mergeConfig(s);
+      this.stats.services++;
+    }
+
+    if (this.store && this.options.routeOrdering === "specificity") {
+      this.orderRoutes();
+    }
+
+    if (this.options.provenanceMetadata) {
+      Provenance.annotate(this.trace());
+    }
+
+    if (this.options.conflictPolicy === "error" && this.conflicts.length > 0) {
+      throw new PluginError(
+        "ROUTE_CONFLICTS",
+        `route conflicts detected:\n${this.conflicts
+          .map((c) => `  - ${RouteConflicts.describe(c)}`)
+          .join("\n")}`
+      );
+    }
+  }
+
+  /**
+   * Sorts the routes of every virtual host by match specificity, honoring
+   * explicit route priorities.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private orderRoutes(): void {
+    if (!this.store) return;
+    for (const virtualHost of EnvoyTools.getAllVirtualHosts(this.store)) {
+      if (!Array.isArray(virtualHost.routes)) continue;
+      virtualHost.routes = RouteOrdering.sort(virtualHost.routes, (r) =>
+        this.routePriorities.get(r)
+      );
     }
   }
 
+  /**
+   * Validates the references of the compiled configuration: dangling cluster
+   * references, orphaned clusters, load assignment name mismatches and
+   * weighted cluster totals. Call after `build()`. Problems found while
+   * preparing and merging the services, such as mount rewrite, HTTP filter
+   * and runtime key conflicts, come first, followed by the fields of
+   * service routes, clusters and listeners that don't match the Envoy API.
+   *
+   * @public
+   * @returns {Diagnostic[]} The problems found, or an empty array if the store is empty.
+   */
+  public validate(): Diagnostic[] {
+    if (!this.store) return [];
+    return [
+      ...this.diagnostics,
+      ...this.validateSchema(),
+      ...new ConfigValidator(this.store).validate(),
+    ];
+  }
+
+  /**
+   * Checks every route, cluster and listener of the services against the
+   * Envoy API, attributing each problem to its service and file.
+   *
+   * @private
+   * @returns {Diagnostic[]} The problems found.
+   */
+  private validateSchema(): Diagnostic[] {
+    const validator = new SchemaValidator();
+    return this.serviceConfigs.flatMap((service) => [
+      ...this.validateEntries(
+        validator,
+        service,
+        service.routes,
+        service.routeSources,
+        ENVOY_API_MESSAGES.route,
+        "routes"
+      ),
+      ...this.validateEntries(
+        validator,
+        service,
+        service.clusters,
+        service.clusterSources,
+        ENVOY_API_MESSAGES.cluster,
+        "clusters"
+      ),
+      ...this.validateEntries(
+        validator,
+        service,
+        service.listeners ?? [],
+        service.listenerSources,
+        ENVOY_API_MESSAGES.listener,
+        "listeners"
+      ),
+    ]);
+  }
+
+  /**
+   * Checks the routes, clusters or listeners of a service against an Envoy
+   * API message. Entries are identified by name, or by position if they
+   * have none.
+   *
+   * @private
+   * @param {SchemaValidator} validator - The validator.
+   * @param {ServiceConfg} service - The service the entries belong to.
+   * @param {{ name?: string }[]} entries - The entries.
+   * @param {({ file?: string }[] | undefined)} sources - Where each entry came from, index-aligned with `entries`.
+   * @param {string} typeName - The Envoy API message the entries must match.
+   * @param {string} key - The name of the list, the start of every diagnostic path.
+   * @returns {Diagnostic[]} The problems found.
+   */
+  private validateEntries(
+    validator: SchemaValidator,
+    service: ServiceConfg,
+    entries: { name?: string }[],
+    sources: { file?: string }[] | undefined,
+    typeName: string,
+    key: string
+  ): Diagnostic[] {
+    return entries.flatMap((entry, index) =>
+      validator
+        .validate(entry, typeName, `${key}[${entry.name ?? index}]`)
+        .map((diagnostic) => {
+          if (service.path !== undefined) diagnostic.service = service.path;
+          const file = sources?.[index]?.file;
+          if (file !== undefined) diagnostic.file = file;
+          return diagnostic;
+        })
+    );
+  }
+
+  /**
+   * Getter method to get the counts of what was merged during the build
+   *
+   * @public
+   * @returns {BuildStats} return the numbers of services, routes and clusters merged
+   */
+  public getStats(): BuildStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Getter method to get the service and file every route and cluster of
+   * the compiled configuration came from. Call after `build()`.
+   *
+   * @public
+   * @returns {ProvenanceManifest} return the origin of every route and cluster
+   */
+  public getProvenance(): ProvenanceManifest {
+    return Provenance.manifest(this.trace());
+  }
+
+  /**
+   * Getter method to get the route conflicts detected during the build
+   *
+   * @public
+   * @returns {RouteConflict[]} return the detected route conflicts
+   */
+  public getConflicts(): RouteConflict[] {
+    return this.conflicts;
+  }
+
   /**
    * Getter method to get envoy configuration
    *
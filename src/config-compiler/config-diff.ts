@@ -0,0 +1,270 @@
+import { EnvoyConfig, Listener, Route } from "../config-types";
+import { EnvoyTools, ObjectTools } from "../utils";
+
+/**
+ * The kinds of entities compared by a diff.
+ */
+export type DiffEntityKind = "listener" | "cluster" | "route";
+
+/**
+ * A change to a single Envoy entity.
+ * @property {DiffEntityKind} kind - The kind of entity that changed.
+ * @property {string} id - Identifies the entity: a listener or cluster name, or
+ * `<listener>/<virtual host>/<route name or match>` for routes.
+ * @property {"added" | "removed" | "modified"} change - What happened to the entity.
+ * @property {string[]} [fields] - For modified entities, the field paths whose values changed.
+ */
+export type DiffEntry = {
+  kind: DiffEntityKind;
+  id: string;
+  change: "added" | "removed" | "modified";
+  fields?: string[];
+};
+
+/**
+ * The ConfigDiff class computes a semantic diff between two Envoy
+ * configurations. Entities are matched by their Envoy identity rather than
+ * by position: clusters and listeners by `name`, routes by `name` or, for
+ * unnamed routes, by their match within the same listener and virtual host.
+ *
+ * @export
+ * @class ConfigDiff
+ */
+export class ConfigDiff {
+  /**
+   * The configuration currently in use, or null if there is none.
+   * @private
+   * @type {(EnvoyConfig | null)}
+   */
+  private current: EnvoyConfig | null;
+
+  /**
+   * The newly compiled configuration.
+   * @private
+   * @type {EnvoyConfig}
+   */
+  private next: EnvoyConfig;
+
+  /**
+   * Creates an instance of ConfigDiff.
+   * @param {(EnvoyConfig | null)} current - The configuration currently in use, or null if there is none.
+   * @param {EnvoyConfig} next - The newly compiled configuration.
+   */
+  constructor(current: EnvoyConfig | null, next: EnvoyConfig) {
+    this.current = current;
+    this.next = next;
+  }
+
+  /**
+   * Computes the changes from the current to the next configuration.
+   *
+   * @public
+   * @returns {DiffEntry[]} The added, removed and modified entities, listeners first, then routes, then clusters.
+   */
+  public diff(): DiffEntry[] {
+    return [
+      ...this.compare(
+        "listener",
+        this.getListeners(this.current),
+        this.getListeners(this.next)
+      ),
+      ...this.compare(
+        "route",
+        this.getRoutes(this.current),
+        this.getRoutes(this.next)
+      ),
+      ...this.compare(
+        "cluster",
+        this.getClusters(this.current),
+        this.getClusters(this.next)
+      ),
+    ];
+  }
+
+  /**
+   * Compares two sets of entities keyed by identity.
+   *
+   * @private
+   * @param {DiffEntityKind} kind - The kind of the entities.
+   * @param {Map<string, unknown>} before - The entities of the current configuration.
+   * @param {Map<string, unknown>} after - The entities of the next configuration.
+   * @returns {DiffEntry[]} The changes, in the order of the next configuration followed by removals.
+   */
+  private compare(
+    kind: DiffEntityKind,
+    before: Map<string, unknown>,
+    after: Map<string, unknown>
+  ): DiffEntry[] {
+    const entries: DiffEntry[] = [];
+    for (const [id, value] of after) {
+      if (!before.has(id)) {
+        entries.push({ kind, id, change: "added" });
+        continue;
+      }
+      const fields = ConfigDiff.changedFields(before.get(id), value);
+      if (fields.length > 0) {
+        entries.push({ kind, id, change: "modified", fields });
+      }
+    }
+    for (const id of before.keys()) {
+      if (!after.has(id)) entries.push({ kind, id, change: "removed" });
+    }
+    return entries;
+  }
+
+  /**
+   * Lists the field paths whose values differ between two values.
+   *
+   * @static
+   * @param {unknown} a - The first value.
+   * @param {unknown} b - The second value.
+   * @param {string} [path=""] - Path of the values, prepended to the returned paths.
+   * @returns {string[]} The paths of the differing fields, e.g. `route.timeout` or `health_checks[0].interval`.
+   */
+  public static changedFields(a: unknown, b: unknown, path = ""): string[] {
+    if (ObjectTools.deepEqual(a, b)) return [];
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const fields: string[] = [];
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        fields.push(...ConfigDiff.changedFields(a[i], b[i], `${path}[${i}]`));
+      }
+      return fields;
+    }
+    if (
+      a &&
+      b &&
+      typeof a === "object" &&
+      typeof b === "object" &&
+      !Array.isArray(a) &&
+      !Array.isArray(b)
+    ) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      const fields: string[] = [];
+      for (const key of keys) {
+        fields.push(
+          ...ConfigDiff.changedFields(
+            (a as Record<string, unknown>)[key],
+            (b as Record<string, unknown>)[key],
+            path ? `${path}.${key}` : key
+          )
+        );
+      }
+      return fields;
+    }
+    return [path || "."];
+  }
+
+  /**
+   * Formats diff entries as a Markdown list that can be pasted into a pull request.
+   *
+   * @static
+   * @param {DiffEntry[]} entries - The entries to format.
+   * @returns {string} The Markdown text, or a note that nothing changed.
+   */
+  public static toMarkdown(entries: DiffEntry[]): string {
+    if (entries.length === 0) return "No changes.";
+    const symbols = { added: "+", removed: "-", modified: "~" };
+    return entries
+      .map((e) => {
+        const line = `- ${symbols[e.change]} **${e.kind}** \`${e.id}\` ${
+          e.change
+        }`;
+        const fields = (e.fields ?? []).map((f) => `  - \`${f}\``);
+        return [line, ...fields].join("\n");
+      })
+      .join("\n");
+  }
+
+  /**
+   * Indexes the listeners of a configuration by name. Routes are removed
+   * from the listeners since they are compared on their own.
+   *
+   * @private
+   * @param {(EnvoyConfig | null)} config - The configuration.
+   * @returns {Map<string, unknown>} The listeners keyed by name.
+   */
+  private getListeners(config: EnvoyConfig | null): Map<string, unknown> {
+    const listeners = new Map<string, unknown>();
+    for (const listener of config?.static_resources?.listeners ?? []) {
+      const copy = JSON.parse(JSON.stringify(listener)) as Listener;
+      for (const manager of EnvoyTools.getHttpConnectionManagers(copy)) {
+        for (const virtualHost of EnvoyTools.getVirtualHosts(manager)) {
+          delete (virtualHost as Partial<typeof virtualHost>).routes;
+        }
+      }
+      listeners.set(listener.name, copy);
+    }
+    return listeners;
+  }
+
+  /**
+   * Indexes the clusters of a configuration by name.
+   *
+   * @private
+   * @param {(EnvoyConfig | null)} config - The configuration.
+   * @returns {Map<string, unknown>} The clusters keyed by name.
+   */
+  private getClusters(config: EnvoyConfig | null): Map<string, unknown> {
+    return new Map(
+      (config?.static_resources?.clusters ?? []).map((c) => [c.name, c])
+    );
+  }
+
+  /**
+   * Indexes the routes of a configuration by listener, virtual host and
+   * route name, falling back to the route match for unnamed routes.
+   * Repeated identities are disambiguated with their occurrence (`#2`, `#3`, ...).
+   *
+   * @private
+   * @param {(EnvoyConfig | null)} config - The configuration.
+   * @returns {Map<string, unknown>} The routes keyed by identity.
+   */
+  private getRoutes(config: EnvoyConfig | null): Map<string, unknown> {
+    const routes = new Map<string, unknown>();
+    for (const listener of config?.static_resources?.listeners ?? []) {
+      for (const manager of EnvoyTools.getHttpConnectionManagers(listener)) {
+        for (const virtualHost of EnvoyTools.getVirtualHosts(manager)) {
+          for (const route of virtualHost.routes ?? []) {
+            const base = `${listener.name}/${
+              virtualHost.name
+            }/${ConfigDiff.routeLabel(route)}`;
+            let id = base;
+            for (let n = 2; routes.has(id); n++) id = `${base}#${n}`;
+            routes.set(id, route);
+          }
+        }
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Returns the label identifying a route within its virtual host.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route.
+   * @returns {string} The route name, or a description of its match.
+   */
+  private static routeLabel(route: Route): string {
+    if (route.name) return route.name;
+    const match = route.match ?? {};
+    const specifier =
+      match.path !== undefined
+        ? `path:${match.path}`
+        : match.prefix !== undefined
+        ? `prefix:${match.prefix}`
+        : match.path_separated_prefix !== undefined
+        ? `path_separated_prefix:${match.path_separated_prefix}`
+        : match.safe_regex !== undefined
+        ? `safe_regex:${ObjectTools.stableStringify(match.safe_regex)}`
+        : "match:?";
+    const matchers = [
+      ...(match.headers ?? []),
+      ...(match.query_parameters ?? []),
+    ]
+      .map((m) => ObjectTools.stableStringify(m))
+      .sort();
+    return matchers.length ? `${specifier} ${matchers.join(" ")}` : specifier;
+  }
+}
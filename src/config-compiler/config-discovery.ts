@@ -1,6 +1,53 @@
-import { join } from "node:path";
-import { YamlTools, FsTools } from "../utils";
-import { Cluster, EnvoyConfig, Route, ServiceConfg } from "../config-types";
+import { basename, dirname, isAbsolute, join, resolve } from "node:path";
+import { YamlTools, FsTools, ObjectTools, PluginError } from "../utils";
+import { WatchTarget } from "./config-watcher";
+import { Interpolator } from "./interpolation";
+import { ServiceShorthand } from "./service-shorthand";
+import {
+  Cluster,
+  ClusterSource,
+  EnvoyConfig,
+  HTTPFilter,
+  HttpFilterSource,
+  Listener,
+  ListenerSource,
+  Route,
+  RouteSource,
+  ServiceConfg,
+  ServiceManifest,
+  ServiceTls,
+  TagSpecifier,
+} from "../config-types";
+
+/**
+ * Options for the discovery of service configurations.
+ * @property {Interpolator} [interpolator] - Replaces variable references in the base and service files.
+ * @property {string} [environment] - Applies the overlays in `overlays/<environment>/` next to the base file and in each service's configuration folder.
+ * @property {boolean} [strict] - Fail on missing service folders and on files that can't be read, can't be parsed or
+ * have a non-list `routes`, `clusters`, `listeners`, `http_filters` or `stats_tags` key, instead of skipping them.
+ */
+export type DiscoveryOptions = {
+  interpolator?: Interpolator;
+  environment?: string;
+  strict?: boolean;
+};
+
+/**
+ * Routes, clusters, HTTP filters and listeners read from configuration files,
+ * with index-aligned sources, along with runtime keys and stats tags.
+ */
+type ConfigItems = {
+  routes: Route[];
+  routeSources: RouteSource[];
+  clusters: Cluster[];
+  clusterSources: ClusterSource[];
+  httpFilters: HTTPFilter[];
+  httpFilterSources: HttpFilterSource[];
+  listeners: Listener[];
+  listenerSources: ListenerSource[];
+  runtime: Record<string, unknown>;
+  statsTags: TagSpecifier[];
+};
 
 /**
  * The ConfigDiscover class is responsible for discovering and collecting
@@ -33,129 +80,893 @@ export class ConfigDiscover {
    */
   private configFolderName: string;
 
+  /**
+   * Files that could not be read or parsed during the last `collect`.
+   * @private
+   * @type {PluginError[]}
+   */
+  private readErrors: PluginError[] = [];
+
+  /**
+   * The service folder being collected, attributed to the errors found in it.
+   * @private
+   * @type {(string | undefined)}
+   */
+  private currentService?: string;
+
+  /**
+   * The discovery options.
+   * @private
+   * @type {DiscoveryOptions}
+   */
+  private options: DiscoveryOptions;
+
   /**
    * Creates an instance of ConfigDiscover.
    * @param {string[]} folderPaths - An array of paths to the top-level service folders.
    * @param {string} baseConfigPath - Path to the base/template envoy config yaml file.
    * @param {string} [configFolderName="envoy"] - The name of the configuration subfolder.
+   * @param {DiscoveryOptions} [options={}] - The discovery options.
    */
   constructor(
     folderPaths: string[],
     baseConfigPath: string,
-    configFolderName: string = "envoy"
+    configFolderName: string = "envoy",
+    options: DiscoveryOptions = {}
   ) {
     this.folderPaths = folderPaths;
     this.baseConfigPath = baseConfigPath;
     this.configFolderName = configFolderName;
+    this.options = options;
+  }
+
+  /**
+   * Folders that are never searched for services.
+   * @static
+   * @type {string[]}
+   */
+  public static readonly DEFAULT_IGNORE: string[] = ["node_modules", ".*"];
+
+  /**
+   * The file names of the service manifest, in order of preference.
+   * @static
+   * @type {string[]}
+   */
+  public static readonly MANIFEST_FILES: string[] = [
+    "service.yaml",
+    "service.yml",
+  ];
+
+  /**
+   * Resolves service folder paths relative to a root path. Paths with glob
+   * wildcards (e.g. `services/*` or `apps/**`) are expanded to the matching
+   * folders that contain a configuration subfolder, in sorted order. Paths
+   * that appear more than once are only kept the first time.
+   *
+   * @static
+   * @param {string} rootPath - The path relative paths are resolved against.
+   * @param {string[]} items - The service folder paths or glob patterns.
+   * @param {string} [configFolderName="envoy"] - The name of the configuration subfolder.
+   * @param {string[]} [ignore=[]] - Glob patterns of folders to skip when expanding patterns.
+   * @returns {string[]} The resolved service folder paths.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` or `FILE_READ_FAILED` if a folder searched by a pattern can't be listed.
+   */
+  public static resolveItems(
+    rootPath: string,
+    items: string[],
+    configFolderName: string = "envoy",
+    ignore: string[] = []
+  ): string[] {
+    const resolved: string[] = [];
+    for (const item of items) {
+      if (!FsTools.hasGlob(item)) {
+        resolved.push(ConfigDiscover.resolvePath(rootPath, item));
+        continue;
+      }
+      const { walkRoot, pattern } = ConfigDiscover.splitPattern(rootPath, item);
+      const candidates = [
+        "",
+        ...FsTools.walkFolders(walkRoot, [
+          ...ConfigDiscover.DEFAULT_IGNORE,
+          ...ignore,
+        ]),
+      ];
+      for (const folder of candidates) {
+        if (
+          FsTools.matchesGlob(folder, pattern) &&
+          FsTools.checkFolderExists(join(walkRoot, folder, configFolderName))
+        ) {
+          resolved.push(join(walkRoot, folder));
+        }
+      }
+    }
+    return resolved.filter((item, i) => resolved.indexOf(item) === i);
   }
 
   /**
-   * Reads a YAML file and parses its contents as an array of Route objects.
+   * Lists the folders searched by the glob patterns in `items`, where new
+   * service folders appear. Configuration folders, folders matching
+   * `DEFAULT_IGNORE` or an ignore pattern and folders that can't be listed
+   * are left out.
+   *
+   * @static
+   * @param {string} rootPath - The path relative patterns are resolved against.
+   * @param {string[]} items - The service folder paths or glob patterns.
+   * @param {string} [configFolderName="envoy"] - The name of the configuration subfolder.
+   * @param {string[]} [ignore=[]] - Glob patterns of folders to skip.
+   * @returns {WatchTarget[]} The folders to watch, labelled with the pattern that searches them.
+   */
+  public static getSearchTargets(
+    rootPath: string,
+    items: string[],
+    configFolderName: string = "envoy",
+    ignore: string[] = []
+  ): WatchTarget[] {
+    const targets: WatchTarget[] = [];
+    for (const item of items.filter((i) => FsTools.hasGlob(i))) {
+      const { walkRoot } = ConfigDiscover.splitPattern(rootPath, item);
+      if (!FsTools.checkFolderExists(walkRoot)) continue;
+      const folders = FsTools.walkFolders(
+        walkRoot,
+        [...ConfigDiscover.DEFAULT_IGNORE, ...ignore, `**/${configFolderName}`],
+        []
+      );
+      for (const folder of ["", ...folders]) {
+        targets.push({ service: item, path: join(walkRoot, folder) });
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Splits a glob pattern into the folder it searches, the part of the path
+   * before the first wildcard, and the pattern folders below it must match.
+   *
+   * @private
+   * @static
+   * @param {string} rootPath - The path a relative pattern is resolved against.
+   * @param {string} item - The glob pattern.
+   * @returns {{ walkRoot: string; pattern: string }} The folder to search and the pattern relative to it.
+   */
+  private static splitPattern(
+    rootPath: string,
+    item: string
+  ): { walkRoot: string; pattern: string } {
+    // Only walk the part of the tree below the pattern's fixed prefix
+    const segments = item.split(/[\\/]+/);
+    const fixed = segments.findIndex((segment) => FsTools.hasGlob(segment));
+    const prefix = segments.slice(0, fixed).join("/");
+    return {
+      walkRoot: isAbsolute(item) ? prefix : join(rootPath || ".", prefix),
+      pattern: segments.slice(fixed).join("/"),
+    };
+  }
+
+  /**
+   * Walks a root path recursively and returns every folder that contains a
+   * configuration subfolder, in sorted order. Configuration subfolders are
+   * not searched further, and folders matching `DEFAULT_IGNORE` or an ignore
+   * pattern are skipped.
+   *
+   * @static
+   * @param {string} rootPath - The folder to search.
+   * @param {string} [configFolderName="envoy"] - The name of the configuration subfolder.
+   * @param {string[]} [ignore=[]] - Glob patterns of folders to skip, relative to the root path.
+   * @returns {string[]} The paths of the service folders found.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` or `FILE_READ_FAILED` if a folder below the root path can't be listed.
+   */
+  public static discoverServices(
+    rootPath: string,
+    configFolderName: string = "envoy",
+    ignore: string[] = []
+  ): string[] {
+    const root = rootPath || ".";
+    const folders = FsTools.walkFolders(root, [
+      ...ConfigDiscover.DEFAULT_IGNORE,
+      ...ignore,
+      `**/${configFolderName}`,
+    ]);
+    return ["", ...folders]
+      .filter((folder) =>
+        FsTools.checkFolderExists(join(root, folder, configFolderName))
+      )
+      .map((folder) => join(root, folder));
+  }
+
+  /**
+   * Resolves a path relative to a root path. Empty and absolute paths, and
+   * paths resolved against an empty root path, are returned unchanged.
+   *
+   * @static
+   * @param {string} rootPath - The root path.
+   * @param {string} path - The path to resolve.
+   * @returns {string} The resolved path.
+   */
+  public static resolvePath(rootPath: string, path: string): string {
+    if (!rootPath || !path || isAbsolute(path)) return path;
+    return join(rootPath, path);
+  }
+
+  /**
+   * Reads a YAML file, recording it as a read error if it can't be read or
+   * parsed, and replaces variable references in it.
    *
    * @private
    * @param {string} filePath - The path to the YAML file.
-   * @returns {Route[]} An array of Route objects, or an empty array if the file is invalid or routes are not found.
-   */
-  private readRouteYaml(filePath: string): Route[] {
-    const routeFile = YamlTools.read_yaml(filePath);
-    if (routeFile) {
-      const routes = routeFile as { routes: Route[] };
-      if (routes.routes && Array.isArray(routes.routes)) {
-        return routes.routes as Route[];
-      }
+   * @returns {(unknown | null)} The parsed contents, or `null` if reading failed.
+   */
+  private readYaml(filePath: string): unknown | null {
+    let contents: unknown;
+    try {
+      contents = YamlTools.load_yaml(filePath);
+    } catch (e) {
+      this.recordReadError(e, filePath);
+      return null;
     }
-    return [];
+    return this.interpolate(contents, filePath);
   }
 
   /**
-   * Retrieves all route configurations from a specified folder by reading and parsing
-   * all YAML files within it.
+   * Checks that a key of a document is a list. A key that is set to
+   * anything else is recorded as a read error of the file and ignored.
    *
    * @private
-   * @param {string} folderPath - The path to the folder containing route YAML files.
-   * @returns {Route[]} An array of all routes found in the folder.
+   * @param {Record<string, unknown>} document - The parsed document.
+   * @param {string} key - The key.
+   * @param {string} filePath - The file the document was read from.
+   * @returns {boolean} `true` if the key is a list, `false` if it is missing or not a list.
    */
-  private getRoutes(folderPath: string): Route[] {
-    const newRoutes: Route[] = [];
-    const contents = FsTools.listDirContents(folderPath);
-    if (contents) {
-      for (const f of contents.files) {
-        if (f.includes(".yaml")) {
-          const fileRoutes = this.readRouteYaml(join(folderPath, f));
-          newRoutes.push(...fileRoutes); // Correctly concatenating arrays
-        }
+  private isList(
+    document: Record<string, unknown>,
+    key: string,
+    filePath: string
+  ): boolean {
+    if (Array.isArray(document[key])) return true;
+    if (document[key] !== undefined && document[key] !== null)
+      this.recordReadError(
+        new PluginError(
+          "INVALID_CONFIG_FILE",
+          `'${key}' in ${filePath} must be a list`,
+          { file: filePath }
+        ),
+        filePath
+      );
+    return false;
+  }
+
+  /**
+   * Returns the entries of a list in a document that are mappings. The
+   * other entries, such as a `null` left by a stray `-`, are recorded as
+   * read errors of the file and skipped.
+   *
+   * @private
+   * @param {Record<string, unknown>} document - The parsed document.
+   * @param {string} key - The key of the list.
+   * @param {string} filePath - The file the document was read from.
+   * @returns {T[]} The entries that are mappings; none if the key is not a list.
+   */
+  private entriesOf<T>(
+    document: Record<string, unknown>,
+    key: string,
+    filePath: string
+  ): T[] {
+    if (!this.isList(document, key, filePath)) return [];
+    const entries: T[] = [];
+    (document[key] as T[]).forEach((entry, index) => {
+      if (ObjectTools.isPlainObject(entry)) {
+        entries.push(entry);
+        return;
       }
+      this.recordReadError(
+        new PluginError(
+          "INVALID_CONFIG_FILE",
+          `'${key}[${index}]' in ${filePath} must be a mapping`,
+          { file: filePath }
+        ),
+        filePath
+      );
+    });
+    return entries;
+  }
+
+  /**
+   * Checks that a key of a document is a mapping. A key that is set to
+   * anything else is recorded as a read error of the file and ignored.
+   *
+   * @private
+   * @param {Record<string, unknown>} document - The parsed document.
+   * @param {string} key - The key.
+   * @param {string} filePath - The file the document was read from.
+   * @returns {boolean} `true` if the key is a mapping, `false` if it is missing or not a mapping.
+   */
+  private isMapping(
+    document: Record<string, unknown>,
+    key: string,
+    filePath: string
+  ): boolean {
+    if (ObjectTools.isPlainObject(document[key])) return true;
+    if (document[key] !== undefined && document[key] !== null)
+      this.recordReadError(
+        new PluginError(
+          "INVALID_CONFIG_FILE",
+          `'${key}' in ${filePath} must be a mapping`,
+          { file: filePath }
+        ),
+        filePath
+      );
+    return false;
+  }
+
+  /**
+   * Logs a file that could not be read or parsed and records it as a read
+   * error of the service being collected.
+   *
+   * @private
+   * @param {unknown} error - The error thrown while reading the file.
+   * @param {string} filePath - The path of the file.
+   * @returns {void} return void
+   */
+  private recordReadError(error: unknown, filePath: string): void {
+    const readError = YamlTools.read_error(error, filePath);
+    console.error(`Error: '${readError}'`);
+    this.readErrors.push(
+      new PluginError(readError.code, readError.message, {
+        file: filePath,
+        service: this.currentService,
+        line: readError.line,
+        column: readError.column,
+      })
+    );
+  }
+
+  /**
+   * Replaces variable references in a parsed file, if an interpolator is configured.
+   *
+   * @private
+   * @param {unknown} contents - The parsed file.
+   * @param {string} filePath - The path of the file.
+   * @returns {unknown} The interpolated contents.
+   */
+  private interpolate(contents: unknown, filePath: string): unknown {
+    if (!this.options.interpolator || contents === null) return contents;
+    return this.options.interpolator.interpolate(contents, filePath);
+  }
+
+  /**
+   * Reads every document of a configuration file, recording the file as a
+   * read error if it can't be read or parsed, and replaces variable
+   * references in them.
+   *
+   * @private
+   * @param {string} filePath - The path to the configuration file.
+   * @returns {unknown[]} The parsed documents, or an empty array if reading failed.
+   */
+  private readDocuments(filePath: string): unknown[] {
+    let documents: unknown[];
+    try {
+      documents = YamlTools.load_documents(filePath);
+    } catch (e) {
+      this.recordReadError(e, filePath);
+      return [];
     }
-    return newRoutes;
+    return documents.map((d) => this.interpolate(d, filePath));
   }
 
   /**
-   * Reads a YAML file and parses its contents as an array of Cluster objects.
+   * Parses the routes, clusters, HTTP filters, listeners, runtime keys and
+   * stats tags of a configuration document. A document may contain any of
+   * `routes`, `clusters`, `http_filters`, `listeners`, `runtime` (a map of
+   * runtime keys) and `stats_tags`. It may also declare the `listener` and `virtual_host`
+   * (name or domain) its routes are attached to; its HTTP filters are added
+   * to the same listener. Each route may declare a `priority` used for
+   * specificity ordering and each HTTP filter the filter it goes `before`
+   * or `after`. These fields are removed from the route or filter.
    *
    * @private
-   * @param {string} filePath - The path to the YAML file.
-   * @returns {Cluster[]} An array of Cluster objects, or an empty array if the file is invalid or clusters are not found.
-   */
-  private readClusterYaml(filePath: string): Cluster[] {
-    const clusterFile = YamlTools.read_yaml(filePath);
-    if (clusterFile) {
-      const clusters = clusterFile as { clusters: Cluster[] };
-      if (clusters.clusters && Array.isArray(clusters.clusters)) {
-        return clusters.clusters as Cluster[];
+   * @param {unknown} document - The parsed document.
+   * @param {string} filePath - The file the document was read from.
+   * @returns {ConfigItems} The items of the document, with index-aligned sources.
+   */
+  private readDocument(document: unknown, filePath: string): ConfigItems {
+    const items: ConfigItems = {
+      routes: [],
+      routeSources: [],
+      clusters: [],
+      clusterSources: [],
+      httpFilters: [],
+      httpFilterSources: [],
+      listeners: [],
+      listenerSources: [],
+      runtime: {},
+      statsTags: [],
+    };
+    if (!ObjectTools.isPlainObject(document)) return items;
+    const listener =
+      typeof document.listener === "string" ? document.listener : undefined;
+
+    const virtual_host =
+      typeof document.virtual_host === "string"
+        ? document.virtual_host
+        : undefined;
+    this.entriesOf<Route & { priority?: unknown }>(
+      document,
+      "routes",
+      filePath
+    ).forEach(({ priority, ...route }) => {
+      items.routes.push(route);
+      items.routeSources.push({
+        file: filePath,
+        listener,
+        virtual_host,
+        priority: typeof priority === "number" ? priority : undefined,
+      });
+    });
+    const clusters = this.entriesOf<Cluster>(document, "clusters", filePath);
+    for (const cluster of clusters) {
+      items.clusters.push(cluster);
+      items.clusterSources.push({ file: filePath });
+    }
+    const listeners = this.entriesOf<Listener>(document, "listeners", filePath);
+    for (const listener of listeners) {
+      items.listeners.push(listener);
+      items.listenerSources.push({ file: filePath });
+    }
+    if (this.isMapping(document, "runtime", filePath)) {
+      Object.assign(items.runtime, document.runtime);
+    }
+    if (this.isList(document, "stats_tags", filePath)) {
+      items.statsTags.push(
+        ...(document.stats_tags as TagSpecifier[]).filter(
+          (t) => ObjectTools.isPlainObject(t) && typeof t.tag_name === "string"
+        )
+      );
+    }
+    this.entriesOf<HTTPFilter & { before?: unknown; after?: unknown }>(
+      document,
+      "http_filters",
+      filePath
+    ).forEach(({ before, after, ...filter }) => {
+      items.httpFilters.push(filter);
+      items.httpFilterSources.push({
+        file: filePath,
+        listener,
+        before: typeof before === "string" ? before : undefined,
+        after: typeof after === "string" ? after : undefined,
+      });
+    });
+    return items;
+  }
+
+  /**
+   * Retrieves the routes, clusters, HTTP filters, listeners, runtime keys and stats tags of every configuration file (`.yaml`,
+   * `.yml` or `.json`) in a folder and its subfolders, in path order.
+   *
+   * @private
+   * @param {string} folderPath - The folder to read.
+   * @param {string[]} [ignore=[]] - Glob patterns of files and folders to skip, relative to the folder.
+   * @returns {ConfigItems} All routes and clusters found, with index-aligned sources recording
+   * the file, target and priority of each.
+   */
+  private getConfigItems(
+    folderPath: string,
+    ignore: string[] = []
+  ): ConfigItems {
+    const items: ConfigItems = {
+      routes: [],
+      routeSources: [],
+      clusters: [],
+      clusterSources: [],
+      httpFilters: [],
+      httpFilterSources: [],
+      listeners: [],
+      listenerSources: [],
+      runtime: {},
+      statsTags: [],
+    };
+    if (!FsTools.checkFolderExists(folderPath)) return items;
+    const unreadable: PluginError[] = [];
+    const files = FsTools.walkFiles(folderPath, ignore, unreadable);
+    for (const error of unreadable) this.recordReadError(error, error.file!);
+    for (const f of files) {
+      if (!YamlTools.isConfigFile(f)) continue;
+      const file = join(folderPath, f);
+      for (const document of this.readDocuments(file)) {
+        const fileItems = this.readDocument(document, file);
+        items.routes.push(...fileItems.routes);
+        items.routeSources.push(...fileItems.routeSources);
+        items.clusters.push(...fileItems.clusters);
+        items.clusterSources.push(...fileItems.clusterSources);
+        items.httpFilters.push(...fileItems.httpFilters);
+        items.httpFilterSources.push(...fileItems.httpFilterSources);
+        items.listeners.push(...fileItems.listeners);
+        items.listenerSources.push(...fileItems.listenerSources);
+        Object.assign(items.runtime, fileItems.runtime);
+        items.statsTags.push(...fileItems.statsTags);
       }
     }
-    return [];
+    return items;
   }
 
   /**
-   * Retrieves all cluster configurations from a specified folder by reading and parsing
-   * all YAML files within it.
+   * Returns the path of the service manifest in a configuration folder.
    *
    * @private
-   * @param {string} folderPath - The path to the folder containing cluster YAML files.
-   * @returns {Cluster[]} An array of all clusters found in the folder.
+   * @param {string} configPath - The configuration folder of the service.
+   * @returns {(string | undefined)} The path of `service.yaml` or `service.yml`, or undefined if there is none.
    */
-  private getClusters(folderPath: string): Cluster[] {
-    const newCluster: Cluster[] = [];
-    const contents = FsTools.listDirContents(folderPath);
-    if (contents) {
-      for (const f of contents.files) {
-        if (f.includes(".yaml")) {
-          const fileClusters = this.readClusterYaml(join(folderPath, f));
-          newCluster.push(...fileClusters); // Correctly concatenating arrays
+  private findManifestFile(configPath: string): string | undefined {
+    return ConfigDiscover.MANIFEST_FILES.map((f) => join(configPath, f)).find(
+      (f) => FsTools.checkFileExists(f)
+    );
+  }
+
+  /**
+   * Creates the error for an invalid service manifest.
+   *
+   * @private
+   * @param {string} file - The manifest file.
+   * @param {string} problem - What is wrong with the manifest.
+   * @returns {PluginError} The `INVALID_MANIFEST` error.
+   */
+  private invalidManifest(file: string, problem: string): PluginError {
+    return new PluginError(
+      "INVALID_MANIFEST",
+      `invalid service manifest at ${file}: ${problem}`,
+      { file, service: this.currentService }
+    );
+  }
+
+  /**
+   * Reads the service manifest (`service.yaml` or `service.yml`) in a
+   * configuration folder.
+   *
+   * @private
+   * @param {string} configPath - The configuration folder of the service.
+   * @returns {(ServiceManifest | undefined)} The manifest, or undefined if the service has none.
+   * @throws {PluginError} `INVALID_MANIFEST` if the manifest isn't a mapping or a field has the wrong type.
+   */
+  private readManifest(configPath: string): ServiceManifest | undefined {
+    const file = this.findManifestFile(configPath);
+    if (!file) return undefined;
+
+    const manifest = this.readYaml(file);
+    if (!ObjectTools.isPlainObject(manifest))
+      throw this.invalidManifest(file, "expected a mapping");
+    for (const field of [
+      "name",
+      "owner",
+      "namespace",
+      "mount",
+      "upstream",
+      "timeout",
+      "health",
+    ]) {
+      if (manifest[field] !== undefined && typeof manifest[field] !== "string")
+        throw this.invalidManifest(file, `'${field}' must be a string`);
+    }
+    if (
+      typeof manifest.namespace === "string" &&
+      !/^[A-Za-z0-9_-]+$/.test(manifest.namespace)
+    )
+      throw this.invalidManifest(
+        file,
+        "'namespace' may only contain letters, digits, '_' and '-'"
+      );
+    if (typeof manifest.mount === "string" && !manifest.mount.startsWith("/"))
+      throw this.invalidManifest(file, "'mount' must start with '/'");
+    if (
+      manifest.mount_rewrite !== undefined &&
+      typeof manifest.mount_rewrite !== "boolean"
+    )
+      throw this.invalidManifest(file, "'mount_rewrite' must be a boolean");
+    if (manifest.tls !== undefined)
+      manifest.tls = this.readManifestTls(manifest.tls, file);
+    if (manifest.lint_suppressions !== undefined)
+      this.checkLintSuppressions(manifest.lint_suppressions, file);
+    return manifest as ServiceManifest;
+  }
+
+  /**
+   * Validates the `lint_suppressions` of a service manifest. Every
+   * suppression needs a rule and a justification.
+   *
+   * @private
+   * @param {unknown} suppressions - The `lint_suppressions` setting.
+   * @param {string} file - The manifest file.
+   * @returns {void} return void
+   * @throws {PluginError} `INVALID_MANIFEST` if a suppression is invalid.
+   */
+  private checkLintSuppressions(suppressions: unknown, file: string): void {
+    if (!Array.isArray(suppressions))
+      throw this.invalidManifest(file, "'lint_suppressions' must be a list");
+    suppressions.forEach((suppression: unknown, index) => {
+      const where = `lint_suppressions[${index}]`;
+      if (!ObjectTools.isPlainObject(suppression))
+        throw this.invalidManifest(file, `'${where}' must be a mapping`);
+      if (typeof suppression.rule !== "string")
+        throw this.invalidManifest(file, `'${where}.rule' must be a string`);
+      if (
+        typeof suppression.justification !== "string" ||
+        !suppression.justification.trim()
+      )
+        throw this.invalidManifest(
+          file,
+          `'${where}.justification' must explain why '${suppression.rule}' is suppressed`
+        );
+      if (
+        suppression.target !== undefined &&
+        typeof suppression.target !== "string"
+      )
+        throw this.invalidManifest(file, `'${where}.target' must be a string`);
+    });
+  }
+
+  /**
+   * Validates the `tls` settings of a service manifest and resolves their
+   * file paths against the service folder, so they don't depend on the
+   * directory the plugin or Envoy runs in.
+   *
+   * @private
+   * @param {unknown} tls - The `tls` settings.
+   * @param {string} file - The manifest file.
+   * @returns {ServiceTls} The validated settings.
+   * @throws {PluginError} `INVALID_MANIFEST` if the settings are invalid.
+   */
+  private readManifestTls(tls: unknown, file: string): ServiceTls {
+    if (!ObjectTools.isPlainObject(tls))
+      throw this.invalidManifest(file, "'tls' must be a mapping");
+    for (const field of ["sni", "ca_file", "cert_file", "key_file"]) {
+      if (tls[field] !== undefined && typeof tls[field] !== "string")
+        throw this.invalidManifest(file, `'tls.${field}' must be a string`);
+    }
+    if (tls.secret !== undefined && typeof tls.secret !== "string") {
+      if (
+        !ObjectTools.isPlainObject(tls.secret) ||
+        typeof tls.secret.name !== "string" ||
+        !ObjectTools.isPlainObject(tls.secret.sds_config)
+      )
+        throw this.invalidManifest(
+          file,
+          "'tls.secret' must be a secret name or a mapping with a 'name' and an 'sds_config'"
+        );
+    }
+    if ((tls.cert_file === undefined) !== (tls.key_file === undefined))
+      throw this.invalidManifest(
+        file,
+        "'tls.cert_file' and 'tls.key_file' must be set together"
+      );
+    if (tls.secret !== undefined && tls.cert_file !== undefined)
+      throw this.invalidManifest(
+        file,
+        "'tls.secret' can't be combined with 'tls.cert_file'"
+      );
+
+    // The manifest is in the configuration folder of the service
+    const serviceFolder = dirname(dirname(file));
+    const resolved: ServiceTls = { ...(tls as ServiceTls) };
+    for (const field of ["ca_file", "cert_file", "key_file"] as const) {
+      const path = resolved[field];
+      if (path !== undefined) resolved[field] = resolve(serviceFolder, path);
+    }
+    return resolved;
+  }
+
+  /**
+   * Expands the short form of a service manifest (`upstream`, `paths`,
+   * `timeout` and `health`) into clusters and routes.
+   *
+   * @private
+   * @param {string} configPath - The configuration folder of the service.
+   * @param {(ServiceManifest | undefined)} manifest - The service manifest.
+   * @returns {({ clusters: Cluster[]; routes: Route[]; file: string } | null)} The expanded
+   * clusters and routes and the manifest file, or null if the manifest has no short form.
+   * @throws {PluginError} `INVALID_MANIFEST` if the short form is incomplete or invalid.
+   */
+  private expandManifest(
+    configPath: string,
+    manifest: ServiceManifest | undefined
+  ): { clusters: Cluster[]; routes: Route[]; file: string } | null {
+    if (!manifest || manifest.upstream === undefined) return null;
+    const file = this.findManifestFile(configPath)!;
+    try {
+      return {
+        ...ServiceShorthand.expand({
+          name: manifest.name ?? "",
+          upstream: manifest.upstream,
+          paths: manifest.paths ?? [],
+          timeout: manifest.timeout,
+          health: manifest.health,
+        }),
+        file,
+      };
+    } catch (e) {
+      throw this.invalidManifest(
+        file,
+        e instanceof Error ? e.message : String(e)
+      );
+    }
+  }
+
+  /**
+   * Merges overlay items into a list of named items, keeping the sources
+   * index-aligned: matching items are deep-merged and keep their source,
+   * items marked `$remove: true` are removed with their source, and other
+   * items are appended with theirs.
+   *
+   * @private
+   * @param {{ items: T[]; sources: S[] }} base - The original items and their sources.
+   * @param {T[]} base.items - The original items.
+   * @param {S[]} base.sources - The sources of the original items.
+   * @param {{ items: T[]; sources: S[] }} overlay - The overlay items and their sources.
+   * @param {T[]} overlay.items - The overlay items.
+   * @param {S[]} overlay.sources - The sources of the overlay items.
+   * @returns {{ items: T[]; sources: S[] }} The merged items and their sources.
+   */
+  private applyOverlay<T extends { name?: string }, S>(
+    base: { items: T[]; sources: S[] },
+    overlay: { items: T[]; sources: S[] }
+  ): { items: T[]; sources: S[] } {
+    const items = [...base.items];
+    const sources = [...base.sources];
+    overlay.items.forEach((item, i) => {
+      const index =
+        item.name === undefined
+          ? -1
+          : items.findIndex((existing) => existing.name === item.name);
+      if (ObjectTools.isRemoval(item)) {
+        if (index >= 0) {
+          items.splice(index, 1);
+          sources.splice(index, 1);
         }
+      } else if (index >= 0) {
+        items[index] = ObjectTools.deepMerge(items[index], item) as T;
+      } else {
+        items.push(item);
+        sources.push(overlay.sources[i]);
       }
-    }
-    return newCluster;
+    });
+    return { items, sources };
+  }
+
+  /**
+   * Returns the overlay folder for the configured environment within a
+   * folder, if an environment is configured and the folder exists.
+   *
+   * @private
+   * @param {string} folderPath - The folder that may contain `overlays/<environment>/`.
+   * @returns {(string | null)} The overlay folder, or null if there is none.
+   */
+  private getOverlayFolder(folderPath: string): string | null {
+    if (!this.options.environment) return null;
+    const overlayPath = join(folderPath, "overlays", this.options.environment);
+    return FsTools.checkFolderExists(overlayPath) ? overlayPath : null;
   }
 
   /**
    * Finds and collects the full `ServiceConfg` for a single folder path.
    * It looks for the configured `configFolderName` subfolder and then
-   * recursively calls other methods to get routes and clusters.
+   * recursively calls other methods to get routes and clusters, and merges
+   * the overlays of the configured environment into them.
    *
    * @private
    * @param {string} folderPath - The path to the top-level service folder.
    * @returns {(ServiceConfg | null)} The service configuration object, or null if no configuration is found.
    */
   private findServiceConfigs(folderPath: string): ServiceConfg | null {
-    const configs: ServiceConfg = { routes: [], clusters: [] };
-    const contents = FsTools.listDirContents(folderPath);
+    const configs: ServiceConfg = {
+      routes: [],
+      clusters: [],
+      path: folderPath,
+      routeSources: [],
+      clusterSources: [],
+      httpFilters: [],
+      httpFilterSources: [],
+      listeners: [],
+      listenerSources: [],
+    };
+    let contents: { folders: string[]; files: string[] } | null = null;
+    if (this.options.strict) {
+      try {
+        contents = FsTools.readDirContents(folderPath);
+      } catch (e) {
+        this.recordReadError(e, folderPath);
+      }
+    } else {
+      contents = FsTools.listDirContents(folderPath);
+    }
     if (contents) {
       const configFolder = contents.folders.find(
         (f) => f === this.configFolderName
       );
       if (configFolder) {
         const configPath = join(folderPath, configFolder);
-        configs.routes = configs.routes.concat(
-          this.getRoutes(join(configPath, "routes"))
-        );
-        configs.clusters = configs.clusters.concat(
-          this.getClusters(join(configPath, "clusters"))
-        );
+        configs.manifest = this.readManifest(configPath);
+        const files = this.getConfigItems(configPath, [
+          "overlays/**",
+          ...ConfigDiscover.MANIFEST_FILES,
+        ]);
+        let routes = { items: files.routes, sources: files.routeSources };
+        let clusters = { items: files.clusters, sources: files.clusterSources };
+        let httpFilters = {
+          items: files.httpFilters,
+          sources: files.httpFilterSources,
+        };
+        let listeners = {
+          items: files.listeners,
+          sources: files.listenerSources,
+        };
+        let runtime = files.runtime;
+        let statsTags = files.statsTags;
+
+        // Expand the short form of the manifest ahead of the service's files
+        const shorthand = this.expandManifest(configPath, configs.manifest);
+        if (shorthand) {
+          routes = {
+            items: [...shorthand.routes, ...routes.items],
+            sources: [
+              ...shorthand.routes.map(() => ({ file: shorthand.file })),
+              ...routes.sources,
+            ],
+          };
+          clusters = {
+            items: [...shorthand.clusters, ...clusters.items],
+            sources: [
+              ...shorthand.clusters.map(() => ({ file: shorthand.file })),
+              ...clusters.sources,
+            ],
+          };
+        }
+
+        // Merge the overlays of the configured environment
+        const overlayPath = this.getOverlayFolder(configPath);
+        if (overlayPath) {
+          const overlay = this.getConfigItems(overlayPath);
+          routes = this.applyOverlay(routes, {
+            items: overlay.routes,
+            sources: overlay.routeSources,
+          });
+          clusters = this.applyOverlay(clusters, {
+            items: overlay.clusters,
+            sources: overlay.clusterSources,
+          });
+          httpFilters = this.applyOverlay(httpFilters, {
+            items: overlay.httpFilters,
+            sources: overlay.httpFilterSources,
+          });
+          listeners = this.applyOverlay(listeners, {
+            items: overlay.listeners,
+            sources: overlay.listenerSources,
+          });
+          const merged = ObjectTools.deepMerge(runtime, overlay.runtime);
+          if (ObjectTools.isPlainObject(merged)) runtime = merged;
+          statsTags = [
+            ...statsTags.filter(
+              (t) => !overlay.statsTags.some((o) => o.tag_name === t.tag_name)
+            ),
+            ...overlay.statsTags,
+          ];
+        }
+
+        configs.routes = routes.items;
+        configs.routeSources = routes.sources;
+        configs.clusters = clusters.items;
+        configs.clusterSources = clusters.sources;
+        configs.httpFilters = httpFilters.items;
+        configs.httpFilterSources = httpFilters.sources;
+        configs.listeners = listeners.items;
+        configs.listenerSources = listeners.sources;
+        if (Object.keys(runtime).length > 0) configs.runtime = runtime;
+        if (statsTags.length > 0) configs.statsTags = statsTags;
 
         // Check if any configurations were actually found
-        if (configs.routes.length > 0 || configs.clusters.length > 0) {
+        if (
+          configs.routes.length > 0 ||
+          configs.clusters.length > 0 ||
+          configs.httpFilters.length > 0 ||
+          configs.listeners.length > 0 ||
+          configs.runtime !== undefined ||
+          configs.statsTags !== undefined
+        ) {
           return configs;
         }
       }
@@ -169,28 +980,146 @@ export class ConfigDiscover {
    *
    * @public
    * @returns {ServiceConfg[]} An array of all discovered service configurations.
+   * @throws {PluginError} `BUILD_ABORTED` in strict mode if a folder or file could not be read, listing every one of them.
    */
   public collect(): ServiceConfg[] {
     const services: ServiceConfg[] = [];
+    this.readErrors = [];
 
     for (const fp of this.folderPaths) {
-      const service = this.findServiceConfigs(fp);
-      if (service) services.push(service);
+      this.currentService = fp;
+      try {
+        const service = this.findServiceConfigs(fp);
+        if (service) services.push(service);
+      } finally {
+        this.currentService = undefined;
+      }
     }
 
+    this.assertReadable(0);
     return services;
   }
 
   /**
-   * Get the base yaml configuration
+   * In strict mode, throws an error listing the read errors recorded since
+   * the given position, if there are any.
+   *
+   * @private
+   * @param {number} from - The number of read errors recorded before reading started.
+   * @returns {void} return void
+   * @throws {PluginError} `BUILD_ABORTED` if a folder or file could not be read.
+   */
+  private assertReadable(from: number): void {
+    const failures = this.readErrors.slice(from);
+    if (!this.options.strict || failures.length === 0) return;
+    throw PluginError.aggregate(
+      "BUILD_ABORTED",
+      "build aborted in strict mode",
+      failures
+    );
+  }
+
+  /**
+   * Returns the service files that could not be read or parsed during the
+   * last `collect`. Their routes and clusters are missing from the result.
+   *
+   * @public
+   * @returns {string[]} The paths of the unreadable files.
+   */
+  public getReadErrors(): string[] {
+    return this.readErrors.map((e) => e.file!);
+  }
+
+  /**
+   * Returns why each file listed by `getReadErrors` could not be read or
+   * parsed, with the service it belongs to.
+   *
+   * @public
+   * @returns {PluginError[]} The read errors.
+   */
+  public getReadFailures(): PluginError[] {
+    return [...this.readErrors];
+  }
+
+  /**
+   * Lists the directories whose changes affect the collected configuration:
+   * the directory of the base file (filtered to that file) and its overlay
+   * folder for the configured environment, and, for every service, its
+   * configuration folder and every folder below it.
+   *
+   * @public
+   * @returns {WatchTarget[]} The directories to watch, labelled with the service they belong to.
+   */
+  public getWatchTargets(): WatchTarget[] {
+    const targets: WatchTarget[] = [
+      {
+        service: "base",
+        path: dirname(this.baseConfigPath),
+        file: basename(this.baseConfigPath),
+      },
+    ];
+    const environment = this.options.environment;
+    if (environment) {
+      targets.push({
+        service: "base",
+        path: join(dirname(this.baseConfigPath), "overlays", environment),
+      });
+    }
+    for (const fp of this.folderPaths) {
+      const configPath = join(fp, this.configFolderName);
+      // Folders that can't be listed are reported by the build itself
+      const folders = FsTools.checkFolderExists(configPath)
+        ? FsTools.walkFolders(configPath, [], []).map((f) =>
+            join(configPath, f)
+          )
+        : [];
+      for (const path of [configPath, ...folders]) {
+        targets.push({ service: fp, path });
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Get the base yaml configuration, with the configuration files in the
+   * `overlays/<environment>/` folder next to it deep-merged into it in path
+   * order.
    *
    * @public
    * @returns {EnvoyConfig} an envoy configuration base/template
+   * @throws {PluginError} `BASE_CONFIG_NOT_FOUND` if the base file is missing or empty, `YAML_PARSE_ERROR` if it can't be parsed,
+   * or `BUILD_ABORTED` in strict mode if an overlay could not be read.
    */
   public collectBase(): EnvoyConfig {
-    const baseConfig = YamlTools.read_yaml(this.baseConfigPath);
+    let baseConfig: unknown = null;
+    try {
+      baseConfig = YamlTools.load_yaml(this.baseConfigPath);
+    } catch (e) {
+      const error = PluginError.from(e);
+      if (error.code !== "FILE_NOT_FOUND") throw error;
+    }
     if (!baseConfig)
-      throw Error("base envoy config not found at " + this.baseConfigPath);
-    return baseConfig as EnvoyConfig;
+      throw new PluginError(
+        "BASE_CONFIG_NOT_FOUND",
+        "base envoy config not found at " + this.baseConfigPath,
+        { file: this.baseConfigPath }
+      );
+    let config = this.interpolate(baseConfig, this.baseConfigPath);
+
+    const overlayPath = this.getOverlayFolder(dirname(this.baseConfigPath));
+    if (overlayPath) {
+      const failed = this.readErrors.length;
+      const unreadable: PluginError[] = [];
+      const files = FsTools.walkFiles(overlayPath, [], unreadable);
+      for (const error of unreadable) this.recordReadError(error, error.file!);
+      for (const f of files) {
+        if (!YamlTools.isConfigFile(f)) continue;
+        for (const overlay of this.readDocuments(join(overlayPath, f))) {
+          config = ObjectTools.deepMerge(config, overlay);
+        }
+      }
+      this.assertReadable(failed);
+    }
+    return config as EnvoyConfig;
   }
 }
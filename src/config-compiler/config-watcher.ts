@@ -0,0 +1,181 @@
+import * as fs from "node:fs";
+import { clearTimeout, setTimeout } from "node:timers";
+
+/**
+ * A directory to watch for configuration changes.
+ * @property {string} service - The service the directory belongs to ("base" for the base configuration).
+ * @property {string} path - The directory to watch.
+ * @property {string} [file] - Only react to changes of this file name within the directory.
+ */
+export type WatchTarget = {
+  service: string;
+  path: string;
+  file?: string;
+};
+
+/**
+ * The ConfigWatcher class watches configuration directories and calls a
+ * rebuild callback once a burst of changes has settled. Watched directories
+ * are refreshed after every rebuild, so folders created in the meantime are
+ * picked up.
+ *
+ * @export
+ * @class ConfigWatcher
+ */
+export class ConfigWatcher {
+  /**
+   * Returns the directories to watch.
+   * @private
+   * @type {() => WatchTarget[]}
+   */
+  private getTargets: () => WatchTarget[];
+
+  /**
+   * Called with the services whose files changed.
+   * @private
+   * @type {(services: string[]) => void}
+   */
+  private rebuild: (services: string[]) => void;
+
+  /**
+   * How long to wait for further changes before rebuilding, in milliseconds.
+   * @private
+   * @type {number}
+   */
+  private debounceMs: number;
+
+  /**
+   * The active file system watchers, keyed by watched directory.
+   * @private
+   * @type {Map<string, fs.FSWatcher>}
+   */
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+
+  /**
+   * Services changed since the last rebuild.
+   * @private
+   * @type {Set<string>}
+   */
+  private pending: Set<string> = new Set();
+
+  /**
+   * The pending debounce timer, if any.
+   * @private
+   * @type {(ReturnType<typeof setTimeout> | null)}
+   */
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates an instance of ConfigWatcher.
+   * @param {() => WatchTarget[]} getTargets - Returns the directories to watch.
+   * @param {(services: string[]) => void} rebuild - Called with the services whose files changed.
+   * @param {number} [debounceMs=300] - How long to wait for further changes before rebuilding.
+   */
+  constructor(
+    getTargets: () => WatchTarget[],
+    rebuild: (services: string[]) => void,
+    debounceMs: number = 300
+  ) {
+    this.getTargets = getTargets;
+    this.rebuild = rebuild;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Starts watching the current targets.
+   *
+   * @public
+   * @returns {number} The number of directories watched.
+   */
+  public start(): number {
+    this.refresh();
+    return this.watchers.size;
+  }
+
+  /**
+   * Stops watching and cancels any pending rebuild.
+   *
+   * @public
+   * @returns {void} return void
+   */
+  public close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    this.pending.clear();
+  }
+
+  /**
+   * Watches targets that aren't watched yet and stops watching directories
+   * that are no longer targets. Directories that don't exist are skipped.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private refresh(): void {
+    const targets = this.getTargets();
+    const paths = new Set(targets.map((t) => t.path));
+
+    for (const [path, watcher] of this.watchers) {
+      if (!paths.has(path)) {
+        watcher.close();
+        this.watchers.delete(path);
+      }
+    }
+
+    for (const path of paths) {
+      if (this.watchers.has(path) || !fs.existsSync(path)) continue;
+      const dirTargets = targets.filter((t) => t.path === path);
+      try {
+        const watcher = fs.watch(path, (_event, filename) => {
+          for (const target of dirTargets) {
+            if (!target.file || target.file === filename?.toString()) {
+              this.schedule(target.service);
+            }
+          }
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          this.watchers.delete(path);
+        });
+        this.watchers.set(path, watcher);
+      } catch (e) {
+        console.error(`Error watching '${path}': ${e}`);
+      }
+    }
+  }
+
+  /**
+   * Records a change and (re)starts the debounce timer.
+   *
+   * @private
+   * @param {string} service - The service whose files changed.
+   * @returns {void} return void
+   */
+  private schedule(service: string): void {
+    this.pending.add(service);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Calls the rebuild callback with the changed services, then refreshes the
+   * watched directories. Errors thrown by the callback are logged so that
+   * watching continues.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private flush(): void {
+    this.timer = null;
+    const services = [...this.pending];
+    this.pending.clear();
+    try {
+      this.rebuild(services);
+    } catch (e) {
+      console.error(`Rebuild failed: ${e instanceof Error ? e.message : e}`);
+    }
+    this.refresh();
+  }
+}
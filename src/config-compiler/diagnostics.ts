@@ -0,0 +1,100 @@
+import { PluginError } from "../utils";
+
+/**
+ * Severity of a diagnostic. Errors make the compiled configuration unusable,
+ * warnings point at likely mistakes.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A problem found while compiling or validating a configuration.
+ * @property {DiagnosticSeverity} severity - How serious the problem is.
+ * @property {string} code - A stable identifier for the kind of problem.
+ * @property {string} message - A human readable description.
+ * @property {string} [path] - Location of the problem in the configuration, e.g. `static_resources.clusters[users]`.
+ * @property {string} [service] - The service folder the problem comes from.
+ * @property {string} [file] - The file the problem comes from.
+ * @property {number} [line] - The line of the file the problem is on, starting at 1.
+ * @property {number} [column] - The column of the file the problem is on, starting at 1.
+ */
+export type Diagnostic = {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  path?: string;
+  service?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+};
+
+/**
+ * Helpers for reporting diagnostics.
+ *
+ * @export
+ * @class Diagnostics
+ */
+export class Diagnostics {
+  /**
+   * Formats a diagnostic as a single human readable line.
+   *
+   * @static
+   * @param {Diagnostic} diagnostic - The diagnostic to format.
+   * @returns {string} The formatted diagnostic, e.g. `error DANGLING_CLUSTER_REFERENCE at <path>: <message>`.
+   */
+  public static format(diagnostic: Diagnostic): string {
+    const where = diagnostic.path ?? diagnostic.file;
+    const location = where ? ` at ${where}` : "";
+    return `${diagnostic.severity} ${diagnostic.code}${location}: ${diagnostic.message}`;
+  }
+
+  /**
+   * Returns the diagnostics with severity `error`.
+   *
+   * @static
+   * @param {Diagnostic[]} diagnostics - The diagnostics to filter.
+   * @returns {Diagnostic[]} The error diagnostics.
+   */
+  public static errors(diagnostics: Diagnostic[]): Diagnostic[] {
+    return diagnostics.filter((d) => d.severity === "error");
+  }
+
+  /**
+   * Turns a thrown value into an error diagnostic carrying its plugin error
+   * code, file, service and location.
+   *
+   * @static
+   * @param {unknown} error - The thrown value.
+   * @returns {Diagnostic} The error diagnostic.
+   */
+  public static fromError(error: unknown): Diagnostic {
+    const pluginError = PluginError.from(error);
+    const diagnostic: Diagnostic = {
+      severity: "error",
+      code: pluginError.code,
+      message: pluginError.message,
+    };
+    if (pluginError.service !== undefined)
+      diagnostic.service = pluginError.service;
+    if (pluginError.file !== undefined) diagnostic.file = pluginError.file;
+    if (pluginError.line !== undefined) diagnostic.line = pluginError.line;
+    if (pluginError.column !== undefined)
+      diagnostic.column = pluginError.column;
+    return diagnostic;
+  }
+
+  /**
+   * Turns a thrown value into error diagnostics: one for each cause of an
+   * aggregated plugin error, or a single one otherwise.
+   *
+   * @static
+   * @param {unknown} error - The thrown value.
+   * @returns {Diagnostic[]} The error diagnostics.
+   */
+  public static fromErrors(error: unknown): Diagnostic[] {
+    const pluginError = PluginError.from(error);
+    if (pluginError.causes.length === 0)
+      return [Diagnostics.fromError(pluginError)];
+    return pluginError.causes.map((c) => Diagnostics.fromError(c));
+  }
+}
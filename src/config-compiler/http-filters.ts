@@ -0,0 +1,107 @@
+import { HTTPFilter, HttpFilterSource } from "../config-types";
+import { ObjectTools, PluginError } from "../utils";
+
+/**
+ * Where an HTTP filter is inserted, relative to another filter of the chain.
+ */
+export type FilterPosition = Pick<HttpFilterSource, "before" | "after">;
+
+/**
+ * The outcome of inserting an HTTP filter into a chain.
+ * @property {HTTPFilter[]} chain - The resulting filter chain.
+ * @property {"added" | "duplicate" | "conflict"} result - `added` if the filter was inserted, `duplicate` if the chain
+ * already had an identical filter with the same name, `conflict` if it had a different one.
+ * @property {string} [missing] - The filter named by the position, if the chain doesn't have it.
+ */
+export type FilterInsertion = {
+  chain: HTTPFilter[];
+  result: "added" | "duplicate" | "conflict";
+  missing?: string;
+};
+
+/**
+ * The HttpFilters class inserts HTTP filters contributed by services into
+ * the `http_filters` chain of an HttpConnectionManager. Filters are
+ * deduplicated by name, placed before or after another filter of the chain
+ * (by default, before the router) and the router filter always stays last,
+ * since Envoy ignores any filter after it.
+ *
+ * @export
+ * @class HttpFilters
+ */
+export class HttpFilters {
+  /**
+   * The name of the router filter, which must be the last filter of a chain.
+   * @static
+   * @type {string}
+   */
+  public static readonly ROUTER_NAME = "envoy.filters.http.router";
+
+  /**
+   * Inserts a filter into a chain. A filter whose name is already in the
+   * chain is not inserted again; the existing one is kept. Without a
+   * position, or if the filter named by the position is not in the chain,
+   * the filter goes right before the router.
+   *
+   * @static
+   * @param {HTTPFilter[]} chain - The filter chain; it is not modified.
+   * @param {HTTPFilter} filter - The filter to insert.
+   * @param {FilterPosition} [position={}] - The filter to insert it `before` or `after`.
+   * @returns {FilterInsertion} The new chain and whether the filter was added.
+   * @throws {PluginError} `INVALID_HTTP_FILTER_POSITION` if the position sets both `before` and `after`.
+   */
+  public static insert(
+    chain: HTTPFilter[],
+    filter: HTTPFilter,
+    position: FilterPosition = {}
+  ): FilterInsertion {
+    if (position.before !== undefined && position.after !== undefined)
+      throw new PluginError(
+        "INVALID_HTTP_FILTER_POSITION",
+        `http filter '${filter.name}' can't be positioned both before '${position.before}' and after '${position.after}'`
+      );
+
+    const existing = chain.find((f) => f.name === filter.name);
+    if (existing) {
+      return {
+        chain: [...chain],
+        result: ObjectTools.deepEqual(existing, filter)
+          ? "duplicate"
+          : "conflict",
+      };
+    }
+
+    const result: HTTPFilter[] = [...chain];
+    const anchor = position.before ?? position.after;
+    const anchorIndex =
+      anchor === undefined ? -1 : result.findIndex((f) => f.name === anchor);
+    const routerIndex = result.findIndex(
+      (f) => f.name === HttpFilters.ROUTER_NAME
+    );
+
+    let index = routerIndex === -1 ? result.length : routerIndex;
+    if (anchorIndex !== -1)
+      index = position.before !== undefined ? anchorIndex : anchorIndex + 1;
+    result.splice(index, 0, filter);
+
+    return {
+      chain: HttpFilters.routerLast(result),
+      result: "added",
+      missing: anchor !== undefined && anchorIndex === -1 ? anchor : undefined,
+    };
+  }
+
+  /**
+   * Moves the router filter to the end of a chain.
+   *
+   * @static
+   * @param {HTTPFilter[]} chain - The filter chain.
+   * @returns {HTTPFilter[]} The chain with the router last.
+   */
+  public static routerLast(chain: HTTPFilter[]): HTTPFilter[] {
+    return [
+      ...chain.filter((f) => f.name !== HttpFilters.ROUTER_NAME),
+      ...chain.filter((f) => f.name === HttpFilters.ROUTER_NAME),
+    ];
+  }
+}
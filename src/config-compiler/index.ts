@@ -1,2 +1,20 @@
+export * from "./bootstrap-merge";
+export * from "./cluster-namespacing";
 export * from "./compiler";
+export * from "./config-diff";
 export * from "./config-discovery";
+export * from "./config-watcher";
+export * from "./diagnostics";
+export * from "./http-filters";
+export * from "./interpolation";
+export * from "./policy-lint";
+export * from "./provenance";
+export * from "./route-conflicts";
+export * from "./route-ordering";
+export * from "./schema-validator";
+export * from "./service-mount";
+export * from "./service-scaffold";
+export * from "./service-shorthand";
+export * from "./upstream-tls";
+export * from "./validator";
+export * from "./xds-writer";
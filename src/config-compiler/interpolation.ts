@@ -0,0 +1,233 @@
+import * as yaml from "js-yaml";
+import { PluginError } from "../utils";
+
+/**
+ * A variable reference that had no value and no default.
+ * @property {string} name - The name of the variable.
+ * @property {string} file - The file the reference appears in.
+ * @property {string} path - The location of the value within the file, e.g. `clusters[0].connect_timeout`.
+ */
+export type UnresolvedVariable = {
+  name: string;
+  file: string;
+  path: string;
+};
+
+/**
+ * Matches `${VAR}`, `${VAR:-default}` and the escape `$${`.
+ */
+const VARIABLE_PATTERN = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Matches a string that consists of a single variable reference.
+ */
+const WHOLE_VARIABLE_PATTERN = /^\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}$/;
+
+/**
+ * The Interpolator class replaces `${VAR}` and `${VAR:-default}` references
+ * in the string values of parsed YAML files. A value that consists of a
+ * single reference is type-coerced, so `port_value: ${PORT}` becomes a
+ * number; references inside a longer string are substituted as text. `$${`
+ * produces a literal `${`. Keys are never interpolated.
+ *
+ * References without a value or default are recorded with their location
+ * instead of failing immediately, so every missing variable can be reported
+ * at once.
+ *
+ * @export
+ * @class Interpolator
+ */
+export class Interpolator {
+  /**
+   * The variable values.
+   * @private
+   * @type {Record<string, string>}
+   */
+  private vars: Record<string, string>;
+
+  /**
+   * References that couldn't be resolved so far.
+   * @private
+   * @type {UnresolvedVariable[]}
+   */
+  private unresolved: UnresolvedVariable[] = [];
+
+  /**
+   * Creates an instance of Interpolator.
+   * @param {Record<string, string>} vars - The variable values.
+   */
+  constructor(vars: Record<string, string>) {
+    this.vars = vars;
+  }
+
+  /**
+   * Merges variable sources into a single set of values. Later sources take
+   * precedence over earlier ones; `undefined` values are skipped and all
+   * other values are converted to strings.
+   *
+   * @static
+   * @param {...Record<string, unknown>[]} sources - The variable sources, lowest precedence first.
+   * @returns {Record<string, string>} The merged variable values.
+   */
+  public static mergeVars(
+    ...sources: Record<string, unknown>[]
+  ): Record<string, string> {
+    const vars: Record<string, string> = {};
+    for (const source of sources) {
+      for (const [name, value] of Object.entries(source)) {
+        if (value !== undefined && value !== null) vars[name] = String(value);
+      }
+    }
+    return vars;
+  }
+
+  /**
+   * Returns a copy of a parsed YAML document with every variable reference
+   * in its string values replaced.
+   *
+   * @public
+   * @param {unknown} value - The parsed document.
+   * @param {string} file - The file the document was read from, used to report unresolved variables.
+   * @returns {unknown} The interpolated document.
+   */
+  public interpolate(value: unknown, file: string): unknown {
+    return this.interpolateValue(value, file, "");
+  }
+
+  /**
+   * Returns the references that couldn't be resolved so far.
+   *
+   * @public
+   * @returns {UnresolvedVariable[]} The unresolved references, in the order they were found.
+   */
+  public getUnresolved(): UnresolvedVariable[] {
+    return [...this.unresolved];
+  }
+
+  /**
+   * Throws an error listing every unresolved reference, if there are any.
+   *
+   * @public
+   * @returns {void} return void
+   * @throws {PluginError} `UNRESOLVED_VARIABLES` if a reference couldn't be resolved.
+   */
+  public assertResolved(): void {
+    if (this.unresolved.length === 0) return;
+    throw new PluginError(
+      "UNRESOLVED_VARIABLES",
+      `unresolved variables:\n${this.unresolved
+        .map((u) => `  - ${u.name} at ${u.file}${u.path ? `: ${u.path}` : ""}`)
+        .join("\n")}`
+    );
+  }
+
+  /**
+   * Recursively interpolates a value.
+   *
+   * @private
+   * @param {unknown} value - The value to interpolate.
+   * @param {string} file - The file the value was read from.
+   * @param {string} path - The location of the value within the file.
+   * @returns {unknown} The interpolated value.
+   */
+  private interpolateValue(
+    value: unknown,
+    file: string,
+    path: string
+  ): unknown {
+    if (typeof value === "string")
+      return this.interpolateString(value, file, path);
+    if (Array.isArray(value)) {
+      return value.map((v, i) =>
+        this.interpolateValue(v, file, `${path}[${i}]`)
+      );
+    }
+    if (value && typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [key, v] of Object.entries(value)) {
+        result[key] = this.interpolateValue(
+          v,
+          file,
+          path ? `${path}.${key}` : key
+        );
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Interpolates a string value, coercing it if it consists of a single reference.
+   *
+   * @private
+   * @param {string} value - The string to interpolate.
+   * @param {string} file - The file the value was read from.
+   * @param {string} path - The location of the value within the file.
+   * @returns {unknown} The interpolated value.
+   */
+  private interpolateString(
+    value: string,
+    file: string,
+    path: string
+  ): unknown {
+    const whole = WHOLE_VARIABLE_PATTERN.exec(value);
+    if (whole) {
+      const resolved = this.resolve(whole[1], whole[2], file, path);
+      return resolved === undefined ? value : Interpolator.coerce(resolved);
+    }
+    return value.replace(
+      VARIABLE_PATTERN,
+      (match: string, name?: string, fallback?: string) => {
+        if (!name) return "${";
+        const resolved = this.resolve(name, fallback, file, path);
+        return resolved === undefined ? match : resolved;
+      }
+    );
+  }
+
+  /**
+   * Looks up a variable, falling back to the default of the reference and
+   * recording the reference as unresolved if neither exists.
+   *
+   * @private
+   * @param {string} name - The name of the variable.
+   * @param {(string | undefined)} fallback - The default of the reference, if any.
+   * @param {string} file - The file the reference appears in.
+   * @param {string} path - The location of the reference within the file.
+   * @returns {(string | undefined)} The value, or `undefined` if the variable is unresolved.
+   */
+  private resolve(
+    name: string,
+    fallback: string | undefined,
+    file: string,
+    path: string
+  ): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(this.vars, name))
+      return this.vars[name];
+    if (fallback !== undefined) return fallback;
+    this.unresolved.push({ name, file, path });
+    return undefined;
+  }
+
+  /**
+   * Converts a variable value to a number or boolean if it reads as one in
+   * YAML, so that it ends up with the same type as if it had been written
+   * into the file directly.
+   *
+   * @private
+   * @static
+   * @param {string} value - The variable value.
+   * @returns {(string | number | boolean)} The coerced value.
+   */
+  private static coerce(value: string): string | number | boolean {
+    try {
+      const parsed = yaml.load(value, { schema: yaml.CORE_SCHEMA });
+      if (typeof parsed === "number" || typeof parsed === "boolean") {
+        return parsed;
+      }
+    } catch {
+      // not a scalar, keep the string
+    }
+    return value;
+  }
+}
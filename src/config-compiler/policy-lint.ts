@@ -0,0 +1,515 @@
+import { Cluster, HealthCheck, Route, ServiceConfg } from "../config-types";
+import { ObjectTools, PluginError, YamlTools } from "../utils";
+import { Diagnostic, DiagnosticSeverity } from "./diagnostics";
+
+/**
+ * Identifies a built-in lint rule.
+ * - `cluster-health-checks`: every cluster has `health_checks`.
+ * - `cluster-connect-timeout`: `connect_timeout` is at most `max`.
+ * - `cluster-lb-policy`: `lb_policy` is one of `allow`.
+ * - `logical-dns-endpoints`: `LOGICAL_DNS` clusters have a single endpoint.
+ * - `health-check-timeout`: health checks time out before their next interval.
+ * - `route-timeout`: every route forwarding to a cluster sets a `timeout`.
+ */
+export type LintRuleId =
+  | "cluster-health-checks"
+  | "cluster-connect-timeout"
+  | "cluster-lb-policy"
+  | "logical-dns-endpoints"
+  | "health-check-timeout"
+  | "route-timeout";
+
+/**
+ * How a lint rule is reported: as a diagnostic of that severity, or not at all with `off`.
+ */
+export type LintSeverity = DiagnosticSeverity | "off";
+
+/**
+ * Describes a built-in lint rule.
+ * @property {LintRuleId} id - The id of the rule, used in the rules file and in suppressions.
+ * @property {string} code - The code of the diagnostics the rule reports.
+ * @property {"cluster" | "route" | "health_check"} target - What the rule checks.
+ * @property {string} description - What the rule requires.
+ * @property {Record<string, unknown>} options - The default values of the rule's options.
+ */
+export type LintRule = {
+  id: LintRuleId;
+  code: string;
+  target: "cluster" | "route" | "health_check";
+  description: string;
+  options: Record<string, unknown>;
+};
+
+/**
+ * The built-in lint rules, all reported as warnings unless the rules file says otherwise.
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "cluster-health-checks",
+    code: "MISSING_HEALTH_CHECKS",
+    target: "cluster",
+    description: "clusters must define health_checks",
+    options: {},
+  },
+  {
+    id: "cluster-connect-timeout",
+    code: "CONNECT_TIMEOUT_TOO_LONG",
+    target: "cluster",
+    description: "connect_timeout must not exceed the maximum",
+    options: { max: "5s" },
+  },
+  {
+    id: "cluster-lb-policy",
+    code: "LB_POLICY_NOT_ALLOWED",
+    target: "cluster",
+    description: "lb_policy must be one of the allowed policies",
+    options: { allow: ["ROUND_ROBIN", "LEAST_REQUEST"] },
+  },
+  {
+    id: "logical-dns-endpoints",
+    code: "LOGICAL_DNS_MULTIPLE_ENDPOINTS",
+    target: "cluster",
+    description: "LOGICAL_DNS clusters must have a single endpoint",
+    options: {},
+  },
+  {
+    id: "health-check-timeout",
+    code: "HEALTH_CHECK_TIMEOUT_TOO_LONG",
+    target: "health_check",
+    description: "health check timeouts must be shorter than their interval",
+    options: {},
+  },
+  {
+    id: "route-timeout",
+    code: "MISSING_ROUTE_TIMEOUT",
+    target: "route",
+    description: "routes forwarding to a cluster must set a timeout",
+    options: {},
+  },
+];
+
+/**
+ * How a lint rule is applied.
+ * @property {LintSeverity} severity - How violations are reported.
+ * @property {Record<string, unknown>} options - The rule's options, defaults included.
+ */
+export type LintRuleConfig = {
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+};
+
+/**
+ * The rules file: how each rule is applied. Rules that aren't listed are
+ * reported as warnings with their default options.
+ * @property {Partial<Record<LintRuleId, LintRuleConfig>>} rules - The configured rules.
+ */
+export type LintConfig = {
+  rules: Partial<Record<LintRuleId, LintRuleConfig>>;
+};
+
+/**
+ * A violation that a service suppressed, with the reason it gave.
+ * @property {string} justification - Why the service doesn't follow the rule.
+ * @property {LintRuleId} rule - The suppressed rule.
+ */
+export type SuppressedDiagnostic = Diagnostic & {
+  rule: LintRuleId;
+  justification: string;
+};
+
+/**
+ * The result of linting the services.
+ * @property {Diagnostic[]} diagnostics - The violations, plus warnings for suppressions of unknown rules.
+ * @property {SuppressedDiagnostic[]} suppressed - The violations the services suppressed.
+ */
+export type LintResult = {
+  diagnostics: Diagnostic[];
+  suppressed: SuppressedDiagnostic[];
+};
+
+/**
+ * The PolicyLint class checks the clusters, routes and health checks of
+ * every service against the built-in policy rules. The severity and options
+ * of each rule come from a rules file, and services can suppress a rule,
+ * optionally for a single cluster or route, with a justification in their
+ * manifest (`lint_suppressions`).
+ *
+ * @export
+ * @class PolicyLint
+ */
+export class PolicyLint {
+  /**
+   * How each rule is applied.
+   * @private
+   * @type {LintConfig}
+   */
+  private config: LintConfig;
+
+  /**
+   * Creates an instance of PolicyLint.
+   * @param {LintConfig} [config={ rules: {} }] - How each rule is applied.
+   */
+  constructor(config: LintConfig = { rules: {} }) {
+    this.config = config;
+  }
+
+  /**
+   * Returns the built-in rule with an id.
+   *
+   * @static
+   * @param {string} id - The id of the rule.
+   * @returns {(LintRule | undefined)} The rule, or undefined if there is none with that id.
+   */
+  public static getRule(id: string): LintRule | undefined {
+    return LINT_RULES.find((r) => r.id === id);
+  }
+
+  /**
+   * Reads and validates a rules file:
+   *
+   * ```yaml
+   * rules:
+   *   cluster-health-checks: error
+   *   cluster-connect-timeout: { severity: warning, max: 2s }
+   *   route-timeout: off
+   * ```
+   *
+   * @static
+   * @param {string} filePath - The YAML or JSON rules file.
+   * @returns {LintConfig} How each rule is applied.
+   * @throws {PluginError} `INVALID_LINT_CONFIG` if the file is invalid, or a read error if it can't be read.
+   */
+  public static loadConfig(filePath: string): LintConfig {
+    const contents = YamlTools.load_yaml(filePath);
+    if (!ObjectTools.isPlainObject(contents))
+      throw PolicyLint.invalidConfig(filePath, "expected a mapping");
+    for (const key of Object.keys(contents)) {
+      if (key !== "rules")
+        throw PolicyLint.invalidConfig(filePath, `unknown key '${key}'`);
+    }
+    if (contents.rules === undefined || contents.rules === null)
+      return { rules: {} };
+    if (!ObjectTools.isPlainObject(contents.rules))
+      throw PolicyLint.invalidConfig(filePath, "'rules' must be a mapping");
+
+    const config: LintConfig = { rules: {} };
+    for (const [id, value] of Object.entries(contents.rules)) {
+      const rule = PolicyLint.getRule(id);
+      if (!rule)
+        throw PolicyLint.invalidConfig(
+          filePath,
+          `unknown rule '${id}', expected one of ${LINT_RULES.map(
+            (r) => r.id
+          ).join(", ")}`
+        );
+      const settings = ObjectTools.isPlainObject(value)
+        ? value
+        : { severity: value };
+      const ruleConfig: LintRuleConfig = {
+        severity: "warning",
+        options: { ...rule.options },
+      };
+      for (const [key, option] of Object.entries(settings)) {
+        if (key === "severity") {
+          if (!["error", "warning", "off"].includes(option as string))
+            throw PolicyLint.invalidConfig(
+              filePath,
+              `'${id}' severity must be one of error, warning, off`
+            );
+          ruleConfig.severity = option as LintSeverity;
+        } else if (!(key in rule.options)) {
+          throw PolicyLint.invalidConfig(
+            filePath,
+            `unknown option '${key}' for rule '${id}'`
+          );
+        } else if (Array.isArray(rule.options[key])) {
+          if (
+            !Array.isArray(option) ||
+            option.some((o) => typeof o !== "string")
+          )
+            throw PolicyLint.invalidConfig(
+              filePath,
+              `'${id}.${key}' must be a list of strings`
+            );
+          ruleConfig.options[key] = option;
+        } else {
+          // String options are durations
+          if (PolicyLint.parseDuration(option) === null)
+            throw PolicyLint.invalidConfig(
+              filePath,
+              `'${id}.${key}' must be a duration like '5s'`
+            );
+          ruleConfig.options[key] = option;
+        }
+      }
+      config.rules[rule.id] = ruleConfig;
+    }
+    return config;
+  }
+
+  /**
+   * Creates the error for an invalid rules file.
+   *
+   * @private
+   * @static
+   * @param {string} filePath - The rules file.
+   * @param {string} problem - What is wrong with the file.
+   * @returns {PluginError} The `INVALID_LINT_CONFIG` error.
+   */
+  private static invalidConfig(filePath: string, problem: string): PluginError {
+    return new PluginError(
+      "INVALID_LINT_CONFIG",
+      `invalid lint rules file at ${filePath}: ${problem}`,
+      { file: filePath }
+    );
+  }
+
+  /**
+   * Parses a duration such as `5s`, `0.25s` or `250ms`.
+   *
+   * @static
+   * @param {unknown} value - The duration.
+   * @returns {(number | null)} The duration in seconds, or null if the value isn't a duration.
+   */
+  public static parseDuration(value: unknown): number | null {
+    if (typeof value !== "string") return null;
+    const match = /^(\d+(?:\.\d+)?)(ms|s)$/.exec(value.trim());
+    if (!match) return null;
+    const amount = Number(match[1]);
+    return match[2] === "ms" ? amount / 1000 : amount;
+  }
+
+  /**
+   * Checks the clusters, their health checks and the routes of every
+   * service against the enabled rules.
+   *
+   * @public
+   * @param {ServiceConfg[]} services - The services to lint.
+   * @returns {LintResult} The violations and the suppressed violations.
+   */
+  public lint(services: ServiceConfg[]): LintResult {
+    const result: LintResult = { diagnostics: [], suppressed: [] };
+    for (const service of services) {
+      const serviceName = service.path ?? "";
+      for (const suppression of service.manifest?.lint_suppressions ?? []) {
+        if (!PolicyLint.getRule(suppression.rule))
+          result.diagnostics.push({
+            severity: "warning",
+            code: "UNKNOWN_LINT_RULE",
+            message: `${serviceName} suppresses unknown lint rule '${suppression.rule}'`,
+            service: serviceName,
+          });
+      }
+
+      const violations: {
+        rule: LintRule;
+        target: string;
+        diagnostic: Diagnostic;
+      }[] = [];
+      service.clusters.forEach((cluster, index) => {
+        const file = service.clusterSources?.[index]?.file;
+        for (const rule of this.enabledRules("cluster")) {
+          const message = this.checkCluster(rule, cluster);
+          if (message)
+            violations.push({
+              rule,
+              target: cluster.name,
+              diagnostic: this.violation(rule, message, serviceName, file),
+            });
+        }
+        for (const rule of this.enabledRules("health_check")) {
+          (cluster.health_checks ?? []).forEach((healthCheck, check) => {
+            const message = this.checkHealthCheck(rule, healthCheck);
+            if (message)
+              violations.push({
+                rule,
+                target: cluster.name,
+                diagnostic: this.violation(
+                  rule,
+                  `cluster '${cluster.name}' health check ${
+                    check + 1
+                  }: ${message}`,
+                  serviceName,
+                  file
+                ),
+              });
+          });
+        }
+      });
+      service.routes.forEach((route, index) => {
+        const file = service.routeSources?.[index]?.file;
+        for (const rule of this.enabledRules("route")) {
+          const message = this.checkRoute(rule, route);
+          if (message)
+            violations.push({
+              rule,
+              target: route.name ?? "",
+              diagnostic: this.violation(rule, message, serviceName, file),
+            });
+        }
+      });
+
+      for (const { rule, target, diagnostic } of violations) {
+        const suppression = (service.manifest?.lint_suppressions ?? []).find(
+          (s) =>
+            s.rule === rule.id &&
+            (s.target === undefined || s.target === target)
+        );
+        if (suppression)
+          result.suppressed.push({
+            ...diagnostic,
+            rule: rule.id,
+            justification: suppression.justification,
+          });
+        else result.diagnostics.push(diagnostic);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the rules with a target that aren't turned off.
+   *
+   * @private
+   * @param {LintRule["target"]} target - What the rules check.
+   * @returns {LintRule[]} The enabled rules.
+   */
+  private enabledRules(target: LintRule["target"]): LintRule[] {
+    return LINT_RULES.filter(
+      (r) => r.target === target && this.ruleConfig(r).severity !== "off"
+    );
+  }
+
+  /**
+   * Returns how a rule is applied.
+   *
+   * @private
+   * @param {LintRule} rule - The rule.
+   * @returns {LintRuleConfig} The configured severity and options, or the defaults.
+   */
+  private ruleConfig(rule: LintRule): LintRuleConfig {
+    return (
+      this.config.rules[rule.id] ?? {
+        severity: "warning",
+        options: rule.options,
+      }
+    );
+  }
+
+  /**
+   * Builds the diagnostic for a violation.
+   *
+   * @private
+   * @param {LintRule} rule - The violated rule.
+   * @param {string} message - What is wrong.
+   * @param {string} service - The service folder.
+   * @param {(string | undefined)} file - The file the cluster or route was read from.
+   * @returns {Diagnostic} The diagnostic.
+   */
+  private violation(
+    rule: LintRule,
+    message: string,
+    service: string,
+    file: string | undefined
+  ): Diagnostic {
+    const diagnostic: Diagnostic = {
+      severity: this.ruleConfig(rule).severity as DiagnosticSeverity,
+      code: rule.code,
+      message: `${message} [${rule.id}]`,
+      service,
+    };
+    if (file) diagnostic.file = file;
+    return diagnostic;
+  }
+
+  /**
+   * Checks a cluster against a cluster rule.
+   *
+   * @private
+   * @param {LintRule} rule - The rule.
+   * @param {Cluster} cluster - The cluster.
+   * @returns {(string | null)} What is wrong, or null if the cluster follows the rule.
+   */
+  private checkCluster(rule: LintRule, cluster: Cluster): string | null {
+    const options = this.ruleConfig(rule).options;
+    const label = `cluster '${cluster.name}'`;
+    switch (rule.id) {
+      case "cluster-health-checks":
+        return cluster.health_checks?.length
+          ? null
+          : `${label} has no health_checks`;
+      case "cluster-connect-timeout": {
+        // Envoy defaults to 5s
+        const timeout = cluster.connect_timeout ?? "5s";
+        const seconds = PolicyLint.parseDuration(timeout);
+        if (seconds === null)
+          return `${label} has an invalid connect_timeout '${timeout}'`;
+        if (seconds <= PolicyLint.parseDuration(options.max)!) return null;
+        return cluster.connect_timeout === undefined
+          ? `${label} doesn't set connect_timeout, and Envoy's default of 5s exceeds the maximum of ${options.max}`
+          : `${label} sets connect_timeout to ${timeout}, more than the maximum of ${options.max}`;
+      }
+      case "cluster-lb-policy": {
+        const allowed = options.allow as string[];
+        const policy = cluster.lb_policy ?? "ROUND_ROBIN";
+        return allowed.includes(policy)
+          ? null
+          : `${label} uses lb_policy ${policy}, expected one of ${allowed.join(
+              ", "
+            )}`;
+      }
+      case "logical-dns-endpoints": {
+        if (cluster.type !== "LOGICAL_DNS") return null;
+        const endpoints = (cluster.load_assignment?.endpoints ?? []).reduce(
+          (count, locality) => count + (locality.lb_endpoints ?? []).length,
+          0
+        );
+        return endpoints > 1
+          ? `${label} is LOGICAL_DNS but has ${endpoints} endpoints, only the first one is used`
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Checks a health check against a health check rule.
+   *
+   * @private
+   * @param {LintRule} rule - The rule.
+   * @param {HealthCheck} healthCheck - The health check.
+   * @returns {(string | null)} What is wrong, or null if the health check follows the rule.
+   */
+  private checkHealthCheck(
+    rule: LintRule,
+    healthCheck: HealthCheck
+  ): string | null {
+    if (rule.id !== "health-check-timeout") return null;
+    const timeout = PolicyLint.parseDuration(healthCheck.timeout);
+    const interval = PolicyLint.parseDuration(healthCheck.interval);
+    if (timeout === null || interval === null)
+      return "timeout and interval must be durations like '1s'";
+    return timeout < interval
+      ? null
+      : `timeout ${healthCheck.timeout} isn't shorter than the interval ${healthCheck.interval}`;
+  }
+
+  /**
+   * Checks a route against a route rule.
+   *
+   * @private
+   * @param {LintRule} rule - The rule.
+   * @param {Route} route - The route.
+   * @returns {(string | null)} What is wrong, or null if the route follows the rule.
+   */
+  private checkRoute(rule: LintRule, route: Route): string | null {
+    if (rule.id !== "route-timeout" || !route.route) return null;
+    const label = route.name
+      ? `route '${route.name}'`
+      : `route ${ObjectTools.stableStringify(route.match)}`;
+    return route.route.timeout === undefined
+      ? `${label} doesn't set a timeout`
+      : null;
+  }
+}
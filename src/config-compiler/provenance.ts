@@ -0,0 +1,190 @@
+import {
+  Cluster,
+  EnvoyConfig,
+  Listener,
+  Route,
+  RouteMatch,
+} from "../config-types";
+import { EnvoyTools } from "../utils";
+import { RouteOrigin } from "./route-conflicts";
+
+/**
+ * The `filter_metadata` namespace the origin of routes and clusters is written to.
+ */
+export const PROVENANCE_METADATA_KEY = "odm.provenance";
+
+/**
+ * Identifies where a merged cluster came from.
+ * @property {string} service - The service folder (or "base" for the base configuration).
+ * @property {string} [file] - The file the cluster was read from, if known.
+ * @property {RouteOrigin[]} overwrote - The earlier definitions of a cluster with the same name it replaced, oldest first.
+ */
+export type ClusterOrigin = RouteOrigin & {
+  overwrote: RouteOrigin[];
+};
+
+/**
+ * The origin of a route of the compiled configuration.
+ * @property {string} listener - The name of the listener the route is in.
+ * @property {string} virtual_host - The name of the virtual host the route is in.
+ * @property {number} index - The position of the route in the virtual host.
+ * @property {string} [name] - The name of the route, if it has one.
+ * @property {RouteMatch} match - The match definition of the route.
+ */
+export type RouteProvenance = RouteOrigin & {
+  listener: string;
+  virtual_host: string;
+  index: number;
+  name?: string;
+  match: RouteMatch;
+};
+
+/**
+ * The origin of a cluster of the compiled configuration.
+ * @property {string} name - The name of the cluster.
+ */
+export type ClusterProvenance = ClusterOrigin & {
+  name: string;
+};
+
+/**
+ * Maps every route and cluster of a compiled configuration back to the
+ * service and file it came from.
+ * @property {RouteProvenance[]} routes - The routes, in listener and virtual host order.
+ * @property {ClusterProvenance[]} clusters - The clusters, in configuration order.
+ */
+export type ProvenanceManifest = {
+  routes: RouteProvenance[];
+  clusters: ClusterProvenance[];
+};
+
+/**
+ * The routes and clusters of a compiled configuration with their origin.
+ * @property {{ route: Route; provenance: RouteProvenance }[]} routes - Every route and its origin.
+ * @property {{ cluster: Cluster; provenance: ClusterProvenance }[]} clusters - Every cluster and its origin.
+ */
+export type ProvenanceTrace = {
+  routes: { route: Route; provenance: RouteProvenance }[];
+  clusters: { cluster: Cluster; provenance: ClusterProvenance }[];
+};
+
+/**
+ * The Provenance class maps the routes and clusters of a compiled
+ * configuration to the service and file each one came from, either as a
+ * manifest or as `metadata.filter_metadata` annotations in the configuration.
+ *
+ * @export
+ * @class Provenance
+ */
+export class Provenance {
+  /**
+   * Lists every route and cluster of a configuration with its origin.
+   *
+   * @static
+   * @param {EnvoyConfig} config - The compiled configuration.
+   * @param {(route: Route, listener: Listener) => RouteOrigin} routeOrigin - Returns the origin of a route in a listener.
+   * @param {(cluster: Cluster) => ClusterOrigin} clusterOrigin - Returns the origin of a cluster.
+   * @returns {ProvenanceTrace} The routes and clusters with their origin.
+   */
+  public static trace(
+    config: EnvoyConfig,
+    routeOrigin: (route: Route, listener: Listener) => RouteOrigin,
+    clusterOrigin: (cluster: Cluster) => ClusterOrigin
+  ): ProvenanceTrace {
+    const trace: ProvenanceTrace = { routes: [], clusters: [] };
+    for (const listener of config.static_resources?.listeners ?? []) {
+      const virtualHosts = EnvoyTools.getHttpConnectionManagers(
+        listener
+      ).flatMap((m) => EnvoyTools.getVirtualHosts(m));
+      for (const virtualHost of virtualHosts) {
+        (virtualHost.routes ?? []).forEach((route, index) => {
+          const provenance: RouteProvenance = {
+            listener: listener.name,
+            virtual_host: virtualHost.name,
+            index,
+            match: route.match,
+            ...routeOrigin(route, listener),
+          };
+          if (route.name) provenance.name = route.name;
+          trace.routes.push({ route, provenance });
+        });
+      }
+    }
+    for (const cluster of config.static_resources?.clusters ?? []) {
+      trace.clusters.push({
+        cluster,
+        provenance: { name: cluster.name, ...clusterOrigin(cluster) },
+      });
+    }
+    return trace;
+  }
+
+  /**
+   * Builds the manifest of a trace.
+   *
+   * @static
+   * @param {ProvenanceTrace} trace - The routes and clusters with their origin.
+   * @returns {ProvenanceManifest} The manifest.
+   */
+  public static manifest(trace: ProvenanceTrace): ProvenanceManifest {
+    return {
+      routes: trace.routes.map((r) => r.provenance),
+      clusters: trace.clusters.map((c) => c.provenance),
+    };
+  }
+
+  /**
+   * Writes the origin of every traced route and cluster to its
+   * `metadata.filter_metadata` under `PROVENANCE_METADATA_KEY`, keeping
+   * other metadata.
+   *
+   * @static
+   * @param {ProvenanceTrace} trace - The routes and clusters with their origin.
+   * @returns {void} return void
+   */
+  public static annotate(trace: ProvenanceTrace): void {
+    for (const { route, provenance } of trace.routes) {
+      Provenance.setMetadata(route, provenance);
+    }
+    for (const { cluster, provenance } of trace.clusters) {
+      Provenance.setMetadata(cluster, provenance);
+    }
+  }
+
+  /**
+   * Sets the provenance metadata of a route or cluster.
+   *
+   * @private
+   * @static
+   * @param {(Route | Cluster)} entity - The route or cluster, modified in place.
+   * @param {RouteOrigin & { overwrote?: RouteOrigin[] }} origin - Where it came from.
+   * @returns {void} return void
+   */
+  private static setMetadata(
+    entity: Route | Cluster,
+    origin: RouteOrigin & { overwrote?: RouteOrigin[] }
+  ): void {
+    const value: Record<string, unknown> = Provenance.origin(origin);
+    if (origin.overwrote?.length)
+      value.overwrote = origin.overwrote.map((o) => Provenance.origin(o));
+    entity.metadata ??= {};
+    entity.metadata.filter_metadata = {
+      ...entity.metadata.filter_metadata,
+      [PROVENANCE_METADATA_KEY]: value,
+    };
+  }
+
+  /**
+   * Copies an origin without its unknown fields, which can't be written to YAML.
+   *
+   * @private
+   * @static
+   * @param {RouteOrigin} origin - The origin.
+   * @returns {RouteOrigin} The copy.
+   */
+  private static origin(origin: RouteOrigin): RouteOrigin {
+    return origin.file === undefined
+      ? { service: origin.service }
+      : { service: origin.service, file: origin.file };
+  }
+}
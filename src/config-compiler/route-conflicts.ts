@@ -0,0 +1,137 @@
+import { RouteMatch } from "../config-types";
+import { ObjectTools } from "../utils";
+
+/**
+ * Defines how the compiler resolves two services claiming the same route match.
+ * - `error`: abort the build and report every conflict.
+ * - `warn`: keep both routes (the first one wins at runtime) and log a warning.
+ * - `first-wins`: keep the route that was merged first and drop the newcomer.
+ * - `last-wins`: replace the route that was merged first with the newcomer.
+ */
+export type ConflictPolicy = "error" | "warn" | "first-wins" | "last-wins";
+
+/**
+ * All supported conflict policies.
+ */
+export const CONFLICT_POLICIES: ConflictPolicy[] = [
+  "error",
+  "warn",
+  "first-wins",
+  "last-wins",
+];
+
+/**
+ * Identifies where a merged route came from.
+ * @property {string} service - The service folder (or "base" for the base configuration).
+ * @property {string} [file] - The file the route was read from, if known.
+ */
+export type RouteOrigin = {
+  service: string;
+  file?: string;
+};
+
+/**
+ * Describes a conflict between two routes with equivalent match definitions.
+ * @property {"duplicate" | "overlap"} kind - `duplicate` when both matches are identical,
+ * `overlap` when they only share the path specifier and header/query matchers.
+ * @property {RouteMatch} match - The match definition of the incoming route.
+ * @property {RouteOrigin} existing - Origin of the route that was merged first.
+ * @property {RouteOrigin} incoming - Origin of the route that caused the conflict.
+ * @property {ConflictPolicy} policy - The policy that was applied.
+ */
+export type RouteConflict = {
+  kind: "duplicate" | "overlap";
+  match: RouteMatch;
+  existing: RouteOrigin;
+  incoming: RouteOrigin;
+  policy: ConflictPolicy;
+};
+
+/**
+ * Helpers for detecting and describing route conflicts.
+ *
+ * @export
+ * @class RouteConflicts
+ */
+export class RouteConflicts {
+  /**
+   * Builds a key identifying the traffic a route match selects: the path
+   * specifier (`prefix`, `path`, `path_separated_prefix` or `safe_regex`)
+   * plus the header and query
+   * parameter matchers, independent of their order.
+   *
+   * @static
+   * @param {(RouteMatch | undefined)} match - The route match to build a key for.
+   * @returns {string} A key that is equal for two matches selecting the same traffic.
+   */
+  public static matchKey(match: RouteMatch | undefined): string {
+    const m = match ?? {};
+    return ObjectTools.stableStringify({
+      prefix: m.prefix,
+      path: m.path,
+      path_separated_prefix: m.path_separated_prefix,
+      safe_regex: m.safe_regex,
+      headers: (m.headers ?? [])
+        .map((h) => ObjectTools.stableStringify(h))
+        .sort(),
+      query_parameters: (m.query_parameters ?? [])
+        .map((q) => ObjectTools.stableStringify(q))
+        .sort(),
+    });
+  }
+
+  /**
+   * Checks whether two route matches conflict.
+   *
+   * @static
+   * @param {(RouteMatch | undefined)} a - The first route match.
+   * @param {(RouteMatch | undefined)} b - The second route match.
+   * @returns {("duplicate" | "overlap" | null)} The kind of conflict, or `null` if the matches don't conflict.
+   */
+  public static compare(
+    a: RouteMatch | undefined,
+    b: RouteMatch | undefined
+  ): "duplicate" | "overlap" | null {
+    if (RouteConflicts.matchKey(a) !== RouteConflicts.matchKey(b)) return null;
+    return ObjectTools.deepEqual(a ?? {}, b ?? {}) ? "duplicate" : "overlap";
+  }
+
+  /**
+   * Checks whether a value is a supported conflict policy.
+   *
+   * @static
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} `true` if the value is a `ConflictPolicy`.
+   */
+  public static isConflictPolicy(value: unknown): value is ConflictPolicy {
+    return CONFLICT_POLICIES.includes(value as ConflictPolicy);
+  }
+
+  /**
+   * Formats a conflict as a single human readable line.
+   *
+   * @static
+   * @param {RouteConflict} conflict - The conflict to describe.
+   * @returns {string} A description naming both services and files.
+   */
+  public static describe(conflict: RouteConflict): string {
+    return `${conflict.kind} route match ${ObjectTools.stableStringify(
+      conflict.match
+    )}: ${RouteConflicts.describeOrigin(
+      conflict.existing
+    )} conflicts with ${RouteConflicts.describeOrigin(conflict.incoming)} [${
+      conflict.policy
+    }]`;
+  }
+
+  /**
+   * Formats a route origin as `service (file)`.
+   *
+   * @static
+   * @param {RouteOrigin} origin - The origin to describe.
+   * @returns {string} The formatted origin.
+   */
+  public static describeOrigin(origin: RouteOrigin): string {
+    return origin.file ? `${origin.service} (${origin.file})` : origin.service;
+  }
+}
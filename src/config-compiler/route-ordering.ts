@@ -0,0 +1,172 @@
+import { Route } from "../config-types";
+
+/**
+ * Defines how the routes of a virtual host are ordered after merging.
+ * - `discovery`: routes keep the order in which they were merged.
+ * - `specificity`: routes are sorted from the most to the least specific match.
+ */
+export type RouteOrderingMode = "discovery" | "specificity";
+
+/**
+ * All supported route ordering modes.
+ */
+export const ROUTE_ORDERING_MODES: RouteOrderingMode[] = [
+  "discovery",
+  "specificity",
+];
+
+/**
+ * Helpers for ordering routes by match specificity.
+ *
+ * Routes are ordered by, in turn:
+ * 1. explicit priority (higher first, unset counts as 0),
+ * 2. path specifier: exact `path`, then `prefix` or `path_separated_prefix`,
+ * 3. length of the path or prefix (longer first),
+ * 4. number of header and query parameter matchers (more first).
+ * Ties keep their merge order. Regular expressions can't be compared with
+ * other matches, so `safe_regex` routes keep their position among the routes
+ * of the same priority, and are moved with an explicit priority.
+ *
+ * @export
+ * @class RouteOrdering
+ */
+export class RouteOrdering {
+  /**
+   * Ranks the path specifier of a route. Exact paths are more specific than
+   * prefixes, whether path separated or not; other specifiers rank last.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route to rank.
+   * @returns {number} The rank, higher is more specific.
+   */
+  private static specifierRank(route: Route): number {
+    const match = route.match ?? {};
+    if (match.path !== undefined) return 2;
+    if (match.prefix !== undefined) return 1;
+    if (match.path_separated_prefix !== undefined) return 1;
+    return 0;
+  }
+
+  /**
+   * Gets the path or prefix a route matches.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route.
+   * @returns {string} The `path`, `prefix` or `path_separated_prefix`, or an empty string if there is none.
+   */
+  private static pathOf(route: Route): string {
+    const match = route.match ?? {};
+    return match.path ?? match.prefix ?? match.path_separated_prefix ?? "";
+  }
+
+  /**
+   * Checks whether a route matches with a regular expression, which can't be
+   * ranked against other routes.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route to check.
+   * @returns {boolean} `true` if the route has a `safe_regex` match.
+   */
+  private static isRegex(route: Route): boolean {
+    return route.match?.safe_regex !== undefined;
+  }
+
+  /**
+   * Compares two routes by specificity.
+   *
+   * @static
+   * @param {Route} a - The first route.
+   * @param {Route} b - The second route.
+   * @param {number} [priorityA=0] - Explicit priority of the first route.
+   * @param {number} [priorityB=0] - Explicit priority of the second route.
+   * @returns {number} A negative number if `a` should be placed first, positive if `b` should, 0 for a tie.
+   */
+  public static compare(
+    a: Route,
+    b: Route,
+    priorityA: number = 0,
+    priorityB: number = 0
+  ): number {
+    if (priorityA !== priorityB) return priorityB - priorityA;
+
+    const rankA = RouteOrdering.specifierRank(a);
+    const rankB = RouteOrdering.specifierRank(b);
+    if (rankA !== rankB) return rankB - rankA;
+
+    const lengthA = RouteOrdering.pathOf(a).length;
+    const lengthB = RouteOrdering.pathOf(b).length;
+    if (lengthA !== lengthB) return lengthB - lengthA;
+
+    const constraintsA =
+      (a.match?.headers?.length ?? 0) +
+      (a.match?.query_parameters?.length ?? 0);
+    const constraintsB =
+      (b.match?.headers?.length ?? 0) +
+      (b.match?.query_parameters?.length ?? 0);
+    return constraintsB - constraintsA;
+  }
+
+  /**
+   * Sorts routes by specificity without modifying the input array.
+   * The sort is stable, so routes that compare equal keep their relative order.
+   * Routes are first ordered by priority; within each priority, `safe_regex`
+   * routes stay in place and the other routes are sorted around them.
+   *
+   * @static
+   * @param {Route[]} routes - The routes to sort.
+   * @param {(route: Route) => number | undefined} [priorityOf] - Returns the explicit priority of a route, if any.
+   * @returns {Route[]} A new array with the routes sorted from most to least specific.
+   */
+  public static sort(
+    routes: Route[],
+    priorityOf: (route: Route) => number | undefined = () => undefined
+  ): Route[] {
+    const entries = routes
+      .map((route, index) => ({
+        route,
+        index,
+        priority: priorityOf(route) ?? 0,
+      }))
+      .sort((x, y) => y.priority - x.priority || x.index - y.index);
+
+    const sorted: Route[] = [];
+    for (let start = 0, end = 0; start < entries.length; start = end) {
+      while (
+        end < entries.length &&
+        entries[end].priority === entries[start].priority
+      )
+        end++;
+      const group = entries.slice(start, end);
+      const ranked = group
+        .filter((entry) => !RouteOrdering.isRegex(entry.route))
+        .sort(
+          (x, y) => RouteOrdering.compare(x.route, y.route) || x.index - y.index
+        );
+      // regex routes keep their slot, the ranked routes fill the others
+      for (const entry of group) {
+        sorted.push(
+          RouteOrdering.isRegex(entry.route)
+            ? entry.route
+            : ranked.shift()!.route
+        );
+      }
+    }
+    return sorted;
+  }
+
+  /**
+   * Checks whether a value is a supported route ordering mode.
+   *
+   * @static
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} `true` if the value is a `RouteOrderingMode`.
+   */
+  public static isRouteOrderingMode(
+    value: unknown
+  ): value is RouteOrderingMode {
+    return ROUTE_ORDERING_MODES.includes(value as RouteOrderingMode);
+  }
+}
@@ -0,0 +1,676 @@
+import {
+  createFileRegistry,
+  DescEnum,
+  DescExtension,
+  DescField,
+  DescMessage,
+  DescOneof,
+  fromBinary,
+  getOption,
+  FileRegistry,
+  ScalarType,
+} from "@bufbuild/protobuf";
+import { base64Decode } from "@bufbuild/protobuf/wire";
+import { FileDescriptorSetSchema } from "@bufbuild/protobuf/wkt";
+import { ENVOY_API_DESCRIPTORS } from "../envoy-api/descriptors";
+import { Diagnostic } from "./diagnostics";
+
+/**
+ * Fully qualified names of the Envoy API messages configurations are
+ * usually checked against.
+ */
+export const ENVOY_API_MESSAGES = {
+  bootstrap: "envoy.config.bootstrap.v3.Bootstrap",
+  cluster: "envoy.config.cluster.v3.Cluster",
+  listener: "envoy.config.listener.v3.Listener",
+  routeConfiguration: "envoy.config.route.v3.RouteConfiguration",
+  route: "envoy.config.route.v3.Route",
+} as const;
+
+/**
+ * The `validate.rules` set on a field, as far as the schema validator
+ * checks them. Unset rules are absent.
+ */
+type FieldRules = {
+  message?: { required?: boolean };
+  type: { case?: string; value?: Record<string, unknown> };
+};
+
+/**
+ * Well-known types whose JSON form is a single scalar, mapped to the type of that scalar.
+ */
+const WRAPPERS: Record<string, ScalarType> = {
+  "google.protobuf.DoubleValue": ScalarType.DOUBLE,
+  "google.protobuf.FloatValue": ScalarType.FLOAT,
+  "google.protobuf.Int64Value": ScalarType.INT64,
+  "google.protobuf.UInt64Value": ScalarType.UINT64,
+  "google.protobuf.Int32Value": ScalarType.INT32,
+  "google.protobuf.UInt32Value": ScalarType.UINT32,
+  "google.protobuf.BoolValue": ScalarType.BOOL,
+  "google.protobuf.StringValue": ScalarType.STRING,
+  "google.protobuf.BytesValue": ScalarType.BYTES,
+};
+
+/**
+ * The SchemaValidator class checks configuration fragments against the
+ * Envoy v3 API protos vendored in `protos/`, the way Envoy parses them:
+ * unknown fields, values of the wrong type, unknown enum values, oneof
+ * groups with more than one member set and the `validate.rules` Envoy
+ * enforces (required fields and oneofs, minimum lengths and item counts,
+ * numeric and duration bounds). `typed_config` and other `Any` fields are
+ * checked against the message named by their `@type` URL.
+ *
+ * @export
+ * @class SchemaValidator
+ */
+export class SchemaValidator {
+  /**
+   * The Envoy API, loaded on first use.
+   * @private
+   * @static
+   * @type {(FileRegistry | null)}
+   */
+  private static registry: FileRegistry | null = null;
+
+  /**
+   * Diagnostics collected by the last validation.
+   * @private
+   * @type {Diagnostic[]}
+   */
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Returns the registry of the vendored Envoy API, loading it on first use.
+   *
+   * @private
+   * @static
+   * @returns {FileRegistry} The registry.
+   */
+  private static getRegistry(): FileRegistry {
+    SchemaValidator.registry ??= createFileRegistry(
+      fromBinary(FileDescriptorSetSchema, base64Decode(ENVOY_API_DESCRIPTORS))
+    );
+    return SchemaValidator.registry;
+  }
+
+  /**
+   * Checks a value against an Envoy API message.
+   *
+   * @public
+   * @param {unknown} value - The value, as read from the configuration.
+   * @param {string} typeName - The fully qualified name of the message, e.g. `envoy.config.cluster.v3.Cluster`.
+   * @param {string} path - Location of the value in the configuration, prefixed to the path of every diagnostic.
+   * @returns {Diagnostic[]} The problems found, with the path of the offending field.
+   * @throws {Error} If the message is not part of the vendored Envoy API.
+   */
+  public validate(
+    value: unknown,
+    typeName: string,
+    path: string
+  ): Diagnostic[] {
+    const message = SchemaValidator.getRegistry().getMessage(typeName);
+    if (!message)
+      throw new Error(`${typeName} is not part of the vendored Envoy API`);
+    this.diagnostics = [];
+    this.checkMessage(value, message, path);
+    return this.diagnostics;
+  }
+
+  /**
+   * Checks a value against a message: its fields, oneof groups and required fields.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {DescMessage} message - The message.
+   * @param {string} path - Location of the value.
+   * @returns {void} return void
+   */
+  private checkMessage(
+    value: unknown,
+    message: DescMessage,
+    path: string
+  ): void {
+    if (this.checkWellKnown(value, message, path)) return;
+    if (!this.isObject(value)) {
+      this.push(
+        "INVALID_FIELD",
+        `expected an object (${message.typeName})`,
+        path
+      );
+      return;
+    }
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const field = message.fields.find(
+        (f) => f.name === key || f.jsonName === key
+      );
+      if (!field) {
+        this.push(
+          "UNKNOWN_FIELD",
+          `unknown field '${key}' in ${message.typeName}`,
+          this.join(path, key)
+        );
+      } else if (fieldValue !== null && fieldValue !== undefined) {
+        this.checkField(fieldValue, field, this.join(path, key));
+      }
+    }
+
+    for (const oneof of message.oneofs) {
+      this.checkOneof(value, oneof, path);
+    }
+    // the rules of a oneof member only apply once it is the chosen one
+    for (const field of message.fields) {
+      if (!field.oneof && !this.isSet(value, field) && this.isRequired(field)) {
+        this.push(
+          "MISSING_FIELD",
+          `required field '${field.name}' is missing (${message.typeName})`,
+          this.join(path, field.name)
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the JSON forms of the well-known types that don't map to an
+   * object with the fields of the message.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {DescMessage} message - The message.
+   * @param {string} path - Location of the value.
+   * @returns {boolean} `true` if the message is such a well-known type and was checked.
+   */
+  private checkWellKnown(
+    value: unknown,
+    message: DescMessage,
+    path: string
+  ): boolean {
+    const wrapped = WRAPPERS[message.typeName];
+    if (wrapped !== undefined) {
+      this.checkScalar(value, wrapped, path);
+      return true;
+    }
+    switch (message.typeName) {
+      case "google.protobuf.Any":
+        this.checkAny(value, path);
+        return true;
+      case "google.protobuf.Duration":
+        if (this.parseDuration(value) === null)
+          this.push("INVALID_FIELD", "expected a duration like '5s'", path);
+        return true;
+      case "google.protobuf.Timestamp":
+      case "google.protobuf.FieldMask":
+        if (typeof value !== "string")
+          this.push("INVALID_FIELD", "expected a string", path);
+        return true;
+      case "google.protobuf.Struct":
+        if (!this.isObject(value))
+          this.push("INVALID_FIELD", "expected an object", path);
+        return true;
+      case "google.protobuf.ListValue":
+        if (!Array.isArray(value))
+          this.push("INVALID_FIELD", "expected a list", path);
+        return true;
+      case "google.protobuf.Value":
+        return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks an `Any` against the message named by its `@type` URL. Messages
+   * outside the vendored API can't be checked and are reported as a warning.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {string} path - Location of the value.
+   * @returns {void} return void
+   */
+  private checkAny(value: unknown, path: string): void {
+    if (!this.isObject(value)) {
+      this.push("INVALID_FIELD", "expected an object with an '@type'", path);
+      return;
+    }
+    const typeUrl = value["@type"];
+    if (typeof typeUrl !== "string") {
+      this.push(
+        typeUrl === undefined ? "MISSING_FIELD" : "INVALID_FIELD",
+        typeUrl === undefined
+          ? "required field '@type' is missing"
+          : "expected '@type' to be a type URL",
+        this.join(path, "@type")
+      );
+      return;
+    }
+    const typeName = typeUrl.slice(typeUrl.lastIndexOf("/") + 1);
+    const message = SchemaValidator.getRegistry().getMessage(typeName);
+    if (!message) {
+      this.diagnostics.push({
+        severity: "warning",
+        code: "UNKNOWN_TYPE_URL",
+        message: `'${typeUrl}' is not part of the vendored Envoy API, so it was not checked`,
+        path: this.join(path, "@type"),
+      });
+      return;
+    }
+    const fields = { ...value };
+    delete fields["@type"];
+    if (message.typeName.startsWith("google.protobuf.") && "value" in fields) {
+      this.checkMessage(fields.value, message, this.join(path, "value"));
+    } else {
+      this.checkMessage(fields, message, path);
+    }
+  }
+
+  /**
+   * Checks a set field: its type and its `validate.rules`.
+   *
+   * @private
+   * @param {unknown} value - The value of the field.
+   * @param {DescField} field - The field.
+   * @param {string} path - Location of the field.
+   * @returns {void} return void
+   */
+  private checkField(value: unknown, field: DescField, path: string): void {
+    const rules = this.getRules(field);
+    if (field.fieldKind === "list") {
+      if (!Array.isArray(value)) {
+        this.push("INVALID_FIELD", "expected a list", path);
+        return;
+      }
+      value.forEach((item, index) =>
+        this.checkElement(item, field, `${path}[${index}]`)
+      );
+      if (rules.type.case === "repeated")
+        this.checkBounds(value.length, rules.type.value, path, "items", [
+          "minItems",
+          "maxItems",
+        ]);
+      return;
+    }
+    if (field.fieldKind === "map") {
+      if (!this.isObject(value)) {
+        this.push("INVALID_FIELD", "expected an object", path);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        this.checkElement(item, field, this.join(path, key));
+      }
+      return;
+    }
+    this.checkElement(value, field, path);
+    this.checkRules(value, rules, path);
+  }
+
+  /**
+   * Checks a single value of a field, or an item of a list or map field.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {DescField} field - The field.
+   * @param {string} path - Location of the value.
+   * @returns {void} return void
+   */
+  private checkElement(value: unknown, field: DescField, path: string): void {
+    if (field.message) this.checkMessage(value, field.message, path);
+    else if (field.enum) this.checkEnum(value, field.enum, field, path);
+    else if (field.scalar !== undefined)
+      this.checkScalar(value, field.scalar, path);
+  }
+
+  /**
+   * Checks an enum value, given by name or number.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {DescEnum} desc - The enum.
+   * @param {DescField} field - The field holding the value.
+   * @param {string} path - Location of the value.
+   * @returns {void} return void
+   */
+  private checkEnum(
+    value: unknown,
+    desc: DescEnum,
+    field: DescField,
+    path: string
+  ): void {
+    const names = desc.values.map((v) => v.name);
+    if (typeof value === "string") {
+      if (!names.includes(value))
+        this.push(
+          "INVALID_FIELD",
+          `unknown value '${value}', expected one of ${names.join(", ")}`,
+          path
+        );
+      return;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      this.push("INVALID_FIELD", `expected one of ${names.join(", ")}`, path);
+      return;
+    }
+    const rules = this.getRules(field);
+    if (
+      rules.type.case === "enum" &&
+      rules.type.value?.definedOnly === true &&
+      !desc.values.some((v) => v.number === value)
+    )
+      this.push(
+        "INVALID_FIELD",
+        `unknown value ${value}, expected one of ${names.join(", ")}`,
+        path
+      );
+  }
+
+  /**
+   * Checks a scalar value. Integers and floats may also be given as strings,
+   * as in the JSON form of protobuf messages.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @param {ScalarType} scalar - The type of the scalar.
+   * @param {string} path - Location of the value.
+   * @returns {void} return void
+   */
+  private checkScalar(value: unknown, scalar: ScalarType, path: string): void {
+    switch (scalar) {
+      case ScalarType.STRING:
+      case ScalarType.BYTES:
+        if (typeof value !== "string")
+          this.push("INVALID_FIELD", "expected a string", path);
+        return;
+      case ScalarType.BOOL:
+        if (typeof value !== "boolean")
+          this.push("INVALID_FIELD", "expected a boolean", path);
+        return;
+      case ScalarType.DOUBLE:
+      case ScalarType.FLOAT:
+        if (
+          typeof value !== "number" &&
+          !(typeof value === "string" && !isNaN(Number(value)))
+        )
+          this.push("INVALID_FIELD", "expected a number", path);
+        return;
+    }
+    const number =
+      typeof value === "string" && /^-?\d+$/.test(value)
+        ? Number(value)
+        : value;
+    const unsigned = [
+      ScalarType.UINT32,
+      ScalarType.FIXED32,
+      ScalarType.UINT64,
+      ScalarType.FIXED64,
+    ].includes(scalar);
+    if (typeof number !== "number" || !Number.isInteger(number)) {
+      this.push("INVALID_FIELD", "expected an integer", path);
+    } else if (unsigned && number < 0) {
+      this.push("INVALID_FIELD", "expected a non-negative integer", path);
+    }
+  }
+
+  /**
+   * Checks the `validate.rules` of a set scalar, enum or message field that
+   * concern its value: string lengths and numeric and duration bounds.
+   *
+   * @private
+   * @param {unknown} value - The value of the field.
+   * @param {FieldRules} rules - The rules of the field.
+   * @param {string} path - Location of the field.
+   * @returns {void} return void
+   */
+  private checkRules(value: unknown, rules: FieldRules, path: string): void {
+    const { case: kind, value: bounds } = rules.type;
+    if (!kind || !bounds) return;
+    if (kind === "string" && typeof value === "string") {
+      this.checkBounds([...value].length, bounds, path, "characters", [
+        "minLen",
+        "maxLen",
+      ]);
+    } else if (kind === "duration") {
+      const seconds = this.parseDuration(value);
+      if (seconds !== null)
+        this.checkRange(seconds, bounds, path, (b) => this.durationSeconds(b));
+    } else if (
+      kind !== "enum" &&
+      kind !== "message" &&
+      (typeof value === "number" || typeof value === "string")
+    ) {
+      const number = Number(value);
+      if (!isNaN(number)) this.checkRange(number, bounds, path, Number);
+    }
+  }
+
+  /**
+   * Checks a length or count against the minimum and maximum of its rules.
+   *
+   * @private
+   * @param {number} count - The length or count.
+   * @param {Record<string, unknown>} bounds - The rules.
+   * @param {string} path - Location of the field.
+   * @param {string} unit - What is counted, for the message.
+   * @param {[string, string]} keys - The names of the minimum and maximum rules.
+   * @returns {void} return void
+   */
+  private checkBounds(
+    count: number,
+    bounds: Record<string, unknown> | undefined,
+    path: string,
+    unit: string,
+    [min, max]: [string, string]
+  ): void {
+    if (this.hasRule(bounds, min) && count < Number(bounds[min]))
+      this.push(
+        "INVALID_FIELD",
+        `expected at least ${Number(bounds[min])} ${unit}, got ${count}`,
+        path
+      );
+    if (this.hasRule(bounds, max) && count > Number(bounds[max]))
+      this.push(
+        "INVALID_FIELD",
+        `expected at most ${Number(bounds[max])} ${unit}, got ${count}`,
+        path
+      );
+  }
+
+  /**
+   * Checks a number against the `gt`, `gte`, `lt` and `lte` rules.
+   *
+   * @private
+   * @param {number} number - The number.
+   * @param {Record<string, unknown>} bounds - The rules.
+   * @param {string} path - Location of the field.
+   * @param {(bound: unknown) => number} toNumber - Turns a bound into a number.
+   * @returns {void} return void
+   */
+  private checkRange(
+    number: number,
+    bounds: Record<string, unknown>,
+    path: string,
+    toNumber: (bound: unknown) => number
+  ): void {
+    const checks: [string, string, (bound: number) => boolean][] = [
+      ["gt", "greater than", (b) => number > b],
+      ["gte", "at least", (b) => number >= b],
+      ["lt", "less than", (b) => number < b],
+      ["lte", "at most", (b) => number <= b],
+    ];
+    for (const [key, description, check] of checks) {
+      if (!this.hasRule(bounds, key)) continue;
+      const bound = toNumber(bounds[key]);
+      if (!check(bound))
+        this.push(
+          "INVALID_FIELD",
+          `expected a value ${description} ${bound}, got ${number}`,
+          path
+        );
+    }
+  }
+
+  /**
+   * Checks that at most one member of a oneof group is set, and exactly one
+   * if the group is required.
+   *
+   * @private
+   * @param {Record<string, unknown>} value - The message value.
+   * @param {DescOneof} oneof - The oneof group.
+   * @param {string} path - Location of the message.
+   * @returns {void} return void
+   */
+  private checkOneof(
+    value: Record<string, unknown>,
+    oneof: DescOneof,
+    path: string
+  ): void {
+    const set = oneof.fields.filter((f) => this.isSet(value, f));
+    const names = oneof.fields.map((f) => f.name);
+    if (set.length > 1) {
+      this.push(
+        "CONFLICTING_FIELDS",
+        `only one of ${set.map((f) => f.name).join(", ")} may be set`,
+        path
+      );
+    } else if (set.length === 0 && this.isRequiredOneof(oneof)) {
+      this.push(
+        "MISSING_FIELD",
+        `one of ${names.join(", ")} is required`,
+        path
+      );
+    }
+  }
+
+  /**
+   * Returns the `validate.rules` of a field.
+   *
+   * @private
+   * @param {DescField} field - The field.
+   * @returns {FieldRules} The rules, empty if it has none.
+   */
+  private getRules(field: DescField): FieldRules {
+    const extension = SchemaValidator.getRegistry().getExtension(
+      "validate.rules"
+    ) as DescExtension;
+    return getOption(field, extension) as unknown as FieldRules;
+  }
+
+  /**
+   * Tells whether the `validate.rules` of a field require it to be set.
+   *
+   * @private
+   * @param {DescField} field - The field.
+   * @returns {boolean} `true` if the field is required.
+   */
+  private isRequired(field: DescField): boolean {
+    const rules = this.getRules(field);
+    const { case: kind, value: bounds } = rules.type;
+    if (rules.message?.required) return true;
+    if (kind === "duration" || kind === "timestamp" || kind === "any")
+      return bounds?.required === true;
+    if (kind === "string" || kind === "bytes")
+      return Number(bounds?.minLen ?? 0) > 0;
+    if (kind === "repeated") return Number(bounds?.minItems ?? 0) > 0;
+    return false;
+  }
+
+  /**
+   * Tells whether a oneof group is marked `validate.required`.
+   *
+   * @private
+   * @param {DescOneof} oneof - The oneof group.
+   * @returns {boolean} `true` if one of its fields must be set.
+   */
+  private isRequiredOneof(oneof: DescOneof): boolean {
+    const extension = SchemaValidator.getRegistry().getExtension(
+      "validate.required"
+    ) as DescExtension;
+    return getOption(oneof, extension) === true;
+  }
+
+  /**
+   * Tells whether a rule is set. Unset rules only exist on the prototype of the rules message.
+   *
+   * @private
+   * @param {(Record<string, unknown> | undefined)} bounds - The rules.
+   * @param {string} key - The name of the rule.
+   * @returns {boolean} `true` if the rule is set.
+   */
+  private hasRule(
+    bounds: Record<string, unknown> | undefined,
+    key: string
+  ): bounds is Record<string, unknown> {
+    return !!bounds && Object.prototype.hasOwnProperty.call(bounds, key);
+  }
+
+  /**
+   * Tells whether a field is set in a message value, by its proto or JSON name.
+   *
+   * @private
+   * @param {Record<string, unknown>} value - The message value.
+   * @param {DescField} field - The field.
+   * @returns {boolean} `true` if the field is set.
+   */
+  private isSet(value: Record<string, unknown>, field: DescField): boolean {
+    const fieldValue = value[field.name] ?? value[field.jsonName];
+    return fieldValue !== undefined && fieldValue !== null;
+  }
+
+  /**
+   * Parses the JSON form of a `google.protobuf.Duration`, e.g. `1.5s`.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @returns {(number | null)} The duration in seconds, or `null` if the value isn't a duration.
+   */
+  private parseDuration(value: unknown): number | null {
+    if (typeof value !== "string" || !/^-?\d+(\.\d{1,9})?s$/.test(value))
+      return null;
+    return Number(value.slice(0, -1));
+  }
+
+  /**
+   * Converts a `google.protobuf.Duration` bound of a rule to seconds.
+   *
+   * @private
+   * @param {unknown} bound - The bound, with `seconds` and `nanos`.
+   * @returns {number} The bound in seconds.
+   */
+  private durationSeconds(bound: unknown): number {
+    const { seconds, nanos } = bound as { seconds: bigint; nanos: number };
+    return Number(seconds) + nanos / 1e9;
+  }
+
+  /**
+   * Tells whether a value is a plain object.
+   *
+   * @private
+   * @param {unknown} value - The value.
+   * @returns {boolean} `true` if it is an object and not a list.
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+
+  /**
+   * Appends a field name to a path.
+   *
+   * @private
+   * @param {string} path - The path.
+   * @param {string} key - The field name.
+   * @returns {string} The path of the field.
+   */
+  private join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  /**
+   * Records a schema error.
+   *
+   * @private
+   * @param {string} code - The diagnostic code.
+   * @param {string} message - The diagnostic message.
+   * @param {string} path - Location of the problem in the configuration.
+   * @returns {void} return void
+   */
+  private push(code: string, message: string, path: string): void {
+    this.diagnostics.push({ severity: "error", code, message, path });
+  }
+}
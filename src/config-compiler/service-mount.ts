@@ -0,0 +1,230 @@
+import { Route, RouteMatch, ServiceConfg } from "../config-types";
+import { ObjectTools } from "../utils";
+import { Diagnostic } from "./diagnostics";
+
+/**
+ * The ServiceMount class exposes a service's routes under the base path set
+ * by `mount` in its manifest. Every route match is prefixed with the mount
+ * path and, with `mount_rewrite`, the route action rewrites the path back
+ * so the upstream still sees the original one. Rewrites a route already
+ * sets are kept and reported instead of being overwritten, and so are routes
+ * whose match has no path specifier that can be mounted.
+ *
+ * @export
+ * @class ServiceMount
+ */
+export class ServiceMount {
+  /**
+   * Normalizes a mount path to a leading `/` and no trailing `/`.
+   *
+   * @static
+   * @param {string} mount - The mount path.
+   * @returns {string} The normalized mount path; an empty string for the root.
+   */
+  public static normalize(mount: string): string {
+    const trimmed = mount.trim().replace(/\/+$/, "");
+    if (!trimmed) return "";
+    return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+  }
+
+  /**
+   * Returns a copy of a service with its routes mounted, along with warnings
+   * for routes whose own rewrites prevented adding the mount rewrite.
+   * Services without a mount are returned unchanged.
+   *
+   * @static
+   * @param {ServiceConfg} service - The service to mount.
+   * @returns {{ service: ServiceConfg; diagnostics: Diagnostic[] }} The mounted service and the warnings.
+   */
+  public static apply(service: ServiceConfg): {
+    service: ServiceConfg;
+    diagnostics: Diagnostic[];
+  } {
+    const mount = ServiceMount.normalize(service.manifest?.mount ?? "");
+    if (!mount) return { service, diagnostics: [] };
+    const rewrite = service.manifest?.mount_rewrite === true;
+    const diagnostics: Diagnostic[] = [];
+
+    const routes = service.routes.map((route, index) => {
+      if (!ServiceMount.canMount(route.match)) {
+        diagnostics.push({
+          severity: "warning",
+          code: "MOUNT_UNSUPPORTED_MATCH",
+          message: `route ${ServiceMount.describe(
+            route
+          )} has no prefix, path, path_separated_prefix or safe_regex match, so it was not mounted at '${mount}'`,
+          service: service.path,
+          file: service.routeSources?.[index]?.file,
+        });
+        return route;
+      }
+      const mounted: Route = {
+        ...route,
+        match: ServiceMount.mountMatch(route.match, mount),
+      };
+      if (!rewrite || !route.route) return mounted;
+
+      const existing: string[] = [];
+      if (route.route.prefix_rewrite !== undefined)
+        existing.push("prefix_rewrite");
+      if (route.route.regex_rewrite !== undefined)
+        existing.push("regex_rewrite");
+      if (existing.length > 0) {
+        const fields = existing.join(" and ");
+        diagnostics.push({
+          severity: "warning",
+          code: "MOUNT_REWRITE_CONFLICT",
+          message: `route ${ServiceMount.describe(
+            route
+          )} already sets ${fields}, so the rewrite for mount '${mount}' was not added`,
+          service: service.path,
+          file: service.routeSources?.[index]?.file,
+        });
+        return mounted;
+      }
+      mounted.route = {
+        ...route.route,
+        ...ServiceMount.rewriteFor(route.match, mount),
+      };
+      return mounted;
+    });
+
+    return { service: { ...service, routes }, diagnostics };
+  }
+
+  /**
+   * Checks whether a route match has a path specifier that can be mounted.
+   *
+   * @private
+   * @static
+   * @param {RouteMatch} match - The route match.
+   * @returns {boolean} `true` if the match has a prefix, path, path separated prefix or regex.
+   */
+  private static canMount(match: RouteMatch): boolean {
+    return (
+      typeof match?.prefix === "string" ||
+      typeof match?.path === "string" ||
+      typeof match?.path_separated_prefix === "string" ||
+      typeof match?.safe_regex?.regex === "string"
+    );
+  }
+
+  /**
+   * Prefixes the path specifier of a route match with the mount path.
+   *
+   * @private
+   * @static
+   * @param {RouteMatch} match - The original route match.
+   * @param {string} mount - The normalized mount path.
+   * @returns {RouteMatch} The mounted route match.
+   */
+  private static mountMatch(match: RouteMatch, mount: string): RouteMatch {
+    const mounted: RouteMatch = { ...match };
+    // a root prefix covers the mount path itself and what is below it, but
+    // not the paths that only start with it, e.g. /api/users for /api/user
+    if (match.prefix === "/") {
+      delete mounted.prefix;
+      mounted.path_separated_prefix = mount;
+    } else if (typeof match.prefix === "string") {
+      mounted.prefix = ServiceMount.join(mount, match.prefix);
+    }
+    if (typeof match.path === "string")
+      mounted.path = ServiceMount.join(mount, match.path);
+    if (typeof match.path_separated_prefix === "string")
+      mounted.path_separated_prefix = ServiceMount.join(
+        mount,
+        match.path_separated_prefix
+      );
+    if (typeof match.safe_regex?.regex === "string") {
+      const regex = match.safe_regex.regex.replace(/^\^/, "");
+      mounted.safe_regex = {
+        ...match.safe_regex,
+        regex: `^${ServiceMount.escapeRegex(mount)}${regex}`,
+      };
+    }
+    return mounted;
+  }
+
+  /**
+   * Builds the rewrite that restores the original path of a mounted route:
+   * a `prefix_rewrite` to the original prefix or path, or a `regex_rewrite`
+   * stripping the mount path for regex matches and root prefixes, which
+   * match the mount path itself or followed by a `/`.
+   *
+   * @private
+   * @static
+   * @param {RouteMatch} match - The original route match.
+   * @param {string} mount - The normalized mount path.
+   * @returns {Pick<NonNullable<Route["route"]>, "prefix_rewrite" | "regex_rewrite">} The rewrite fields.
+   */
+  private static rewriteFor(
+    match: RouteMatch,
+    mount: string
+  ): Pick<NonNullable<Route["route"]>, "prefix_rewrite" | "regex_rewrite"> {
+    if (match.prefix === "/")
+      return {
+        regex_rewrite: {
+          pattern: {
+            regex: `^${ServiceMount.escapeRegex(mount)}(?:/(.*))?$`,
+          },
+          substitution: "/\\1",
+        },
+      };
+    if (typeof match.prefix === "string")
+      return { prefix_rewrite: match.prefix };
+    if (typeof match.path === "string") return { prefix_rewrite: match.path };
+    if (typeof match.path_separated_prefix === "string")
+      return { prefix_rewrite: match.path_separated_prefix };
+    return {
+      regex_rewrite: {
+        pattern: { regex: `^${ServiceMount.escapeRegex(mount)}(/.*)$` },
+        substitution: "\\1",
+      },
+    };
+  }
+
+  /**
+   * Joins the mount path and a route path.
+   *
+   * @private
+   * @static
+   * @param {string} mount - The normalized mount path.
+   * @param {string} path - The route path.
+   * @returns {string} The mounted path.
+   */
+  private static join(mount: string, path: string): string {
+    if (!path) return mount;
+    return path.startsWith("/") ? `${mount}${path}` : `${mount}/${path}`;
+  }
+
+  /**
+   * Escapes the characters of a path that have a meaning in RE2.
+   *
+   * @private
+   * @static
+   * @param {string} value - The path to escape.
+   * @returns {string} The escaped path.
+   */
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  /**
+   * Describes a route by name, or by its path specifier if it has none.
+   *
+   * @private
+   * @static
+   * @param {Route} route - The route to describe.
+   * @returns {string} The description.
+   */
+  private static describe(route: Route): string {
+    if (route.name) return `'${route.name}'`;
+    const m = route.match ?? {};
+    if (m.prefix !== undefined) return `with prefix '${m.prefix}'`;
+    if (m.path !== undefined) return `with path '${m.path}'`;
+    if (m.path_separated_prefix !== undefined)
+      return `with path separated prefix '${m.path_separated_prefix}'`;
+    if (m.safe_regex !== undefined) return `with regex '${m.safe_regex.regex}'`;
+    return `with match ${ObjectTools.stableStringify(m)}`;
+  }
+}
@@ -0,0 +1,161 @@
+import * as fs from "node:fs";
+import { dirname, join } from "node:path";
+import { Cluster, Route } from "../config-types";
+import { FsTools, YamlTools } from "../utils";
+import { ServiceShorthand, ShorthandService } from "./service-shorthand";
+
+/**
+ * Describes the service to scaffold.
+ * @property {string} servicePath - The top-level service folder.
+ * @property {string} serviceName - The service name, used for file and cluster names.
+ * @property {string} upstreamHost - Host name or address of the service's upstream.
+ * @property {number} upstreamPort - Port of the service's upstream.
+ * @property {string} pathPrefix - The route prefix the service is exposed under.
+ * @property {string} [folderName="envoy"] - The configuration subfolder, as passed to `ConfigDiscover`.
+ * @property {boolean} [force=false] - Overwrite files that already exist.
+ */
+export type ScaffoldOptions = {
+  servicePath: string;
+  serviceName: string;
+  upstreamHost: string;
+  upstreamPort: number;
+  pathPrefix: string;
+  folderName?: string;
+  force?: boolean;
+};
+
+/**
+ * The ServiceScaffold class creates the configuration folder of a new service,
+ * in the layout `ConfigDiscover` expects, with a starter route and cluster.
+ *
+ * @export
+ * @class ServiceScaffold
+ */
+export class ServiceScaffold {
+  /**
+   * The service to scaffold.
+   * @private
+   * @type {ScaffoldOptions}
+   */
+  private options: ScaffoldOptions;
+
+  /**
+   * Creates an instance of ServiceScaffold.
+   * @param {ScaffoldOptions} options - The service to scaffold.
+   * @throws {Error} If an option is missing or invalid.
+   */
+  constructor(options: ScaffoldOptions) {
+    if (!options.servicePath) throw new Error("service path is required");
+    if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(options.serviceName ?? ""))
+      throw new Error(
+        `invalid service name '${options.serviceName}', use letters, digits, '.', '_' and '-'`
+      );
+    if (!options.upstreamHost) throw new Error("upstream host is required");
+    if (
+      !Number.isInteger(options.upstreamPort) ||
+      options.upstreamPort < 1 ||
+      options.upstreamPort > 65535
+    )
+      throw new Error(`invalid upstream port '${options.upstreamPort}'`);
+    if (!options.pathPrefix?.startsWith("/"))
+      throw new Error(
+        `invalid path prefix '${options.pathPrefix}', it must start with '/'`
+      );
+    this.options = options;
+  }
+
+  /**
+   * Returns the name of the scaffolded cluster.
+   *
+   * @public
+   * @returns {string} The cluster name, `<service name>-cluster`.
+   */
+  public getClusterName(): string {
+    return ServiceShorthand.clusterName(this.options.serviceName);
+  }
+
+  /**
+   * Builds the starter files without writing them.
+   *
+   * @public
+   * @returns {{ path: string; content: object }[]} The files to write and their contents.
+   */
+  public getFiles(): { path: string; content: object }[] {
+    const configPath = join(
+      this.options.servicePath,
+      this.options.folderName ?? "envoy"
+    );
+    const name = this.options.serviceName;
+    return [
+      {
+        path: join(configPath, "routes", `${name}-routes.yaml`),
+        content: { routes: this.getRoutes() },
+      },
+      {
+        path: join(configPath, "clusters", `${name}-clusters.yaml`),
+        content: { clusters: this.getClusters() },
+      },
+    ];
+  }
+
+  /**
+   * Creates the configuration folders and writes the starter files.
+   *
+   * @public
+   * @returns {string[]} The paths of the files written.
+   * @throws {Error} If a file already exists and `force` is not set, or a folder can't be created.
+   * @throws {PluginError} `FILE_WRITE_FAILED` if a file can't be written.
+   */
+  public write(): string[] {
+    const files = this.getFiles();
+    const existing = files.filter((f) => fs.existsSync(f.path));
+    if (existing.length > 0 && !this.options.force)
+      throw new Error(
+        `refusing to overwrite existing files (use force to overwrite): ${existing
+          .map((f) => f.path)
+          .join(", ")}`
+      );
+
+    for (const file of files) {
+      const [message, failed] = FsTools.createFolder(dirname(file.path));
+      if (failed) throw new Error(message);
+      YamlTools.save_yaml(file.content, file.path);
+    }
+    return files.map((f) => f.path);
+  }
+
+  /**
+   * Builds the starter routes: the path prefix, routed to the service cluster.
+   *
+   * @private
+   * @returns {Route[]} The starter routes.
+   */
+  private getRoutes(): Route[] {
+    return ServiceShorthand.expand(this.getShorthand()).routes;
+  }
+
+  /**
+   * Builds the starter clusters: the upstream with timeouts and an HTTP health check.
+   *
+   * @private
+   * @returns {Cluster[]} The starter clusters.
+   */
+  private getClusters(): Cluster[] {
+    return ServiceShorthand.expand(this.getShorthand()).clusters;
+  }
+
+  /**
+   * Describes the scaffolded service in short form.
+   *
+   * @private
+   * @returns {ShorthandService} The short form of the service.
+   */
+  private getShorthand(): ShorthandService {
+    return {
+      name: this.options.serviceName,
+      upstream: `${this.options.upstreamHost}:${this.options.upstreamPort}`,
+      paths: [this.options.pathPrefix],
+      health: "/health",
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { Cluster, Route } from "../config-types";
+
+/**
+ * The short form of a service: a single upstream exposed under one or more
+ * path prefixes.
+ * @property {string} name - The service name, used for the cluster and route names.
+ * @property {string} upstream - The upstream as `host:port`.
+ * @property {string[]} paths - The path prefixes the service is exposed under.
+ * @property {string} [timeout="30s"] - The route timeout.
+ * @property {string} [health] - Path of the upstream's HTTP health check endpoint; no health check if omitted.
+ */
+export type ShorthandService = {
+  name: string;
+  upstream: string;
+  paths: string[];
+  timeout?: string;
+  health?: string;
+};
+
+/**
+ * The ServiceShorthand class expands the short form of a service into full
+ * `Cluster` and `Route` objects with sensible defaults: a `STRICT_DNS`,
+ * round robin cluster named `<name>-cluster` with a 5s connect timeout, and a
+ * route per path prefix with a 30s timeout.
+ *
+ * @export
+ * @class ServiceShorthand
+ */
+export class ServiceShorthand {
+  /**
+   * Parses an upstream written as `host:port`.
+   *
+   * @static
+   * @param {string} upstream - The upstream.
+   * @returns {{ host: string; port: number }} The host and port.
+   * @throws {Error} If the upstream has no host or an invalid port.
+   */
+  public static parseUpstream(upstream: string): {
+    host: string;
+    port: number;
+  } {
+    const separator = upstream.lastIndexOf(":");
+    const host = separator > 0 ? upstream.slice(0, separator) : "";
+    const port = Number(upstream.slice(separator + 1));
+    if (!host || !Number.isInteger(port) || port < 1 || port > 65535)
+      throw new Error(
+        `invalid upstream '${upstream}', expected 'host:port' with a port between 1 and 65535`
+      );
+    return { host, port };
+  }
+
+  /**
+   * Returns the name of the cluster of a service.
+   *
+   * @static
+   * @param {string} name - The service name.
+   * @returns {string} The cluster name, `<name>-cluster`.
+   */
+  public static clusterName(name: string): string {
+    return `${name}-cluster`;
+  }
+
+  /**
+   * Expands the short form of a service.
+   *
+   * @static
+   * @param {ShorthandService} service - The short form.
+   * @returns {{ clusters: Cluster[]; routes: Route[] }} The expanded clusters and routes.
+   * @throws {Error} If a field is missing or invalid.
+   */
+  public static expand(service: ShorthandService): {
+    clusters: Cluster[];
+    routes: Route[];
+  } {
+    if (!service.name) throw new Error("a service name is required");
+    if (
+      !Array.isArray(service.paths) ||
+      service.paths.length === 0 ||
+      service.paths.some((p) => typeof p !== "string" || !p.startsWith("/"))
+    )
+      throw new Error("'paths' must be a list of paths starting with '/'");
+    if (service.health !== undefined && !service.health.startsWith("/"))
+      throw new Error(
+        `invalid health path '${service.health}', it must start with '/'`
+      );
+
+    const { host, port } = ServiceShorthand.parseUpstream(service.upstream);
+    const name = ServiceShorthand.clusterName(service.name);
+    const cluster: Cluster = {
+      name,
+      type: "STRICT_DNS",
+      connect_timeout: "5s",
+      lb_policy: "ROUND_ROBIN",
+      load_assignment: {
+        cluster_name: name,
+        endpoints: [
+          {
+            lb_endpoints: [
+              {
+                endpoint: {
+                  address: {
+                    socket_address: { address: host, port_value: port },
+                  },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+    if (service.health !== undefined) {
+      cluster.health_checks = [
+        {
+          timeout: "5s",
+          interval: "10s",
+          unhealthy_threshold: 3,
+          healthy_threshold: 2,
+          http_health_check: { path: service.health },
+        },
+      ];
+    }
+
+    const routes: Route[] = service.paths.map((path, index) => ({
+      name:
+        service.paths.length === 1
+          ? `${service.name}-route`
+          : `${service.name}-route-${index + 1}`,
+      match: { prefix: path },
+      route: { cluster: name, timeout: service.timeout ?? "30s" },
+    }));
+
+    return { clusters: [cluster], routes };
+  }
+}
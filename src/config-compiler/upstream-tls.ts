@@ -0,0 +1,153 @@
+import { basename } from "node:path";
+import {
+  Cluster,
+  CommonTlsContext,
+  Secret,
+  ServiceConfg,
+  UpstreamTlsContext,
+} from "../config-types";
+import { FsTools } from "../utils";
+import { Diagnostic } from "./diagnostics";
+
+/**
+ * The UpstreamTls class turns the `tls` settings of a service manifest into
+ * a TLS `transport_socket` on each of the service's clusters. Client
+ * certificates and CA bundles given as files become secrets in
+ * `static_resources.secrets`, named `<service>-client-cert` and
+ * `<service>-ca`, which the transport sockets reference by name. A
+ * `secret` is referenced as is, with its SDS config source if it has one.
+ *
+ * @export
+ * @class UpstreamTls
+ */
+export class UpstreamTls {
+  /**
+   * The well-known name of the TLS transport socket.
+   * @static
+   * @type {string}
+   */
+  public static readonly TRANSPORT_SOCKET_NAME = "envoy.transport_sockets.tls";
+
+  /**
+   * The `@type` URL of the upstream TLS context.
+   * @static
+   * @type {string}
+   */
+  public static readonly UPSTREAM_TLS_CONTEXT_TYPE =
+    "type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.UpstreamTlsContext";
+
+  /**
+   * Returns the names of the secrets generated for a service.
+   *
+   * @static
+   * @param {string} name - The service name.
+   * @returns {{ certificate: string; validation: string }} The names of the client certificate and CA bundle secrets.
+   */
+  public static secretNames(name: string): {
+    certificate: string;
+    validation: string;
+  } {
+    return { certificate: `${name}-client-cert`, validation: `${name}-ca` };
+  }
+
+  /**
+   * Returns a copy of a service with a TLS transport socket on each of its
+   * clusters and the generated secrets added to its secrets, along with
+   * errors for certificate files that don't exist and warnings for clusters
+   * that already have a transport socket, which are left unchanged.
+   * Services without `tls` settings are returned unchanged.
+   *
+   * @static
+   * @param {ServiceConfg} service - The service to apply the TLS settings of.
+   * @returns {{ service: ServiceConfg; diagnostics: Diagnostic[] }} The updated service and the problems found.
+   */
+  public static apply(service: ServiceConfg): {
+    service: ServiceConfg;
+    diagnostics: Diagnostic[];
+  } {
+    const tls = service.manifest?.tls;
+    if (!tls) return { service, diagnostics: [] };
+    const diagnostics: Diagnostic[] = [];
+
+    const names = UpstreamTls.secretNames(
+      service.manifest?.name ?? basename(service.path ?? "service")
+    );
+    const locations = {
+      ca_file: `static_resources.secrets[${names.validation}].validation_context.trusted_ca.filename`,
+      cert_file: `static_resources.secrets[${names.certificate}].tls_certificate.certificate_chain.filename`,
+      key_file: `static_resources.secrets[${names.certificate}].tls_certificate.private_key.filename`,
+    };
+    for (const field of ["ca_file", "cert_file", "key_file"] as const) {
+      const file = tls[field];
+      if (file !== undefined && !FsTools.checkFileExists(file)) {
+        diagnostics.push({
+          severity: "error",
+          code: "TLS_FILE_NOT_FOUND",
+          message: `tls ${field} '${file}' does not exist`,
+          path: locations[field],
+          service: service.path,
+        });
+      }
+    }
+
+    const secrets: Secret[] = [];
+    const common: CommonTlsContext = {};
+    if (tls.cert_file !== undefined && tls.key_file !== undefined) {
+      secrets.push({
+        name: names.certificate,
+        tls_certificate: {
+          certificate_chain: { filename: tls.cert_file },
+          private_key: { filename: tls.key_file },
+        },
+      });
+      common.tls_certificate_sds_secret_configs = [{ name: names.certificate }];
+    } else if (tls.secret !== undefined) {
+      common.tls_certificate_sds_secret_configs = [
+        typeof tls.secret === "string" ? { name: tls.secret } : tls.secret,
+      ];
+    }
+    if (tls.ca_file !== undefined) {
+      secrets.push({
+        name: names.validation,
+        validation_context: { trusted_ca: { filename: tls.ca_file } },
+      });
+      common.validation_context_sds_secret_config = { name: names.validation };
+    }
+
+    const context: UpstreamTlsContext = {
+      "@type": UpstreamTls.UPSTREAM_TLS_CONTEXT_TYPE,
+    };
+    if (tls.sni !== undefined) context.sni = tls.sni;
+    if (Object.keys(common).length > 0) context.common_tls_context = common;
+
+    const clusters = service.clusters.map((cluster, index): Cluster => {
+      if (cluster.transport_socket === undefined) {
+        return {
+          ...cluster,
+          transport_socket: {
+            name: UpstreamTls.TRANSPORT_SOCKET_NAME,
+            typed_config: context,
+          },
+        };
+      }
+      diagnostics.push({
+        severity: "warning",
+        code: "TLS_TRANSPORT_SOCKET_CONFLICT",
+        message: `cluster '${cluster.name}' already sets a transport_socket, so the service's tls settings were not applied to it`,
+        path: `static_resources.clusters[${cluster.name}].transport_socket`,
+        service: service.path,
+        file: service.clusterSources?.[index]?.file,
+      });
+      return cluster;
+    });
+
+    return {
+      service: {
+        ...service,
+        clusters,
+        secrets: [...(service.secrets ?? []), ...secrets],
+      },
+      diagnostics,
+    };
+  }
+}
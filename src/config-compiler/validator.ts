@@ -0,0 +1,947 @@
+import {
+  Cluster,
+  EnvoyConfig,
+  Listener,
+  Route,
+  UpstreamTlsContext,
+} from "../config-types";
+import { EnvoyTools } from "../utils";
+import { Diagnostic } from "./diagnostics";
+
+/**
+ * The ConfigValidator class checks a compiled Envoy configuration for
+ * references that Envoy would reject or that are likely mistakes: routes
+ * pointing at clusters that don't exist, clusters nothing uses, load
+ * assignments naming another cluster, weighted clusters whose weights
+ * don't add up, transport sockets referencing unknown secrets, an invalid
+ * admin address, listeners binding the same port and per-route filter
+ * configs for filters missing from the HTTP filter chain.
+ *
+ * @export
+ * @class ConfigValidator
+ */
+export class ConfigValidator {
+  /**
+   * The configuration to validate.
+   * @private
+   * @type {EnvoyConfig}
+   */
+  private config: EnvoyConfig;
+
+  /**
+   * Diagnostics collected by the last validation.
+   * @private
+   * @type {Diagnostic[]}
+   */
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Creates an instance of ConfigValidator.
+   * @param {EnvoyConfig} config - The compiled Envoy configuration to validate.
+   */
+  constructor(config: EnvoyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Runs every check and returns the problems found.
+   *
+   * @public
+   * @returns {Diagnostic[]} The diagnostics, errors and warnings, in the order they were found.
+   */
+  public validate(): Diagnostic[] {
+    this.diagnostics = [];
+    const clusters = this.config.static_resources?.clusters ?? [];
+    const clusterNames = new Set(clusters.map((c) => c.name));
+    const referenced = new Set<string>();
+
+    for (const { path, route } of this.getRoutes()) {
+      this.checkRoute(route, path, clusterNames, referenced);
+    }
+    for (const listener of this.config.static_resources?.listeners ?? []) {
+      this.checkTcpProxies(listener, clusterNames, referenced);
+    }
+    for (const name of this.getFilterClusterReferences()) referenced.add(name);
+
+    const secretNames = new Set(
+      (this.config.static_resources?.secrets ?? []).map((s) => s.name)
+    );
+    clusters.forEach((cluster, index) => {
+      this.checkCluster(cluster, index, referenced);
+      this.checkSecretReferences(cluster, index, secretNames);
+    });
+    this.checkAdmin();
+    this.checkListenerPorts();
+    this.checkPerFilterConfigs();
+
+    return this.diagnostics;
+  }
+
+  /**
+   * Checks that the configuration has the shape described by the types in
+   * `config-types.d.ts`: required fields are present and have the expected
+   * type, and fields that are mutually exclusive in Envoy (e.g. a route's
+   * `prefix`, `path` and `safe_regex`) are set exactly once.
+   *
+   * @public
+   * @returns {Diagnostic[]} The structural problems found.
+   */
+  public validateStructure(): Diagnostic[] {
+    this.diagnostics = [];
+    const config = this.config as unknown as Record<string, unknown>;
+    if (!this.expectObject(config, "static_resources", "")) {
+      return this.diagnostics;
+    }
+    const resources = config.static_resources as Record<string, unknown>;
+    const path = "static_resources";
+
+    if (this.expectArray(resources, "listeners", path)) {
+      (resources.listeners as unknown[]).forEach((listener, index) => {
+        this.checkListenerStructure(listener, `${path}.listeners[${index}]`);
+      });
+    }
+    if (this.expectArray(resources, "clusters", path)) {
+      (resources.clusters as unknown[]).forEach((cluster, index) => {
+        this.checkClusterStructure(cluster, `${path}.clusters[${index}]`);
+      });
+    }
+    if (resources.secrets !== undefined) {
+      this.checkNamedList(resources, "secrets", path);
+    }
+    this.checkBootstrapStructure(config);
+    return this.diagnostics;
+  }
+
+  /**
+   * Checks the structure of the optional bootstrap sections outside
+   * `static_resources`: `admin`, `layered_runtime`, `stats_config`,
+   * `stats_sinks`, `tracing` and `overload_manager`.
+   *
+   * @private
+   * @param {Record<string, unknown>} config - The configuration.
+   * @returns {void} return void
+   */
+  private checkBootstrapStructure(config: Record<string, unknown>): void {
+    if (config.admin !== undefined && this.isObject(config.admin, "admin")) {
+      this.expectObject(config.admin, "address", "admin");
+    }
+    if (
+      config.layered_runtime !== undefined &&
+      this.isObject(config.layered_runtime, "layered_runtime")
+    ) {
+      this.checkNamedList(config.layered_runtime, "layers", "layered_runtime");
+    }
+    if (
+      config.stats_config !== undefined &&
+      this.isObject(config.stats_config, "stats_config") &&
+      config.stats_config.stats_tags !== undefined &&
+      this.expectArray(config.stats_config, "stats_tags", "stats_config")
+    ) {
+      (config.stats_config.stats_tags as unknown[]).forEach((tag, index) => {
+        const tagPath = `stats_config.stats_tags[${index}]`;
+        if (this.isObject(tag, tagPath))
+          this.expectString(tag, "tag_name", tagPath);
+      });
+    }
+    if (config.stats_sinks !== undefined) {
+      this.checkNamedList(config, "stats_sinks", "");
+    }
+    if (
+      config.tracing !== undefined &&
+      this.isObject(config.tracing, "tracing") &&
+      config.tracing.http !== undefined &&
+      this.expectObject(config.tracing, "http", "tracing")
+    ) {
+      this.expectString(
+        config.tracing.http as Record<string, unknown>,
+        "name",
+        "tracing.http"
+      );
+    }
+    if (
+      config.overload_manager !== undefined &&
+      this.isObject(config.overload_manager, "overload_manager")
+    ) {
+      this.checkNamedList(
+        config.overload_manager,
+        "resource_monitors",
+        "overload_manager"
+      );
+    }
+  }
+
+  /**
+   * Checks that a required field is an array of objects with a `name`.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {void} return void
+   */
+  private checkNamedList(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string
+  ): void {
+    if (!this.expectArray(parent, key, path)) return;
+    const listPath = path ? `${path}.${key}` : key;
+    (parent[key] as unknown[]).forEach((item, index) => {
+      const itemPath = `${listPath}[${index}]`;
+      if (this.isObject(item, itemPath))
+        this.expectString(item, "name", itemPath);
+    });
+  }
+
+  /**
+   * Checks the structure of a listener, its filter chains and the virtual
+   * hosts of its HTTP connection managers.
+   *
+   * @private
+   * @param {unknown} value - The listener to check.
+   * @param {string} path - Location of the listener in the configuration.
+   * @returns {void} return void
+   */
+  private checkListenerStructure(value: unknown, path: string): void {
+    if (!this.isObject(value, path)) return;
+    this.expectString(value, "name", path);
+    // internal listeners and listeners handed over by the OS have no address
+    if (value.address !== undefined) this.expectObject(value, "address", path);
+    if (!this.expectArray(value, "filter_chains", path)) return;
+
+    (value.filter_chains as unknown[]).forEach((chain, chainIndex) => {
+      const chainPath = `${path}.filter_chains[${chainIndex}]`;
+      if (!this.isObject(chain, chainPath)) return;
+      if (!this.expectArray(chain, "filters", chainPath)) return;
+
+      (chain.filters as unknown[]).forEach((filter, filterIndex) => {
+        const filterPath = `${chainPath}.filters[${filterIndex}]`;
+        if (!this.isObject(filter, filterPath)) return;
+        this.expectString(filter, "name", filterPath);
+        if (!EnvoyTools.isHttpConnectionManager(filter)) return;
+        const typedConfig = filter.typed_config as Record<string, unknown>;
+        if (!this.expectObject(filter, "typed_config", filterPath)) return;
+        const configPath = `${filterPath}.typed_config`;
+        if (typedConfig.route_config === undefined) return; // e.g. RDS
+        if (!this.expectObject(typedConfig, "route_config", configPath)) return;
+        const routeConfig = typedConfig.route_config as Record<string, unknown>;
+        const routeConfigPath = `${configPath}.route_config`;
+        if (!this.expectArray(routeConfig, "virtual_hosts", routeConfigPath))
+          return;
+
+        (routeConfig.virtual_hosts as unknown[]).forEach((host, hostIndex) => {
+          this.checkVirtualHostStructure(
+            host,
+            `${routeConfigPath}.virtual_hosts[${hostIndex}]`
+          );
+        });
+      });
+    });
+  }
+
+  /**
+   * Checks the structure of a virtual host and its routes.
+   *
+   * @private
+   * @param {unknown} value - The virtual host to check.
+   * @param {string} path - Location of the virtual host in the configuration.
+   * @returns {void} return void
+   */
+  private checkVirtualHostStructure(value: unknown, path: string): void {
+    if (!this.isObject(value, path)) return;
+    this.expectString(value, "name", path);
+    if (this.expectArray(value, "domains", path)) {
+      const domains = value.domains as unknown[];
+      if (domains.length === 0 || domains.some((d) => typeof d !== "string")) {
+        this.pushStructure(
+          "INVALID_FIELD",
+          "domains must be a non-empty list of strings",
+          `${path}.domains`
+        );
+      }
+    }
+    if (!this.expectArray(value, "routes", path)) return;
+
+    (value.routes as unknown[]).forEach((route, index) => {
+      this.checkRouteStructure(route, `${path}.routes[${index}]`);
+    });
+  }
+
+  /**
+   * Checks the structure of a route: its match and its single action.
+   *
+   * @private
+   * @param {unknown} value - The route to check.
+   * @param {string} path - Location of the route in the configuration.
+   * @returns {void} return void
+   */
+  private checkRouteStructure(value: unknown, path: string): void {
+    if (!this.isObject(value, path)) return;
+    if (this.expectObject(value, "match", path)) {
+      this.expectExactlyOne(
+        value.match as Record<string, unknown>,
+        [
+          "prefix",
+          "path",
+          "safe_regex",
+          "path_separated_prefix",
+          "connect_matcher",
+          "path_match_policy",
+        ],
+        `${path}.match`
+      );
+    }
+    this.expectExactlyOne(
+      value,
+      [
+        "route",
+        "redirect",
+        "direct_response",
+        "filter_action",
+        "non_forwarding_action",
+      ],
+      path
+    );
+    if (value.route !== undefined && this.expectObject(value, "route", path)) {
+      this.expectExactlyOne(
+        value.route as Record<string, unknown>,
+        [
+          "cluster",
+          "cluster_header",
+          "weighted_clusters",
+          "cluster_specifier_plugin",
+          "inline_cluster_specifier_plugin",
+        ],
+        `${path}.route`
+      );
+    }
+    if (
+      value.direct_response !== undefined &&
+      this.expectObject(value, "direct_response", path)
+    ) {
+      this.expectNumber(
+        value.direct_response as Record<string, unknown>,
+        "status",
+        `${path}.direct_response`
+      );
+    }
+  }
+
+  /**
+   * Checks the structure of a cluster, its load assignment and health checks.
+   *
+   * @private
+   * @param {unknown} value - The cluster to check.
+   * @param {string} path - Location of the cluster in the configuration.
+   * @returns {void} return void
+   */
+  private checkClusterStructure(value: unknown, path: string): void {
+    if (!this.isObject(value, path)) return;
+    this.expectString(value, "name", path);
+    // Envoy defaults to STATIC, and `cluster_type` replaces `type` for custom clusters
+    if (value.type !== undefined) this.expectString(value, "type", path);
+
+    if (
+      value.load_assignment !== undefined &&
+      this.expectObject(value, "load_assignment", path)
+    ) {
+      const assignment = value.load_assignment as Record<string, unknown>;
+      const assignmentPath = `${path}.load_assignment`;
+      this.expectString(assignment, "cluster_name", assignmentPath);
+      if (this.expectArray(assignment, "endpoints", assignmentPath)) {
+        (assignment.endpoints as unknown[]).forEach((locality, index) => {
+          const localityPath = `${assignmentPath}.endpoints[${index}]`;
+          if (!this.isObject(locality, localityPath)) return;
+          if (!this.expectArray(locality, "lb_endpoints", localityPath)) return;
+          (locality.lb_endpoints as unknown[]).forEach((lb, lbIndex) => {
+            const lbPath = `${localityPath}.lb_endpoints[${lbIndex}]`;
+            if (!this.isObject(lb, lbPath) || lb.endpoint === undefined) return;
+            if (!this.expectObject(lb, "endpoint", lbPath)) return;
+            const endpoint = lb.endpoint as Record<string, unknown>;
+            if (!this.expectObject(endpoint, "address", `${lbPath}.endpoint`))
+              return;
+            const address = endpoint.address as Record<string, unknown>;
+            const addressPath = `${lbPath}.endpoint.address`;
+            if (address.socket_address === undefined) return;
+            if (!this.expectObject(address, "socket_address", addressPath))
+              return;
+            const socket = address.socket_address as Record<string, unknown>;
+            this.expectString(
+              socket,
+              "address",
+              `${addressPath}.socket_address`
+            );
+          });
+        });
+      }
+    }
+
+    if (
+      value.health_checks !== undefined &&
+      this.expectArray(value, "health_checks", path)
+    ) {
+      (value.health_checks as unknown[]).forEach((check, index) => {
+        const checkPath = `${path}.health_checks[${index}]`;
+        if (!this.isObject(check, checkPath)) return;
+        this.expectString(check, "timeout", checkPath);
+        this.expectString(check, "interval", checkPath);
+      });
+    }
+  }
+
+  /**
+   * Checks that a value is a plain object, reporting it otherwise.
+   *
+   * @private
+   * @param {unknown} value - The value to check.
+   * @param {string} path - Location of the value in the configuration.
+   * @returns {boolean} `true` if the value is an object.
+   */
+  private isObject(
+    value: unknown,
+    path: string
+  ): value is Record<string, unknown> {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return true;
+    }
+    this.pushStructure("INVALID_FIELD", "expected an object", path);
+    return false;
+  }
+
+  /**
+   * Checks that a required field is present and passes a type check.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @param {string} expected - Description of the expected type.
+   * @param {(value: unknown) => boolean} check - The type check.
+   * @returns {boolean} `true` if the field is present and has the expected type.
+   */
+  private expectField(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string,
+    expected: string,
+    check: (value: unknown) => boolean
+  ): boolean {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (parent[key] === undefined || parent[key] === null) {
+      this.pushStructure(
+        "MISSING_FIELD",
+        `required field '${key}' is missing`,
+        fieldPath
+      );
+      return false;
+    }
+    if (!check(parent[key])) {
+      this.pushStructure("INVALID_FIELD", `expected ${expected}`, fieldPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Checks that a required field is a string.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {boolean} `true` if the field is a string.
+   */
+  private expectString(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string
+  ): boolean {
+    return this.expectField(
+      parent,
+      key,
+      path,
+      "a string",
+      (v) => typeof v === "string"
+    );
+  }
+
+  /**
+   * Checks that a required field is a number.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {boolean} `true` if the field is a number.
+   */
+  private expectNumber(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string
+  ): boolean {
+    return this.expectField(
+      parent,
+      key,
+      path,
+      "a number",
+      (v) => typeof v === "number"
+    );
+  }
+
+  /**
+   * Checks that a required field is an object.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {boolean} `true` if the field is an object.
+   */
+  private expectObject(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string
+  ): boolean {
+    return this.expectField(
+      parent,
+      key,
+      path,
+      "an object",
+      (v) => typeof v === "object" && !Array.isArray(v)
+    );
+  }
+
+  /**
+   * Checks that a required field is an array.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the field.
+   * @param {string} key - The name of the field.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {boolean} `true` if the field is an array.
+   */
+  private expectArray(
+    parent: Record<string, unknown>,
+    key: string,
+    path: string
+  ): boolean {
+    return this.expectField(parent, key, path, "a list", (v) =>
+      Array.isArray(v)
+    );
+  }
+
+  /**
+   * Checks that exactly one of a set of mutually exclusive fields is set.
+   *
+   * @private
+   * @param {Record<string, unknown>} parent - The object holding the fields.
+   * @param {string[]} keys - The mutually exclusive field names.
+   * @param {string} path - Location of the parent in the configuration.
+   * @returns {void} return void
+   */
+  private expectExactlyOne(
+    parent: Record<string, unknown>,
+    keys: string[],
+    path: string
+  ): void {
+    const present = keys.filter((k) => parent[k] !== undefined);
+    if (present.length === 1) return;
+    this.pushStructure(
+      present.length === 0 ? "MISSING_FIELD" : "CONFLICTING_FIELDS",
+      present.length === 0
+        ? `one of ${keys.join(", ")} is required`
+        : `only one of ${present.join(", ")} may be set`,
+      path
+    );
+  }
+
+  /**
+   * Records a structural error.
+   *
+   * @private
+   * @param {string} code - The diagnostic code.
+   * @param {string} message - The diagnostic message.
+   * @param {string} path - Location of the problem in the configuration.
+   * @returns {void} return void
+   */
+  private pushStructure(code: string, message: string, path: string): void {
+    this.diagnostics.push({ severity: "error", code, message, path });
+  }
+
+  /**
+   * Collects every route of every virtual host, with its location.
+   *
+   * @private
+   * @returns {{ path: string; route: Route }[]} The routes and their paths in the configuration.
+   */
+  private getRoutes(): { path: string; route: Route }[] {
+    const routes: { path: string; route: Route }[] = [];
+    for (const listener of this.config.static_resources?.listeners ?? []) {
+      for (const manager of EnvoyTools.getHttpConnectionManagers(listener)) {
+        for (const virtualHost of EnvoyTools.getVirtualHosts(manager)) {
+          (virtualHost.routes ?? []).forEach((route, index) => {
+            routes.push({
+              path: `static_resources.listeners[${listener.name}].virtual_hosts[${virtualHost.name}].routes[${index}]`,
+              route,
+            });
+          });
+        }
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Collects cluster names referenced from network and HTTP filter
+   * configurations (e.g. an ext_authz `server_uri.cluster`), so that
+   * those clusters aren't reported as orphaned.
+   *
+   * @private
+   * @returns {string[]} The referenced cluster names.
+   */
+  private getFilterClusterReferences(): string[] {
+    const names: string[] = [];
+    for (const listener of this.config.static_resources?.listeners ?? []) {
+      this.collectClusterNames(listener.filter_chains, names);
+    }
+    return names;
+  }
+
+  /**
+   * Recursively collects the string values of `cluster` keys, skipping inline
+   * route configurations since routes are checked separately.
+   *
+   * @private
+   * @param {unknown} value - The value to search.
+   * @param {string[]} names - Collects the cluster names found.
+   * @param {string} [key] - The key `value` was found under.
+   * @returns {void} return void
+   */
+  private collectClusterNames(
+    value: unknown,
+    names: string[],
+    key?: string
+  ): void {
+    if (key === "cluster" && typeof value === "string") names.push(value);
+    if (Array.isArray(value)) {
+      value.forEach((v) => this.collectClusterNames(v, names));
+    } else if (value && typeof value === "object") {
+      for (const [k, v] of Object.entries(value)) {
+        if (k !== "route_config") this.collectClusterNames(v, names, k);
+      }
+    }
+  }
+
+  /**
+   * Checks the cluster references of a single route.
+   *
+   * @private
+   * @param {Route} route - The route to check.
+   * @param {string} path - Location of the route in the configuration.
+   * @param {Set<string>} clusterNames - Names of all defined clusters.
+   * @param {Set<string>} referenced - Collects the cluster names referenced by routes.
+   * @returns {void} return void
+   */
+  private checkRoute(
+    route: Route,
+    path: string,
+    clusterNames: Set<string>,
+    referenced: Set<string>
+  ): void {
+    const action = route.route;
+    if (!action) return;
+
+    if (action.cluster !== undefined) {
+      referenced.add(action.cluster);
+      if (!clusterNames.has(action.cluster)) {
+        this.diagnostics.push({
+          severity: "error",
+          code: "DANGLING_CLUSTER_REFERENCE",
+          message: `route references unknown cluster '${action.cluster}'`,
+          path: `${path}.route.cluster`,
+        });
+      }
+    }
+
+    const weighted = action.weighted_clusters;
+    if (!weighted) return;
+    let total = 0;
+    (weighted.clusters ?? []).forEach((entry, index) => {
+      referenced.add(entry.name);
+      total += entry.weight ?? 0;
+      if (!clusterNames.has(entry.name)) {
+        this.diagnostics.push({
+          severity: "error",
+          code: "DANGLING_CLUSTER_REFERENCE",
+          message: `weighted cluster references unknown cluster '${entry.name}'`,
+          path: `${path}.route.weighted_clusters.clusters[${index}].name`,
+        });
+      }
+    });
+    if (
+      weighted.total_weight !== undefined &&
+      total !== weighted.total_weight
+    ) {
+      this.diagnostics.push({
+        severity: "error",
+        code: "WEIGHTED_CLUSTER_TOTAL_MISMATCH",
+        message: `weighted cluster weights add up to ${total}, expected total_weight ${weighted.total_weight}`,
+        path: `${path}.route.weighted_clusters`,
+      });
+    }
+  }
+
+  /**
+   * Checks the cluster references of the TCP proxies of a listener.
+   *
+   * @private
+   * @param {Listener} listener - The listener to check.
+   * @param {Set<string>} clusterNames - Names of all defined clusters.
+   * @param {Set<string>} referenced - Collects the cluster names referenced by TCP proxies.
+   * @returns {void} return void
+   */
+  private checkTcpProxies(
+    listener: Listener,
+    clusterNames: Set<string>,
+    referenced: Set<string>
+  ): void {
+    EnvoyTools.getTcpProxies(listener).forEach((proxy, index) => {
+      const path = `static_resources.listeners[${listener.name}].tcp_proxy[${index}]`;
+      const names: { name: string; path: string }[] = [];
+      if (proxy.cluster !== undefined)
+        names.push({ name: proxy.cluster, path: `${path}.cluster` });
+      (proxy.weighted_clusters?.clusters ?? []).forEach((entry, i) => {
+        names.push({
+          name: entry.name,
+          path: `${path}.weighted_clusters.clusters[${i}].name`,
+        });
+      });
+      for (const { name, path: namePath } of names) {
+        referenced.add(name);
+        if (clusterNames.has(name)) continue;
+        this.diagnostics.push({
+          severity: "error",
+          code: "DANGLING_CLUSTER_REFERENCE",
+          message: `tcp proxy references unknown cluster '${name}'`,
+          path: namePath,
+        });
+      }
+    });
+  }
+
+  /**
+   * Checks that no two listeners, or a listener and the admin interface,
+   * bind the same port and protocol on overlapping addresses. A wildcard
+   * address (`0.0.0.0` or `::`) overlaps every address of its IP version.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private checkListenerPorts(): void {
+    const bound: {
+      label: string;
+      address: string;
+      port: number;
+      protocol: string;
+    }[] = [];
+    const admin = this.config.admin?.address?.socket_address;
+    if (admin && typeof admin.port_value === "number") {
+      bound.push({
+        label: "the admin interface",
+        address: admin.address,
+        port: admin.port_value,
+        protocol: admin.protocol ?? "TCP",
+      });
+    }
+    for (const listener of this.config.static_resources?.listeners ?? []) {
+      const socket = listener.address?.socket_address;
+      if (!socket || typeof socket.port_value !== "number") continue;
+      const current = {
+        label: `listener '${listener.name}'`,
+        address: socket.address,
+        port: socket.port_value,
+        protocol: socket.protocol ?? "TCP",
+      };
+      const other = bound.find(
+        (b) =>
+          b.port === current.port &&
+          b.protocol === current.protocol &&
+          ConfigValidator.addressesOverlap(b.address, current.address)
+      );
+      if (other) {
+        this.diagnostics.push({
+          severity: "error",
+          code: "LISTENER_PORT_COLLISION",
+          message: `${current.label} binds ${current.address}:${current.port}, which ${other.label} already binds on ${other.address}:${other.port}`,
+          path: `static_resources.listeners[${listener.name}].address`,
+        });
+      }
+      bound.push(current);
+    }
+  }
+
+  /**
+   * Checks that the admin interface, if configured, has a socket address
+   * with a valid port or a pipe path.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private checkAdmin(): void {
+    const admin = this.config.admin;
+    if (!admin) return;
+    const socket = admin.address?.socket_address;
+    const port = socket?.port_value;
+    let problem: string | null = null;
+    if (admin.address?.pipe) {
+      if (
+        typeof admin.address.pipe.path !== "string" ||
+        !admin.address.pipe.path
+      )
+        problem = "admin pipe address has no path";
+    } else if (!socket) {
+      problem = "admin address must have a socket_address or a pipe";
+    } else if (typeof socket.address !== "string" || !socket.address) {
+      problem = "admin socket_address has no address";
+    } else if (
+      typeof port !== "number" ||
+      !Number.isInteger(port) ||
+      port < 0 ||
+      port > 65535
+    ) {
+      problem = `admin port ${JSON.stringify(
+        port
+      )} is not a port between 0 and 65535`;
+    }
+    if (problem) {
+      this.diagnostics.push({
+        severity: "error",
+        code: "INVALID_ADMIN_ADDRESS",
+        message: problem,
+        path: "admin.address",
+      });
+    }
+  }
+
+  /**
+   * Checks whether two listener addresses overlap.
+   *
+   * @private
+   * @static
+   * @param {string} a - The first address.
+   * @param {string} b - The second address.
+   * @returns {boolean} `true` if the addresses are equal or one is the wildcard address of the other's IP version.
+   */
+  private static addressesOverlap(a: string, b: string): boolean {
+    if (a === b) return true;
+    const wildcards = ["0.0.0.0", "::"];
+    const sameVersion = a.includes(":") === b.includes(":");
+    return sameVersion && (wildcards.includes(a) || wildcards.includes(b));
+  }
+
+  /**
+   * Checks that the `typed_per_filter_config` of every route only names
+   * filters in the HTTP filter chain of its connection manager, since Envoy
+   * silently ignores the config of a filter that isn't in the chain.
+   *
+   * @private
+   * @returns {void} return void
+   */
+  private checkPerFilterConfigs(): void {
+    for (const listener of this.config.static_resources?.listeners ?? []) {
+      for (const manager of EnvoyTools.getHttpConnectionManagers(listener)) {
+        const filters = new Set(
+          (manager.http_filters ?? []).map((filter) => filter.name)
+        );
+        for (const virtualHost of EnvoyTools.getVirtualHosts(manager)) {
+          (virtualHost.routes ?? []).forEach((route, index) => {
+            for (const name of Object.keys(
+              route.typed_per_filter_config ?? {}
+            )) {
+              if (filters.has(name)) continue;
+              this.diagnostics.push({
+                severity: "warning",
+                code: "UNKNOWN_PER_FILTER_CONFIG",
+                message: `route configures http filter '${name}', which is not in the http filter chain`,
+                path: `static_resources.listeners[${listener.name}].virtual_hosts[${virtualHost.name}].routes[${index}].typed_per_filter_config.${name}`,
+              });
+            }
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks that the secrets a cluster's TLS transport socket references by
+   * name, without an SDS config source, exist in `static_resources.secrets`.
+   *
+   * @private
+   * @param {Cluster} cluster - The cluster to check.
+   * @param {number} index - Position of the cluster in `static_resources.clusters`.
+   * @param {Set<string>} secretNames - Names of all static secrets.
+   * @returns {void} return void
+   */
+  private checkSecretReferences(
+    cluster: Cluster,
+    index: number,
+    secretNames: Set<string>
+  ): void {
+    const context = cluster.transport_socket?.typed_config as
+      | UpstreamTlsContext
+      | undefined;
+    const common = context?.common_tls_context;
+    if (!common) return;
+    const references = [
+      ...(common.tls_certificate_sds_secret_configs ?? []),
+      ...(common.validation_context_sds_secret_config
+        ? [common.validation_context_sds_secret_config]
+        : []),
+    ];
+    for (const reference of references) {
+      if (reference.sds_config || secretNames.has(reference.name)) continue;
+      this.diagnostics.push({
+        severity: "error",
+        code: "UNKNOWN_SECRET",
+        message: `cluster '${cluster.name}' references unknown secret '${reference.name}'`,
+        path: `static_resources.clusters[${
+          cluster.name ?? index
+        }].transport_socket`,
+      });
+    }
+  }
+
+  /**
+   * Checks a single cluster for a mismatched load assignment and for not being used.
+   *
+   * @private
+   * @param {Cluster} cluster - The cluster to check.
+   * @param {number} index - Position of the cluster in `static_resources.clusters`.
+   * @param {Set<string>} referenced - Cluster names referenced anywhere in the configuration.
+   * @returns {void} return void
+   */
+  private checkCluster(
+    cluster: Cluster,
+    index: number,
+    referenced: Set<string>
+  ): void {
+    const path = `static_resources.clusters[${cluster.name ?? index}]`;
+    const assignment = cluster.load_assignment;
+    if (assignment && assignment.cluster_name !== cluster.name) {
+      this.diagnostics.push({
+        severity: "error",
+        code: "LOAD_ASSIGNMENT_NAME_MISMATCH",
+        message: `load_assignment.cluster_name '${assignment.cluster_name}' does not match cluster name '${cluster.name}'`,
+        path: `${path}.load_assignment.cluster_name`,
+      });
+    }
+    if (!referenced.has(cluster.name)) {
+      this.diagnostics.push({
+        severity: "warning",
+        code: "ORPHANED_CLUSTER",
+        message: `cluster '${cluster.name}' is not referenced by any route or filter`,
+        path,
+      });
+    }
+  }
+}
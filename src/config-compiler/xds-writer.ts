@@ -0,0 +1,332 @@
+import { dirname, join, resolve } from "node:path";
+import {
+  Cluster,
+  ConfigSource,
+  EnvoyConfig,
+  HttpConnectionManagerTypedConfig,
+  Listener,
+  RouteConfig,
+} from "../config-types";
+import {
+  EnvoyTools,
+  FsTools,
+  ObjectTools,
+  PluginError,
+  YamlTools,
+} from "../utils";
+
+/**
+ * Options controlling the split xDS output.
+ * @property {string} bootstrapPath - Where the bootstrap file is written. Resource files are written next to it.
+ * @property {boolean} [rds=false] - Also move inline route configurations to an RDS file.
+ * @property {string} [xdsPath] - The directory holding the resource files as seen by Envoy.
+ * Defaults to the absolute directory of `bootstrapPath`.
+ * @property {boolean} [strict=false] - Stop at the first file that can't be written instead of logging it and writing the others.
+ */
+export type XdsOptions = {
+  bootstrapPath: string;
+  rds?: boolean;
+  xdsPath?: string;
+  strict?: boolean;
+};
+
+/**
+ * The `@type` URLs of the resources written to the xDS files.
+ */
+export const XDS_RESOURCE_TYPES = {
+  cluster: "type.googleapis.com/envoy.config.cluster.v3.Cluster",
+  listener: "type.googleapis.com/envoy.config.listener.v3.Listener",
+  routeConfiguration:
+    "type.googleapis.com/envoy.config.route.v3.RouteConfiguration",
+};
+
+/**
+ * The XdsWriter class writes a compiled configuration for Envoy's filesystem
+ * `path_config_source` dynamic configuration: a small bootstrap with
+ * `dynamic_resources`, plus `cds.yaml`, `lds.yaml` and optionally `rds.yaml`
+ * holding the clusters, listeners and route configurations as typed resources.
+ * Envoy reloads these files without a restart.
+ *
+ * @export
+ * @class XdsWriter
+ */
+export class XdsWriter {
+  /**
+   * The compiled configuration.
+   * @private
+   * @type {EnvoyConfig}
+   */
+  private config: EnvoyConfig;
+
+  /**
+   * Options controlling the output.
+   * @private
+   * @type {XdsOptions}
+   */
+  private options: XdsOptions;
+
+  /**
+   * Creates an instance of XdsWriter.
+   * @param {EnvoyConfig} config - The compiled configuration. It is not modified.
+   * @param {XdsOptions} options - Options controlling the output.
+   */
+  constructor(config: EnvoyConfig, options: XdsOptions) {
+    this.config = config;
+    this.options = options;
+  }
+
+  /**
+   * Builds the bootstrap and resource files without writing them. Files are
+   * returned in a safe write order: clusters, routes, listeners, then the bootstrap.
+   *
+   * @public
+   * @returns {{ path: string; content: object }[]} The files to write and their contents.
+   * @throws {PluginError} `DUPLICATE_ROUTE_CONFIGURATION` if two route configurations moved to RDS share a name.
+   */
+  public getFiles(): { path: string; content: object }[] {
+    const outputDir = dirname(this.options.bootstrapPath);
+    const xdsDir = this.options.xdsPath ?? resolve(outputDir);
+
+    const config = JSON.parse(JSON.stringify(this.config)) as EnvoyConfig;
+    const {
+      listeners = [],
+      clusters = [],
+      ...rest
+    } = config.static_resources ?? {};
+    const routeConfigs = this.options.rds
+      ? this.extractRouteConfigs(
+          listeners,
+          this.configSource(xdsDir, "rds.yaml")
+        )
+      : [];
+
+    const bootstrap: Record<string, unknown> = { ...config };
+    delete bootstrap.static_resources;
+    if (Object.keys(rest).length > 0) bootstrap.static_resources = rest;
+    bootstrap.node = config.node ?? { id: "envoy", cluster: "envoy" };
+    bootstrap.dynamic_resources = {
+      ...config.dynamic_resources,
+      cds_config: this.configSource(xdsDir, "cds.yaml"),
+      lds_config: this.configSource(xdsDir, "lds.yaml"),
+    };
+
+    const files: { path: string; content: object }[] = [
+      {
+        path: join(outputDir, "cds.yaml"),
+        content: {
+          resources: clusters.map((c) => ({
+            "@type": XDS_RESOURCE_TYPES.cluster,
+            ...c,
+          })),
+        },
+      },
+    ];
+    if (this.options.rds) {
+      files.push({
+        path: join(outputDir, "rds.yaml"),
+        content: {
+          resources: routeConfigs.map((r) => ({
+            "@type": XDS_RESOURCE_TYPES.routeConfiguration,
+            ...r,
+          })),
+        },
+      });
+    }
+    files.push(
+      {
+        path: join(outputDir, "lds.yaml"),
+        content: {
+          resources: listeners.map((l) => ({
+            "@type": XDS_RESOURCE_TYPES.listener,
+            ...l,
+          })),
+        },
+      },
+      { path: this.options.bootstrapPath, content: bootstrap }
+    );
+    return files;
+  }
+
+  /**
+   * Writes every file atomically, so Envoy never reads a partially written
+   * file. Files that can't be written are logged and left out of the result
+   * or, in strict mode, stop the writing, so that Envoy never loads resources
+   * referencing ones that weren't written.
+   *
+   * @public
+   * @returns {string[]} The paths of the files written.
+   * @throws {PluginError} `FILE_WRITE_FAILED` in strict mode if a file can't be written.
+   */
+  public write(): string[] {
+    const files = this.getFiles();
+    if (this.options.strict) {
+      for (const file of files) {
+        YamlTools.save_yaml_atomic(file.content, file.path);
+      }
+      return files.map((f) => f.path);
+    }
+    return files
+      .filter((file) => YamlTools.write_yaml_atomic(file.content, file.path))
+      .map((f) => f.path);
+  }
+
+  /**
+   * Reads the bootstrap and resource files written with the given options
+   * and reassembles them into a single configuration, see `assemble`.
+   *
+   * @public
+   * @static
+   * @param {XdsOptions} options - The options the files were written with.
+   * @returns {(EnvoyConfig | null)} The reassembled configuration, or null if there is no bootstrap file.
+   */
+  public static read(options: XdsOptions): EnvoyConfig | null {
+    if (!FsTools.checkFileExists(options.bootstrapPath)) return null;
+    const outputDir = dirname(options.bootstrapPath);
+    const paths = [
+      options.bootstrapPath,
+      ...["cds.yaml", "lds.yaml", "rds.yaml"].map((f) => join(outputDir, f)),
+    ].filter((path) => FsTools.checkFileExists(path));
+    return XdsWriter.assemble(
+      paths.map((path) => ({
+        path,
+        content: YamlTools.read_yaml(path) as object | null,
+      })),
+      options
+    );
+  }
+
+  /**
+   * Reassembles bootstrap and resource files into a single configuration:
+   * the clusters and listeners of the resource files are put back into
+   * `static_resources` and, with `rds`, the route configurations back into
+   * the connection managers that reference them. The bootstrap keeps its
+   * `dynamic_resources`. Missing files count as empty.
+   *
+   * @public
+   * @static
+   * @param {{ path: string; content: object | null }[]} files - The files, as returned by `getFiles`.
+   * @param {XdsOptions} options - The options the files were built with.
+   * @returns {EnvoyConfig} The reassembled configuration.
+   */
+  public static assemble(
+    files: { path: string; content: object | null }[],
+    options: XdsOptions
+  ): EnvoyConfig {
+    const outputDir = dirname(options.bootstrapPath);
+    const bootstrap = files.find((f) => f.path === options.bootstrapPath);
+    const config = JSON.parse(
+      JSON.stringify(
+        ObjectTools.isPlainObject(bootstrap?.content) ? bootstrap!.content : {}
+      )
+    ) as EnvoyConfig;
+    const clusters = XdsWriter.resourcesOf<Cluster>(
+      files,
+      join(outputDir, "cds.yaml")
+    );
+    const listeners = XdsWriter.resourcesOf<Listener>(
+      files,
+      join(outputDir, "lds.yaml")
+    );
+    const routeConfigs = options.rds
+      ? XdsWriter.resourcesOf<RouteConfig>(files, join(outputDir, "rds.yaml"))
+      : [];
+
+    for (const listener of listeners) {
+      for (const manager of EnvoyTools.getHttpConnectionManagers(listener)) {
+        const routeConfig = routeConfigs.find(
+          (r) => manager.rds && r.name === manager.rds.route_config_name
+        );
+        if (!routeConfig) continue;
+        manager.route_config = routeConfig;
+        delete manager.rds;
+      }
+    }
+    config.static_resources = {
+      ...config.static_resources,
+      listeners,
+      clusters,
+    };
+    return config;
+  }
+
+  /**
+   * Gets the resources of a resource file without their `@type`.
+   *
+   * @private
+   * @static
+   * @template T
+   * @param {{ path: string; content: object | null }[]} files - The files to look in.
+   * @param {string} path - The path of the resource file.
+   * @returns {T[]} A copy of the resources, or an empty array if the file is missing or has none.
+   */
+  private static resourcesOf<T>(
+    files: { path: string; content: object | null }[],
+    path: string
+  ): T[] {
+    const content = files.find((f) => f.path === path)?.content as {
+      resources?: unknown;
+    } | null;
+    if (!Array.isArray(content?.resources)) return [];
+    return content.resources
+      .filter((resource) => ObjectTools.isPlainObject(resource))
+      .map((resource) => {
+        const copy = JSON.parse(JSON.stringify(resource));
+        delete copy["@type"];
+        return copy as T;
+      });
+  }
+
+  /**
+   * Builds a config source pointing at a resource file.
+   *
+   * @private
+   * @param {string} xdsDir - The directory holding the resource files as seen by Envoy.
+   * @param {string} file - The name of the resource file.
+   * @returns {ConfigSource} The filesystem config source.
+   */
+  private configSource(xdsDir: string, file: string): ConfigSource {
+    return {
+      resource_api_version: "V3",
+      path_config_source: { path: join(xdsDir, file) },
+    };
+  }
+
+  /**
+   * Moves the inline route configuration of every HTTP connection manager
+   * out of the listeners and replaces it with an `rds` reference.
+   *
+   * @private
+   * @param {EnvoyConfig["static_resources"]["listeners"]} listeners - The listeners, modified in place.
+   * @param {ConfigSource} rdsSource - The config source pointing at the RDS file.
+   * @returns {RouteConfig[]} The extracted route configurations.
+   * @throws {PluginError} `DUPLICATE_ROUTE_CONFIGURATION` if two route configurations share a name.
+   */
+  private extractRouteConfigs(
+    listeners: EnvoyConfig["static_resources"]["listeners"],
+    rdsSource: ConfigSource
+  ): RouteConfig[] {
+    const routeConfigs: RouteConfig[] = [];
+    for (const listener of listeners) {
+      EnvoyTools.getHttpConnectionManagers(listener).forEach(
+        (manager: HttpConnectionManagerTypedConfig, index) => {
+          if (!manager.route_config) return;
+          const routeConfig = manager.route_config;
+          routeConfig.name =
+            routeConfig.name || `${listener.name}_route_${index}`;
+          if (routeConfigs.some((r) => r.name === routeConfig.name))
+            throw new PluginError(
+              "DUPLICATE_ROUTE_CONFIGURATION",
+              `duplicate route configuration name '${routeConfig.name}', names must be unique for RDS`
+            );
+          routeConfigs.push(routeConfig);
+          delete manager.route_config;
+          manager.rds = {
+            route_config_name: routeConfig.name,
+            config_source: rdsSource,
+          };
+        }
+      );
+    }
+    return routeConfigs;
+  }
+}
@@ -2,10 +2,134 @@
  * Represents a collection of clusters and routes for a service.
  * @property {Cluster[]} clusters - An array of cluster configurations.
  * @property {Route[]} routes - An array of route configurations.
+ * @property {string} [path] - The service folder the configuration was discovered in.
+ * @property {RouteSource[]} [routeSources] - Where each route came from, index-aligned with `routes`.
+ * @property {ClusterSource[]} [clusterSources] - Where each cluster came from, index-aligned with `clusters`.
+ * @property {ServiceManifest} [manifest] - The service manifest (`service.yaml`), if the service has one.
+ * @property {HTTPFilter[]} [httpFilters] - HTTP filters the service adds to the HttpConnectionManager chain.
+ * @property {HttpFilterSource[]} [httpFilterSources] - Where each HTTP filter came from and where it goes, index-aligned with `httpFilters`.
+ * @property {Listener[]} [listeners] - Listeners the service adds to the configuration, e.g. TCP proxies on dedicated ports.
+ * @property {ListenerSource[]} [listenerSources] - Where each listener came from, index-aligned with `listeners`.
+ * @property {Record<string, unknown>} [runtime] - Runtime keys the service adds to the static runtime layer.
+ * @property {TagSpecifier[]} [statsTags] - Stats tags the service adds to `stats_config.stats_tags`.
+ * @property {Secret[]} [secrets] - Secrets the service adds to `static_resources.secrets`.
  */
 type ServiceConfg = {
   clusters: Cluster[];
   routes: Route[];
+  path?: string;
+  routeSources?: RouteSource[];
+  clusterSources?: ClusterSource[];
+  manifest?: ServiceManifest;
+  httpFilters?: HTTPFilter[];
+  httpFilterSources?: HttpFilterSource[];
+  listeners?: Listener[];
+  listenerSources?: ListenerSource[];
+  runtime?: Record<string, unknown>;
+  statsTags?: TagSpecifier[];
+  secrets?: Secret[];
+};
+
+/**
+ * Describes a service, read from the `service.yaml` file in its configuration folder.
+ * @property {string} [name] - The name of the service.
+ * @property {string} [owner] - The team or person owning the service.
+ * @property {string} [namespace] - Prefix for the names of the service's clusters when cluster namespacing is enabled.
+ * @property {string} [mount] - Base path the service's routes are exposed under, e.g. `/api/user-service`.
+ * @property {boolean} [mount_rewrite] - Rewrite mounted paths back to the original ones before they reach the upstream.
+ * @property {string} [upstream] - Short form: the upstream as `host:port`, expanded into a cluster.
+ * @property {string[]} [paths] - Short form: the path prefixes routed to the upstream.
+ * @property {string} [timeout] - Short form: the route timeout.
+ * @property {string} [health] - Short form: path of the upstream's HTTP health check endpoint.
+ * @property {ServiceTls} [tls] - TLS settings for the connections to the service's upstreams.
+ * @property {LintSuppression[]} [lint_suppressions] - Lint rules the service doesn't follow, and why.
+ */
+type ServiceManifest = {
+  name?: string;
+  owner?: string;
+  namespace?: string;
+  mount?: string;
+  mount_rewrite?: boolean;
+  upstream?: string;
+  paths?: string[];
+  timeout?: string;
+  health?: string;
+  tls?: ServiceTls;
+  lint_suppressions?: LintSuppression[];
+};
+
+/**
+ * Upstream TLS settings of a service, turned into a `transport_socket` on each of its clusters.
+ * File paths are resolved relative to the service folder.
+ * @property {string} [sni] - Server name sent in the TLS handshake.
+ * @property {string} [ca_file] - Path of the CA bundle used to verify the upstream's certificate.
+ * @property {string} [cert_file] - Path of the client certificate chain, for mutual TLS.
+ * @property {string} [key_file] - Path of the client private key, for mutual TLS.
+ * @property {string | SdsSecretConfig} [secret] - The secret holding the client certificate, instead of `cert_file` and `key_file`: the name of a
+ * static secret, or a name with the `sds_config` source to fetch it from.
+ */
+type ServiceTls = {
+  sni?: string;
+  ca_file?: string;
+  cert_file?: string;
+  key_file?: string;
+  secret?: string | SdsSecretConfig;
+};
+
+/**
+ * Suppresses the violations of a lint rule by a service.
+ * @property {string} rule - The id of the suppressed rule.
+ * @property {string} justification - Why the service doesn't follow the rule.
+ * @property {string} [target] - Only suppress the violations of the cluster or route with this name.
+ */
+type LintSuppression = {
+  rule: string;
+  justification: string;
+  target?: string;
+};
+
+/**
+ * Describes the file a route was read from and where it should be attached.
+ * @property {string} [file] - Path of the route file.
+ * @property {string} [listener] - Name of the listener the route is attached to.
+ * @property {string} [virtual_host] - Name or domain of the virtual host the route is attached to.
+ * @property {number} [priority] - Overrides the specificity ordering; higher priorities are placed first.
+ */
+type RouteSource = {
+  file?: string;
+  listener?: string;
+  virtual_host?: string;
+  priority?: number;
+};
+
+/**
+ * Describes the file a cluster was read from.
+ * @property {string} [file] - Path of the cluster file.
+ */
+type ClusterSource = {
+  file?: string;
+};
+
+/**
+ * Describes the file a listener was read from.
+ * @property {string} [file] - Path of the listener file.
+ */
+type ListenerSource = {
+  file?: string;
+};
+
+/**
+ * Describes the file an HTTP filter was read from and where it is inserted.
+ * @property {string} [file] - Path of the filter file.
+ * @property {string} [listener] - Name of the listener whose HttpConnectionManagers the filter is added to.
+ * @property {string} [before] - Name of the filter this filter is inserted before.
+ * @property {string} [after] - Name of the filter this filter is inserted after.
+ */
+type HttpFilterSource = {
+  file?: string;
+  listener?: string;
+  before?: string;
+  after?: string;
 };
 
 // represent time durations  as strings, just like in the YAML configuration.
@@ -13,19 +137,223 @@ type ServiceConfg = {
 type DurationString = string;
 type PercentValue = number;
 
+// The Envoy types below model the parts of the v3 API the compiler works
+// with. `SchemaValidator` checks configurations against the complete API,
+// built from the protos in `protos/`.
+
 /**
  * Main Envoy configuration structure.
  */
 export interface EnvoyConfig {
+  node?: Node;
   static_resources: StaticResources;
+  dynamic_resources?: DynamicResources;
+  admin?: Admin;
+  layered_runtime?: LayeredRuntime;
+  stats_config?: StatsConfig;
+  stats_sinks?: StatsSink[];
+  tracing?: Tracing;
+  overload_manager?: OverloadManager;
+}
+
+/**
+ * Admin configures the administration interface.
+ */
+export interface Admin {
+  address: Address;
+  access_log?: AccessLog[];
+  profile_path?: string;
+}
+
+/**
+ * LayeredRuntime configures the runtime layers, later layers overriding earlier ones.
+ */
+export interface LayeredRuntime {
+  layers: RuntimeLayer[];
+}
+
+/**
+ * RuntimeLayer is a single runtime layer; exactly one of the layer specifiers is set.
+ */
+export interface RuntimeLayer {
+  name: string;
+  static_layer?: Record<string, unknown>;
+  disk_layer?: DiskLayer;
+  admin_layer?: Record<string, never>;
+  rtds_layer?: RtdsLayer;
+}
+
+/**
+ * DiskLayer loads runtime values from a directory tree.
+ */
+export interface DiskLayer {
+  symlink_root?: string;
+  subdirectory?: string;
+  append_service_cluster?: boolean;
+}
+
+/**
+ * RtdsLayer fetches runtime values from the Runtime Discovery Service.
+ */
+export interface RtdsLayer {
+  name: string;
+  rtds_config?: ConfigSource;
+}
+
+/**
+ * StatsConfig configures how stat names are tagged and which stats are kept.
+ */
+export interface StatsConfig {
+  stats_tags?: TagSpecifier[];
+  use_all_default_tags?: boolean;
+  stats_matcher?: Record<string, unknown>;
+}
+
+/**
+ * TagSpecifier extracts a tag from stat names with a regex, or sets a fixed tag value.
+ */
+export interface TagSpecifier {
+  tag_name: string;
+  regex?: string;
+  fixed_value?: string;
+}
+
+/**
+ * StatsSink sends stats to an external system, e.g. statsd.
+ */
+export interface StatsSink {
+  name: string;
+  typed_config: { "@type": string; [key: string]: unknown };
+}
+
+/**
+ * Tracing configures the HTTP tracer.
+ */
+export interface Tracing {
+  http?: {
+    name: string;
+    typed_config: { "@type": string; [key: string]: unknown };
+  };
+}
+
+/**
+ * OverloadManager triggers actions when resource monitors cross thresholds.
+ */
+export interface OverloadManager {
+  refresh_interval?: DurationString;
+  resource_monitors: ResourceMonitor[];
+  actions?: OverloadAction[];
+}
+
+/**
+ * ResourceMonitor measures the usage of a resource, e.g. heap size.
+ */
+export interface ResourceMonitor {
+  name: string;
+  typed_config: { "@type": string; [key: string]: unknown };
+}
+
+/**
+ * OverloadAction is taken when any of its triggers fires.
+ */
+export interface OverloadAction {
+  name: string;
+  triggers: OverloadTrigger[];
+}
+
+/**
+ * OverloadTrigger fires when a resource monitor crosses a threshold.
+ */
+export interface OverloadTrigger {
+  name: string;
+  threshold?: { value: number };
+  scaled?: { scaling_threshold: number; saturation_threshold: number };
+}
+
+/**
+ * Node identifies the Envoy instance to management servers.
+ */
+export interface Node {
+  id?: string;
+  cluster?: string;
+}
+
+/**
+ * DynamicResources configures where listeners and clusters are loaded from (xDS).
+ */
+export interface DynamicResources {
+  lds_config?: ConfigSource;
+  cds_config?: ConfigSource;
+}
+
+/**
+ * ConfigSource tells Envoy where to fetch a dynamic resource from.
+ */
+export interface ConfigSource {
+  resource_api_version?: "V3";
+  path_config_source?: PathConfigSource;
+}
+
+/**
+ * PathConfigSource loads resources from a file watched by Envoy.
+ */
+export interface PathConfigSource {
+  path: string;
 }
 
 /**
- * StaticResources contains listeners and clusters.
+ * Rds fetches the route configuration of an HTTP connection manager dynamically.
+ */
+export interface Rds {
+  route_config_name: string;
+  config_source: ConfigSource;
+}
+
+/**
+ * StaticResources contains listeners, clusters and secrets.
  */
 export interface StaticResources {
   listeners: Listener[];
   clusters: Cluster[];
+  secrets?: Secret[];
+}
+
+/**
+ * Secret holds a TLS certificate, a validation context or a generic secret,
+ * referenced by name from transport sockets.
+ */
+export interface Secret {
+  name: string;
+  tls_certificate?: TlsCertificate;
+  validation_context?: CertificateValidationContext;
+  generic_secret?: { secret: DataSource };
+}
+
+/**
+ * TlsCertificate is a certificate chain and its private key.
+ */
+export interface TlsCertificate {
+  certificate_chain: DataSource;
+  private_key: DataSource;
+  password?: DataSource;
+}
+
+/**
+ * CertificateValidationContext configures how peer certificates are verified.
+ */
+export interface CertificateValidationContext {
+  trusted_ca?: DataSource;
+  match_typed_subject_alt_names?: Record<string, unknown>[];
+}
+
+/**
+ * DataSource is the content of a file, an inline value or an environment variable.
+ */
+export interface DataSource {
+  filename?: string;
+  inline_string?: string;
+  inline_bytes?: string;
+  environment_variable?: string;
 }
 
 /**
@@ -33,8 +361,8 @@ export interface StaticResources {
  */
 export interface Listener {
   name: string;
-  address: Address;
-  filter_chains: FilterChain[];
+  address?: Address;
+  filter_chains?: FilterChain[];
 }
 
 /**
@@ -69,7 +397,8 @@ export type TypedConfig =
       http_filters: HTTPFilter[];
       access_log: AccessLog[];
     }
-  | HttpConnectionManagerTypedConfig;
+  | HttpConnectionManagerTypedConfig
+  | TcpProxyTypedConfig;
 
 /**
  * TypedConfig for the HttpConnectionManager filter.
@@ -80,15 +409,37 @@ export interface HttpConnectionManagerTypedConfig {
   stat_prefix?: string;
   codec_type?: string;
   route_config?: RouteConfig;
+  rds?: Rds;
   http_filters?: HTTPFilter[];
   access_log?: AccessLog[];
 }
 
+/**
+ * TypedConfig for the TcpProxy filter.
+ * This corresponds to the `type.googleapis.com/envoy.extensions.filters.network.tcp_proxy.v3.TcpProxy` type.
+ */
+export interface TcpProxyTypedConfig {
+  "@type": "type.googleapis.com/envoy.extensions.filters.network.tcp_proxy.v3.TcpProxy";
+  stat_prefix: string;
+  cluster?: string;
+  weighted_clusters?: TcpProxyWeightedCluster;
+  idle_timeout?: DurationString;
+  max_connect_attempts?: number;
+  access_log?: AccessLog[];
+}
+
+/**
+ * Spreads the connections of a TcpProxy filter over several clusters.
+ */
+export interface TcpProxyWeightedCluster {
+  clusters: { name: string; weight: number }[];
+}
+
 /**
  * RouteConfig for HTTP Connection Manager.
  */
 export interface RouteConfig {
-  name: string;
+  name?: string;
   virtual_hosts: VirtualHost[];
 }
 
@@ -98,7 +449,7 @@ export interface RouteConfig {
 export interface VirtualHost {
   name: string;
   domains: string[];
-  routes: Route[];
+  routes?: Route[];
   cors?: CORS;
 }
 
@@ -114,7 +465,7 @@ export type HeaderValue = {
  * RouteConfiguration represents the top-level route configuration.
  */
 export interface RouteConfiguration {
-  name: string;
+  name?: string;
   virtual_hosts: VirtualHost[];
   response_headers_to_add?: HeaderValue[];
   request_id_extension?: RequestIDConfig;
@@ -140,7 +491,8 @@ export interface Route {
 export interface RouteMatch {
   prefix?: string;
   path?: string;
-  safe_regex?: string;
+  path_separated_prefix?: string;
+  safe_regex?: RegexMatcher;
   headers?: HeaderMatcher[];
   query_parameters?: QueryParamMatcher[];
   case_sensitive?: boolean;
@@ -207,7 +559,7 @@ export interface ClusterWeight {
 export interface HeaderMatcher {
   name: string;
   exact_match?: string;
-  safe_regex_match?: string;
+  safe_regex_match?: RegexMatcher;
   prefix_match?: string;
   suffix_match?: string;
   present_match?: boolean;
@@ -280,16 +632,28 @@ export interface CORS {
 }
 
 // Additional supporting types
+export interface FractionalPercent {
+  numerator: number;
+  denominator?: "HUNDRED" | "TEN_THOUSAND" | "MILLION";
+}
+
 export interface RuntimeFractionalPercent {
-  default_value: number;
+  default_value: FractionalPercent;
   runtime_key?: string;
 }
 
 export interface RegexRewrite {
-  pattern: string;
+  pattern: RegexMatcher;
   substitution: string;
 }
 
+/**
+ * RegexMatcher is a regular expression in Google's RE2 syntax.
+ */
+export interface RegexMatcher {
+  regex: string;
+}
+
 export interface HashPolicy {
   header?: Header;
   cookie?: Cookie;
@@ -690,8 +1054,41 @@ export interface RetryBudget {
 
 export type TransportSocket = {
   name: string;
-  typed_config: string;
+  typed_config:
+    | UpstreamTlsContext
+    | { "@type": string; [key: string]: unknown };
 };
+
+/**
+ * UpstreamTlsContext configures TLS for the connections to a cluster's endpoints.
+ * This corresponds to the `type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.UpstreamTlsContext` type.
+ */
+export interface UpstreamTlsContext {
+  "@type": "type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.UpstreamTlsContext";
+  sni?: string;
+  common_tls_context?: CommonTlsContext;
+  allow_renegotiation?: boolean;
+}
+
+/**
+ * CommonTlsContext holds the certificates and validation settings of a TLS context.
+ */
+export interface CommonTlsContext {
+  tls_certificates?: TlsCertificate[];
+  tls_certificate_sds_secret_configs?: SdsSecretConfig[];
+  validation_context?: CertificateValidationContext;
+  validation_context_sds_secret_config?: SdsSecretConfig;
+  alpn_protocols?: string[];
+}
+
+/**
+ * SdsSecretConfig references a secret by name, from `static_resources.secrets`
+ * or, with `sds_config`, from the Secret Discovery Service.
+ */
+export interface SdsSecretConfig {
+  name: string;
+  sds_config?: ConfigSource;
+}
 export type Policy = {
   drop_overloads: DropOverload[];
   overprovisioning_factor: number;
@@ -717,7 +1114,7 @@ export type StringMatcher = {
   exact: string;
   prefix: string;
   suffix: string;
-  safe_regex: string;
+  safe_regex: RegexMatcher;
   contains: string;
 };
 export type TlsOptions = {
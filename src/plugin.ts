@@ -3,30 +3,246 @@ import {
   ExecutionRequestBody,
   ExecutionResponse,
 } from "@hembrow-innovations/odm-plugin-js";
-import { Compiler, ConfigDiscover } from "./config-compiler";
-import { YamlTools } from "./utils";
+import process from "node:process";
+import { basename, dirname } from "node:path";
+import {
+  BuildStats,
+  Compiler,
+  ConfigDiff,
+  ConfigDiscover,
+  ConfigValidator,
+  ConfigWatcher,
+  ConflictPolicy,
+  Diagnostic,
+  Diagnostics,
+  DiffEntry,
+  Interpolator,
+  PolicyLint,
+  RouteConflict,
+  RouteConflicts,
+  CONFLICT_POLICIES,
+  RouteOrdering,
+  RouteOrderingMode,
+  ROUTE_ORDERING_MODES,
+  ScaffoldOptions,
+  ServiceScaffold,
+  SuppressedDiagnostic,
+  WatchTarget,
+  XdsOptions,
+  XdsWriter,
+} from "./config-compiler";
+import { FsTools, ObjectTools, PluginError, YamlTools } from "./utils";
+import {
+  Cluster,
+  EnvoyConfig,
+  HTTPFilter,
+  Listener,
+  Route,
+  ServiceConfg,
+  TagSpecifier,
+} from "./config-types";
 
 /**
  * Defines the possible actions for the plugin.
+ * - `merge`: compile the configuration and write it to `output`.
+ * - `validate`: compile and check the configuration without writing anything.
+ * - `diff`: compile and compare the configuration with the one at `output` without writing anything.
+ * - `scaffold`: create the configuration folder of a new service with a starter route and cluster.
+ * - `watch`: merge, then keep merging whenever the base file or a service folder changes.
+ * - `expand`: print the routes and clusters of every service as they are merged, with short forms expanded.
+ */
+type PluginActions =
+  | "merge"
+  | "validate"
+  | "diff"
+  | "scaffold"
+  | "watch"
+  | "expand";
+
+/**
+ * All supported plugin actions.
+ */
+const PLUGIN_ACTIONS: PluginActions[] = [
+  "merge",
+  "validate",
+  "diff",
+  "scaffold",
+  "watch",
+  "expand",
+];
+
+/**
+ * Defines how the `merge` action writes the compiled configuration.
+ * - `static`: a single bootstrap file with everything in `static_resources`.
+ * - `xds`: a bootstrap with `dynamic_resources` plus filesystem xDS resource files.
+ */
+type OutputMode = "static" | "xds";
+
+/**
+ * All supported output modes.
  */
-type PluginActions = "merge";
+const OUTPUT_MODES: OutputMode[] = ["static", "xds"];
 
 /**
  * Defines the options that can be passed to the plugin for execution.
  * @property {PluginActions} action - The action to be performed by the plugin.
- * @property {string[]} items - An array of paths to the service configuration folders.
- * @property {string} rootPath - The root path for the discovery process.
+ * @property {string[]} items - The paths or glob patterns of the service configuration folders.
+ * @property {string} rootPath - The path relative paths in the options are resolved against, and the folder searched by `autoDiscover`.
+ * @property {boolean} autoDiscover - Also use every folder below `rootPath` that contains a `folderName` subfolder as a service.
+ * @property {string[]} ignore - Glob patterns of folders skipped when expanding `items` patterns and auto-discovering services.
  * @property {string} output - The file path where the compiled Envoy configuration will be written.
  * @property {string} base - The path to the base Envoy configuration file.
  * @property {string} folderName - The name of the configuration subfolder to look for within service folders.
+ * @property {ConflictPolicy} conflictPolicy - How routes with conflicting matches across services are resolved.
+ * @property {RouteOrderingMode} routeOrdering - How the merged routes of each virtual host are ordered.
+ * @property {boolean} namespaceClusters - Prefix the clusters of services whose manifest sets a `namespace` with it.
+ * @property {Partial<ScaffoldOptions>} scaffold - The service to create with the `scaffold` action.
+ * @property {OutputMode} outputMode - How the compiled configuration is written.
+ * @property {boolean} rds - With the `xds` output mode, also write route configurations to an RDS file.
+ * @property {string} xdsPath - With the `xds` output mode, the directory of the resource files as seen by Envoy.
+ * @property {string} environment - The environment whose overlays are merged into the base and service files.
+ * @property {Record<string, unknown>} vars - Values for variable references in the base and service files.
+ * @property {string} varsFile - A YAML or JSON file with values for variable references.
+ * @property {number} watchDebounce - With the `watch` action, how long to wait for further changes before rebuilding, in milliseconds.
+ * @property {boolean} includeConfig - Include the compiled configuration in the response.
+ * @property {boolean} strict - Abort on unreadable folders and files, syntax errors, non-list keys and failed writes instead of skipping them.
+ * @property {boolean} provenanceMetadata - Write the service and file every route and cluster came from to its `metadata.filter_metadata`.
+ * @property {string} provenanceManifest - A JSON file the service and file every route and cluster came from is written to, next to the output.
+ * @property {boolean} lint - Check the services against the built-in lint rules with their default settings.
+ * @property {string} lintConfig - A YAML or JSON rules file setting the severity and options of the lint rules. Enables linting.
  */
 type Options = {
   action: PluginActions;
   items: string[];
   rootPath: string;
+  autoDiscover: boolean;
+  ignore: string[];
   output: string;
   base: string;
   folderName: string;
+  conflictPolicy: ConflictPolicy;
+  routeOrdering: RouteOrderingMode;
+  namespaceClusters: boolean;
+  scaffold: Partial<ScaffoldOptions>;
+  outputMode: OutputMode;
+  rds: boolean;
+  xdsPath: string;
+  environment: string;
+  vars: Record<string, unknown>;
+  varsFile: string;
+  watchDebounce: number;
+  includeConfig: boolean;
+  strict: boolean;
+  provenanceMetadata: boolean;
+  provenanceManifest: string;
+  lint: boolean;
+  lintConfig: string;
+};
+
+/**
+ * The lint results that aren't diagnostics.
+ * @property {SuppressedDiagnostic[]} suppressed - The violations the services suppressed, with their justification.
+ */
+type LintReport = {
+  suppressed: SuppressedDiagnostic[];
+};
+
+/**
+ * The machine-readable result of the `validate` action. The problems found
+ * are the diagnostics of the response.
+ * @property {boolean} valid - `true` if no errors were found.
+ * @property {RouteConflict[]} conflicts - Route conflicts detected while merging.
+ */
+type ValidationReport = {
+  valid: boolean;
+  conflicts: RouteConflict[];
+};
+
+/**
+ * The machine-readable result of the `diff` action.
+ * @property {string} output - The path of the configuration the compiled one was compared with.
+ * @property {boolean} changed - `true` if regenerating the output would change it.
+ * @property {DiffEntry[]} entries - The added, removed and modified entities.
+ * @property {string} markdown - The entries formatted as a Markdown list.
+ */
+type DiffReport = {
+  output: string;
+  changed: boolean;
+  entries: DiffEntry[];
+  markdown: string;
+};
+
+/**
+ * The result of the `expand` action: the routes, clusters and other
+ * contributions of every service, after short forms are expanded and overlays applied.
+ * @property {string} path - The service folder.
+ * @property {Route[]} routes - The routes of the service.
+ * @property {Cluster[]} clusters - The clusters of the service.
+ * @property {HTTPFilter[]} [httpFilters] - The HTTP filters of the service, if it has any.
+ * @property {Listener[]} [listeners] - The listeners of the service, if it has any.
+ * @property {Record<string, unknown>} [runtime] - The runtime keys of the service, if it has any.
+ * @property {TagSpecifier[]} [statsTags] - The stats tags of the service, if it has any.
+ */
+type ExpandedService = {
+  path: string;
+  routes: Route[];
+  clusters: Cluster[];
+  httpFilters?: HTTPFilter[];
+  listeners?: Listener[];
+  runtime?: Record<string, unknown>;
+  statsTags?: TagSpecifier[];
+};
+
+/**
+ * The result of the `scaffold` action.
+ * @property {string[]} files - The files written.
+ * @property {string} cluster - The name of the starter cluster.
+ */
+type ScaffoldReport = {
+  files: string[];
+  cluster: string;
+};
+
+/**
+ * The result of the `watch` action, returned once watching stops.
+ * @property {number} builds - How many times the configuration was compiled.
+ * @property {number} writes - How many times the output was rewritten.
+ */
+type WatchReport = {
+  builds: number;
+  writes: number;
+};
+
+/**
+ * Whether an action succeeded: `success` if no error was reported, `failure` otherwise.
+ */
+type ResponseStatus = "success" | "failure";
+
+/**
+ * The structured result of every action, returned as JSON in the `result` of the execution.
+ * @property {ResponseStatus} status - `failure` if any diagnostic is an error.
+ * @property {PluginActions} action - The action that ran.
+ * @property {Diagnostic[]} diagnostics - The errors and warnings, with the service and file they come from where known.
+ * @property {BuildStats} [stats] - How many services, routes and clusters were merged, for actions that compile.
+ * @property {string} [output] - The path of the configuration written.
+ * @property {EnvoyConfig} [config] - The compiled configuration, with the `include-config` option.
+ * @property {LintReport} [lint] - The suppressed lint violations, when linting is enabled.
+ * @property {ValidationReport | DiffReport | ScaffoldReport | WatchReport | ExpandedService[]} [report] - The action-specific result.
+ */
+type PluginResponse = {
+  status: ResponseStatus;
+  action: PluginActions;
+  diagnostics: Diagnostic[];
+  stats?: BuildStats;
+  output?: string;
+  config?: EnvoyConfig;
+  lint?: LintReport;
+  report?:
+    | ValidationReport
+    | DiffReport
+    | ScaffoldReport
+    | WatchReport
+    | ExpandedService[];
 };
 
 /**
@@ -40,75 +256,830 @@ type Options = {
 class EnvoyProxyPlugin implements PluginExecuter {
   /**
    * Executes the main logic of the plugin. It receives a request body, processes
-   * the options, discovers service configurations, compiles them with a base
-   * configuration, and writes the final output.
+   * the options and runs the requested action.
    *
    * @async
    * @param {ExecutionRequestBody} request - The request body containing the plugin options.
    * @returns {Promise<ExecutionResponse>} A promise that resolves to an `ExecutionResponse` object.
-   * The result field will contain the compiled configuration as a JSON string or an error message.
+   * The result field contains the `PluginResponse` as a JSON string: the status,
+   * the diagnostics, the build statistics, the output path written, the compiled
+   * configuration when requested and the action-specific report.
    */
   async execute(request: ExecutionRequestBody): Promise<ExecutionResponse> {
+    const response: PluginResponse = {
+      status: "success",
+      action: "merge",
+      diagnostics: [],
+    };
     try {
       console.log("Envoy Proxy Plugin: Processing request...");
 
       // Extract and process options
-      const options: Options = {
-        action: "merge",
-        items: [],
-        rootPath: "",
-        output: "",
-        base: "",
-        folderName: "envoy",
-      };
+      const options = this.parseOptions(request);
+      response.action = options.action;
+
+      switch (options.action) {
+        case "validate":
+          this.validate(options, response);
+          break;
+        case "diff":
+          this.diff(options, response);
+          break;
+        case "scaffold":
+          this.scaffold(options, response);
+          break;
+        case "watch":
+          await this.watch(options, response);
+          break;
+        case "expand":
+          this.expand(options, response);
+          break;
+        case "merge":
+        default:
+          this.merge(options, response);
+      }
+    } catch (error) {
+      console.error("Plugin execution error:", error);
+      response.diagnostics.push(...Diagnostics.fromErrors(error));
+    }
+
+    response.status =
+      Diagnostics.errors(response.diagnostics).length > 0
+        ? "failure"
+        : "success";
+    return { result: JSON.stringify(response) };
+  }
+
+  /**
+   * Reads the plugin options from the request, applying defaults.
+   *
+   * @private
+   * @param {ExecutionRequestBody} request - The request body containing the plugin options.
+   * @returns {Options} The parsed options.
+   * @throws {PluginError} `INVALID_OPTION` if an option has an unsupported value.
+   */
+  private parseOptions(request: ExecutionRequestBody): Options {
+    const options: Options = {
+      action: "merge",
+      items: [],
+      rootPath: "",
+      autoDiscover: false,
+      ignore: [],
+      output: "",
+      base: "",
+      folderName: "envoy",
+      conflictPolicy: "warn",
+      routeOrdering: "discovery",
+      namespaceClusters: false,
+      scaffold: {},
+      outputMode: "static",
+      rds: false,
+      xdsPath: "",
+      environment: "",
+      vars: {},
+      varsFile: "",
+      watchDebounce: 300,
+      includeConfig: false,
+      strict: !!process.env.CI && !["false", "0"].includes(process.env.CI),
+      provenanceMetadata: false,
+      provenanceManifest: "",
+      lint: false,
+      lintConfig: "",
+    };
 
-      for (const [key, value] of Object.entries(request.options || {})) {
-        if (typeof key === "string" && typeof value === "string") {
-          if (key === "root-path") options.rootPath = value;
-          if (key === "base") options.base = value;
-          if (key === "output") options.output = value;
-          if (key === "folder-name") options.folderName = value;
+    for (const [key, value] of Object.entries(request.options || {})) {
+      if (typeof key === "string" && typeof value === "string") {
+        if (key === "action") {
+          if (!PLUGIN_ACTIONS.includes(value as PluginActions))
+            throw new PluginError(
+              "INVALID_OPTION",
+              `invalid action '${value}', expected one of ${PLUGIN_ACTIONS.join(
+                ", "
+              )}`
+            );
+          options.action = value as PluginActions;
+        }
+        if (key === "root-path") options.rootPath = value;
+        if (key === "auto-discover") options.autoDiscover = value === "true";
+        if (key === "ignore")
+          options.ignore = value
+            .split(",")
+            .map((p) => p.trim())
+            .filter((p) => p);
+        if (key === "base") options.base = value;
+        if (key === "output") options.output = value;
+        if (key === "folder-name") options.folderName = value;
+        if (key === "route-conflicts") {
+          if (!RouteConflicts.isConflictPolicy(value))
+            throw new PluginError(
+              "INVALID_OPTION",
+              `invalid route-conflicts '${value}', expected one of ${CONFLICT_POLICIES.join(
+                ", "
+              )}`
+            );
+          options.conflictPolicy = value;
+        }
+        if (key === "route-ordering") {
+          if (!RouteOrdering.isRouteOrderingMode(value))
+            throw new PluginError(
+              "INVALID_OPTION",
+              `invalid route-ordering '${value}', expected one of ${ROUTE_ORDERING_MODES.join(
+                ", "
+              )}`
+            );
+          options.routeOrdering = value;
         }
-        if (key === "items" && Array.isArray(value))
-          options.items = value as string[];
+        if (key === "namespace-clusters")
+          options.namespaceClusters = value === "true";
+        if (key === "service-path") options.scaffold.servicePath = value;
+        if (key === "service-name") options.scaffold.serviceName = value;
+        if (key === "upstream-host") options.scaffold.upstreamHost = value;
+        if (key === "upstream-port")
+          options.scaffold.upstreamPort = Number(value);
+        if (key === "path-prefix") options.scaffold.pathPrefix = value;
+        if (key === "force") options.scaffold.force = value === "true";
+        if (key === "output-mode") {
+          if (!OUTPUT_MODES.includes(value as OutputMode))
+            throw new PluginError(
+              "INVALID_OPTION",
+              `invalid output-mode '${value}', expected one of ${OUTPUT_MODES.join(
+                ", "
+              )}`
+            );
+          options.outputMode = value as OutputMode;
+        }
+        if (key === "rds") options.rds = value === "true";
+        if (key === "xds-path") options.xdsPath = value;
+        if (key === "environment") {
+          if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(value))
+            throw new PluginError(
+              "INVALID_OPTION",
+              `invalid environment '${value}', expected a folder name of letters, digits, '.', '_' or '-'`
+            );
+          options.environment = value;
+        }
+        if (key === "vars-file") options.varsFile = value;
+        if (key === "watch-debounce") options.watchDebounce = Number(value);
+        if (key === "include-config") options.includeConfig = value === "true";
+        if (key === "strict") options.strict = value === "true";
+        if (key === "provenance-metadata")
+          options.provenanceMetadata = value === "true";
+        if (key === "provenance-manifest") options.provenanceManifest = value;
+        if (key === "lint") options.lint = value === "true";
+        if (key === "lint-config") options.lintConfig = value;
       }
+      if (key === "watch-debounce" && typeof value === "number")
+        options.watchDebounce = value;
+      if (key === "rds" && typeof value === "boolean") options.rds = value;
+      if (key === "include-config" && typeof value === "boolean")
+        options.includeConfig = value;
+      if (key === "strict" && typeof value === "boolean")
+        options.strict = value;
+      if (key === "provenance-metadata" && typeof value === "boolean")
+        options.provenanceMetadata = value;
+      if (key === "lint" && typeof value === "boolean") options.lint = value;
+      if (key === "upstream-port" && typeof value === "number")
+        options.scaffold.upstreamPort = value;
+      if (key === "force" && typeof value === "boolean")
+        options.scaffold.force = value;
+      if (
+        key === "vars" &&
+        value &&
+        typeof value === "object" &&
+        !Array.isArray(value)
+      )
+        options.vars = value as Record<string, unknown>;
+      if (key === "namespace-clusters" && typeof value === "boolean")
+        options.namespaceClusters = value;
+      if (key === "auto-discover" && typeof value === "boolean")
+        options.autoDiscover = value;
+      if (key === "ignore" && Array.isArray(value))
+        options.ignore = value as string[];
+      if (key === "items" && Array.isArray(value))
+        options.items = value as string[];
+    }
 
-      // Initialize ConfigDiscover to find service configurations
-      const discovery = new ConfigDiscover(
-        options.items,
-        options.base,
-        options.folderName
+    if (!Number.isFinite(options.watchDebounce) || options.watchDebounce < 0)
+      throw new PluginError(
+        "INVALID_OPTION",
+        `invalid watch-debounce '${options.watchDebounce}', expected a non-negative number of milliseconds`
       );
 
-      // Collect service-specific configurations
-      const services = discovery.collect();
+    return this.resolvePaths(options);
+  }
 
-      // Collect the base Envoy configuration
-      const baseConfig = discovery.collectBase();
+  /**
+   * Resolves the paths in the options relative to `rootPath`. `items` are
+   * resolved by `resolveServices` on every build, so that `watch` picks up
+   * new service folders. `xdsPath` is left as is, since it is the path as
+   * seen by Envoy.
+   *
+   * @private
+   * @param {Options} options - The parsed options.
+   * @returns {Options} The options with resolved paths.
+   */
+  private resolvePaths(options: Options): Options {
+    return {
+      ...options,
+      base: ConfigDiscover.resolvePath(options.rootPath, options.base),
+      output: ConfigDiscover.resolvePath(options.rootPath, options.output),
+      varsFile: ConfigDiscover.resolvePath(options.rootPath, options.varsFile),
+      provenanceManifest: ConfigDiscover.resolvePath(
+        options.rootPath,
+        options.provenanceManifest
+      ),
+      lintConfig: ConfigDiscover.resolvePath(
+        options.rootPath,
+        options.lintConfig
+      ),
+      scaffold: {
+        ...options.scaffold,
+        servicePath:
+          options.scaffold.servicePath &&
+          ConfigDiscover.resolvePath(
+            options.rootPath,
+            options.scaffold.servicePath
+          ),
+      },
+    };
+  }
 
-      // Initialize the Compiler to merge configurations
-      const compiler = new Compiler(baseConfig, services);
+  /**
+   * Resolves the service folders: the paths in `items` relative to
+   * `rootPath`, the folders matching its glob patterns and the
+   * auto-discovered services.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {string[]} The paths of the service folders.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` or `FILE_READ_FAILED` if a folder searched by a pattern can't be listed.
+   */
+  private resolveServices(options: Options): string[] {
+    const items = ConfigDiscover.resolveItems(
+      options.rootPath,
+      options.items,
+      options.folderName,
+      options.ignore
+    );
+    if (!options.autoDiscover) return items;
+    const discovered = ConfigDiscover.discoverServices(
+      options.rootPath,
+      options.folderName,
+      options.ignore
+    );
+    return [...items, ...discovered.filter((d) => !items.includes(d))];
+  }
 
-      // Build the final, compiled configuration
-      compiler.build();
-      const compiledConfig = compiler.getStore();
-      if (!compiledConfig)
-        throw new Error("envoy proxy configuration compilation failed");
+  /**
+   * Discovers the service configurations and reads the base configuration,
+   * replacing variable references and applying overlays.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {{ discovery: ConfigDiscover; services: ServiceConfg[]; baseConfig: EnvoyConfig }} The
+   * discovery that was used, the service configurations and the base configuration.
+   * @throws {PluginError} If the base configuration is missing or a variable is unresolved.
+   */
+  private discover(options: Options): {
+    discovery: ConfigDiscover;
+    services: ServiceConfg[];
+    baseConfig: EnvoyConfig;
+  } {
+    // Initialize ConfigDiscover to find service configurations
+    const interpolator = new Interpolator(this.loadVars(options));
+    const discovery = new ConfigDiscover(
+      this.resolveServices(options),
+      options.base,
+      options.folderName,
+      {
+        interpolator,
+        environment: options.environment || undefined,
+        strict: options.strict,
+      }
+    );
+
+    // Collect service-specific configurations
+    const services = discovery.collect();
+
+    // Collect the base Envoy configuration
+    const baseConfig = discovery.collectBase();
 
-      // Write the compiled configuration to a file if it exists
-      if (compiledConfig) YamlTools.write_yaml(compiledConfig, options.output);
+    // Fail on variables without a value, listing all of them
+    interpolator.assertResolved();
+
+    return { discovery, services, baseConfig };
+  }
+
+  /**
+   * Discovers the service configurations and compiles them with the base configuration.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {{ discovery: ConfigDiscover; services: ServiceConfg[]; compiler: Compiler; config: EnvoyConfig }} The
+   * discovery and compiler that were used, the service configurations and the compiled configuration.
+   * @throws {PluginError} If discovery or compilation fails.
+   */
+  private compile(options: Options): {
+    discovery: ConfigDiscover;
+    services: ServiceConfg[];
+    compiler: Compiler;
+    config: EnvoyConfig;
+  } {
+    const { discovery, services, baseConfig } = this.discover(options);
+
+    // Initialize the Compiler to merge configurations
+    const compiler = new Compiler(baseConfig, services, {
+      conflictPolicy: options.conflictPolicy,
+      baseFile: options.base,
+      routeOrdering: options.routeOrdering,
+      namespaceClusters: options.namespaceClusters,
+      provenanceMetadata: options.provenanceMetadata,
+    });
+
+    // Build the final, compiled configuration
+    compiler.build();
+    const compiledConfig = compiler.getStore();
+    if (!compiledConfig)
+      throw new PluginError(
+        "COMPILATION_FAILED",
+        "envoy proxy configuration compilation failed"
+      );
+
+    return { discovery, services, compiler, config: compiledConfig };
+  }
+
+  /**
+   * Gathers the values for variable references: the process environment,
+   * overridden by the vars file, overridden by the `vars` option.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {Record<string, string>} The variable values.
+   * @throws {PluginError} `INVALID_VARS_FILE` if the vars file can't be read or isn't a mapping.
+   */
+  private loadVars(options: Options): Record<string, string> {
+    let fileVars: Record<string, unknown> = {};
+    if (options.varsFile) {
+      const contents = YamlTools.read_yaml(options.varsFile);
+      if (!contents || typeof contents !== "object" || Array.isArray(contents))
+        throw new PluginError(
+          "INVALID_VARS_FILE",
+          `vars file at ${options.varsFile} is missing or not a mapping`,
+          { file: options.varsFile }
+        );
+      fileVars = contents as Record<string, unknown>;
+    }
+    return Interpolator.mergeVars(process.env, fileVars, options.vars);
+  }
 
-      return {
-        result: JSON.stringify(compiledConfig),
+  /**
+   * Compiles the configuration, validates its references and writes it to the
+   * output path, either as a single file or as filesystem xDS resource files.
+   * Nothing is written if an error was found.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the build in.
+   * @returns {void} return void
+   * @throws {PluginError} If discovery or compilation fails.
+   */
+  private merge(options: Options, response: PluginResponse): void {
+    const { discovery, services, compiler, config } = this.compile(options);
+    response.stats = compiler.getStats();
+    if (options.includeConfig) response.config = config;
+    response.diagnostics.push(
+      ...this.readDiagnostics(discovery),
+      ...compiler.validate()
+    );
+    this.lint(services, options, response);
+    for (const d of response.diagnostics) {
+      if (d.severity === "warning") console.warn(Diagnostics.format(d));
+    }
+    if (Diagnostics.errors(response.diagnostics).length > 0) return;
+
+    const failed = this.write(config, options, compiler);
+    for (const file of failed) {
+      response.diagnostics.push({
+        severity: "error",
+        code: "FILE_WRITE_FAILED",
+        message: `could not write ${file}`,
+        file,
+      });
+    }
+    if (failed.length === 0) response.output = options.output;
+  }
+
+  /**
+   * Checks the services against the lint rules, if linting is enabled,
+   * reporting violations as diagnostics and suppressed violations in the
+   * `lint` section of the response.
+   *
+   * @private
+   * @param {ServiceConfg[]} services - The discovered services.
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the results in.
+   * @returns {void} return void
+   * @throws {PluginError} `INVALID_LINT_CONFIG` if the rules file is invalid.
+   */
+  private lint(
+    services: ServiceConfg[],
+    options: Options,
+    response: PluginResponse
+  ): void {
+    if (!options.lint && !options.lintConfig) return;
+    const config = options.lintConfig
+      ? PolicyLint.loadConfig(options.lintConfig)
+      : undefined;
+    const result = new PolicyLint(config).lint(services);
+    response.diagnostics.push(...result.diagnostics);
+    response.lint = { suppressed: result.suppressed };
+  }
+
+  /**
+   * Reports the service files that could not be read or parsed as warnings:
+   * their routes and clusters are missing from the compiled configuration.
+   *
+   * @private
+   * @param {ConfigDiscover} discovery - The discovery that read the files.
+   * @returns {Diagnostic[]} A warning for every unreadable file.
+   */
+  private readDiagnostics(discovery: ConfigDiscover): Diagnostic[] {
+    return discovery.getReadFailures().map(
+      (error): Diagnostic => ({
+        ...Diagnostics.fromError(error),
+        severity: "warning",
+      })
+    );
+  }
+
+  /**
+   * Validates the references between routes and clusters of the compiled
+   * configuration, logging warnings.
+   *
+   * @private
+   * @param {Compiler} compiler - The compiler that built the configuration.
+   * @returns {void} return void
+   * @throws {PluginError} `INVALID_CONFIGURATION` if the compiled configuration has invalid references.
+   */
+  private checkReferences(compiler: Compiler): void {
+    const diagnostics = compiler.validate();
+    for (const d of diagnostics) {
+      if (d.severity === "warning") console.warn(Diagnostics.format(d));
+    }
+    const errors = Diagnostics.errors(diagnostics);
+    if (errors.length > 0)
+      throw new PluginError(
+        "INVALID_CONFIGURATION",
+        `envoy proxy configuration is invalid:\n${errors
+          .map((d) => `  - ${Diagnostics.format(d)}`)
+          .join("\n")}`
+      );
+  }
+
+  /**
+   * Writes the compiled configuration to the output path, either as a single
+   * file or split into xDS resource files, followed by the provenance
+   * manifest if one is requested. In strict mode, the first file that can't
+   * be written stops the writing.
+   *
+   * @private
+   * @param {EnvoyConfig} config - The compiled configuration.
+   * @param {Options} options - The plugin options.
+   * @param {Compiler} compiler - The compiler that built the configuration.
+   * @returns {string[]} The files that could not be written.
+   * @throws {PluginError} `FILE_WRITE_FAILED` in strict mode if a file can't be written.
+   */
+  private write(
+    config: EnvoyConfig,
+    options: Options,
+    compiler: Compiler
+  ): string[] {
+    const failed = this.writeConfig(config, options);
+    if (failed.length > 0 || !options.provenanceManifest) return failed;
+    const manifest = compiler.getProvenance();
+    if (options.strict) {
+      YamlTools.save_json(manifest, options.provenanceManifest);
+      return [];
+    }
+    return YamlTools.write_json(manifest, options.provenanceManifest)
+      ? []
+      : [options.provenanceManifest];
+  }
+
+  /**
+   * Writes the compiled configuration to the output path, either as a single
+   * file or split into xDS resource files.
+   *
+   * @private
+   * @param {EnvoyConfig} config - The compiled configuration.
+   * @param {Options} options - The plugin options.
+   * @returns {string[]} The files that could not be written.
+   * @throws {PluginError} `FILE_WRITE_FAILED` in strict mode if a file can't be written.
+   */
+  private writeConfig(config: EnvoyConfig, options: Options): string[] {
+    if (options.outputMode === "xds") {
+      const writer = new XdsWriter(config, this.xdsOptions(options));
+      const files = writer.getFiles().map((f) => f.path);
+      const written = writer.write();
+      return files.filter((f) => !written.includes(f));
+    }
+    if (options.strict) {
+      YamlTools.save_yaml(config, options.output);
+      return [];
+    }
+    return YamlTools.write_yaml(config, options.output) ? [] : [options.output];
+  }
+
+  /**
+   * Gets the options of the xDS files written in the `xds` output mode.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {XdsOptions} The options of the xDS writer.
+   */
+  private xdsOptions(options: Options): XdsOptions {
+    return {
+      bootstrapPath: options.output,
+      rds: options.rds,
+      xdsPath: options.xdsPath || undefined,
+      strict: options.strict,
+    };
+  }
+
+  /**
+   * Compiles the configuration and runs every structural and reference check
+   * without writing the output.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the problems found in.
+   * @returns {void} return void
+   * @throws {PluginError} If discovery or compilation fails.
+   */
+  private validate(options: Options, response: PluginResponse): void {
+    const { discovery, services, compiler, config } = this.compile(options);
+    response.stats = compiler.getStats();
+    if (options.includeConfig) response.config = config;
+    response.diagnostics.push(
+      ...this.readDiagnostics(discovery),
+      ...new ConfigValidator(config).validateStructure(),
+      ...compiler.validate()
+    );
+    this.lint(services, options, response);
+    response.report = {
+      valid: Diagnostics.errors(response.diagnostics).length === 0,
+      conflicts: compiler.getConflicts(),
+    };
+  }
+
+  /**
+   * Compiles the configuration in memory and compares it with the
+   * configuration currently at the output path, or in the `xds` output mode
+   * with the one in the bootstrap and resource files. A missing output is
+   * treated as an empty configuration.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the semantic diff in.
+   * @returns {void} return void
+   * @throws {PluginError} If discovery or compilation fails.
+   */
+  private diff(options: Options, response: PluginResponse): void {
+    const { discovery, compiler, config } = this.compile(options);
+    response.stats = compiler.getStats();
+    if (options.includeConfig) response.config = config;
+    response.diagnostics.push(...this.readDiagnostics(discovery));
+    const entries = new ConfigDiff(
+      this.readOutput(options),
+      this.asWritten(config, options)
+    ).diff();
+    response.report = {
+      output: options.output,
+      changed: entries.length > 0,
+      entries,
+      markdown: ConfigDiff.toMarkdown(entries),
+    };
+  }
+
+  /**
+   * Creates the configuration folder of a new service with a starter route
+   * and cluster. Existing files are only overwritten with `force`.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the files written and the name of the starter cluster in.
+   * @returns {void} return void
+   * @throws {PluginError} `SCAFFOLD_FAILED` if an option is invalid or a file already exists.
+   */
+  private scaffold(options: Options, response: PluginResponse): void {
+    try {
+      const scaffold = new ServiceScaffold({
+        ...options.scaffold,
+        folderName: options.folderName,
+      } as ScaffoldOptions);
+      response.report = {
+        files: scaffold.write(),
+        cluster: scaffold.getClusterName(),
       };
     } catch (error) {
-      console.error("Plugin execution error:", error);
-      return {
-        result: `Error: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
+      throw PluginError.from(error, "SCAFFOLD_FAILED", {
+        service: options.scaffold.servicePath,
+      });
+    }
+  }
+
+  /**
+   * Discovers the service configurations and logs the routes, clusters and
+   * other contributions of each service as YAML, the way they are merged into the base
+   * configuration: short forms expanded, variables replaced and overlays applied.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the contributions of every service in.
+   * @returns {void} return void
+   * @throws {PluginError} If discovery fails.
+   */
+  private expand(options: Options, response: PluginResponse): void {
+    const { discovery, services } = this.discover(options);
+    response.diagnostics.push(...this.readDiagnostics(discovery));
+    response.report = services.map((service) => {
+      const expanded: ExpandedService = {
+        path: service.path ?? "",
+        routes: service.routes,
+        clusters: service.clusters,
       };
+      if (service.httpFilters?.length)
+        expanded.httpFilters = service.httpFilters;
+      if (service.listeners?.length) expanded.listeners = service.listeners;
+      if (service.runtime) expanded.runtime = service.runtime;
+      if (service.statsTags) expanded.statsTags = service.statsTags;
+      console.log(
+        `# ${expanded.path}\n${YamlTools.dump_yaml({
+          routes: expanded.routes,
+          clusters: expanded.clusters,
+          ...(expanded.httpFilters
+            ? { http_filters: expanded.httpFilters }
+            : {}),
+          ...(expanded.listeners ? { listeners: expanded.listeners } : {}),
+          ...(expanded.runtime ? { runtime: expanded.runtime } : {}),
+          ...(expanded.statsTags ? { stats_tags: expanded.statsTags } : {}),
+        })}`
+      );
+      return expanded;
+    });
+  }
+
+  /**
+   * Reads the configuration currently at the output path. In the `xds`
+   * output mode, it is reassembled from the bootstrap and resource files.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {(EnvoyConfig | null)} The configuration at the output path, or null if there is none.
+   */
+  private readOutput(options: Options): EnvoyConfig | null {
+    if (options.outputMode === "xds")
+      return XdsWriter.read(this.xdsOptions(options));
+    if (!FsTools.checkFileExists(options.output)) return null;
+    return YamlTools.read_yaml(options.output) as EnvoyConfig | null;
+  }
+
+  /**
+   * Gets a compiled configuration the way `readOutput` reads it back once
+   * written, so the two can be compared.
+   *
+   * @private
+   * @param {EnvoyConfig} config - The compiled configuration.
+   * @param {Options} options - The plugin options.
+   * @returns {EnvoyConfig} The configuration as read back from the output.
+   */
+  private asWritten(config: EnvoyConfig, options: Options): EnvoyConfig {
+    if (options.outputMode !== "xds") return config;
+    const xdsOptions = this.xdsOptions(options);
+    return XdsWriter.assemble(
+      new XdsWriter(config, xdsOptions).getFiles(),
+      xdsOptions
+    );
+  }
+
+  /**
+   * Lists the directories `watch` watches: those of the base file and of
+   * every service, the vars file and the folders searched for new services.
+   * Services are resolved again every time, so new service folders are
+   * watched too.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @returns {WatchTarget[]} The directories to watch.
+   */
+  private watchTargets(options: Options): WatchTarget[] {
+    let services: string[] = [];
+    try {
+      services = this.resolveServices(options);
+    } catch {
+      // the folders that can't be listed are reported by the next build
+    }
+    const targets = [
+      ...new ConfigDiscover(services, options.base, options.folderName, {
+        environment: options.environment || undefined,
+      }).getWatchTargets(),
+      ...ConfigDiscover.getSearchTargets(
+        options.rootPath,
+        options.autoDiscover ? [...options.items, "**"] : options.items,
+        options.folderName,
+        options.ignore
+      ),
+    ];
+    if (options.varsFile) {
+      targets.push({
+        service: "vars",
+        path: dirname(options.varsFile),
+        file: basename(options.varsFile),
+      });
     }
+    return targets;
+  }
+
+  /**
+   * Merges the configuration, then watches the base file, the vars file,
+   * the configuration folders of every service and the folders where new
+   * services may appear, and merges again after each burst of changes. The output is only rewritten when the compiled configuration
+   * differs from the last one written, or from the one already at the output
+   * path when watching starts. Failed builds, including files that
+   * can't be parsed mid-edit, are logged and leave the output untouched.
+   * Watching stops on SIGINT or SIGTERM.
+   *
+   * @private
+   * @param {Options} options - The plugin options.
+   * @param {PluginResponse} response - The response to report the build counts in once watching stops.
+   * @returns {Promise<void>} A promise that resolves once watching stops.
+   */
+  private watch(options: Options, response: PluginResponse): Promise<void> {
+    const report: WatchReport = { builds: 0, writes: 0 };
+    let last = this.readOutput(options);
+
+    /**
+     * Compiles and checks the configuration and writes it if it changed.
+     * @param {string[]} services - The services whose files changed.
+     * @returns {void} return void
+     */
+    const rebuild = (services: string[]): void => {
+      if (services.length > 0)
+        console.log(`Change detected in ${services.join(", ")}, rebuilding...`);
+      report.builds++;
+      try {
+        const { discovery, compiler, config } = this.compile(options);
+        const unreadable = discovery.getReadErrors();
+        if (unreadable.length > 0)
+          throw new Error(`could not read ${unreadable.join(", ")}`);
+        this.checkReferences(compiler);
+        const written = this.asWritten(config, options);
+        if (last && ObjectTools.deepEqual(last, written)) {
+          console.log("Compiled configuration unchanged, output not rewritten");
+          return;
+        }
+        const failed = this.write(config, options, compiler);
+        if (failed.length > 0)
+          throw new PluginError(
+            "FILE_WRITE_FAILED",
+            `could not write ${failed.join(", ")}`
+          );
+        last = written;
+        report.writes++;
+        console.log(`Wrote ${options.output}`);
+      } catch (error) {
+        console.error(
+          `Rebuild failed, keeping the previous output: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    };
+
+    rebuild([]);
+    const watcher = new ConfigWatcher(
+      () => this.watchTargets(options),
+      rebuild,
+      options.watchDebounce
+    );
+    console.log(`Watching ${watcher.start()} folders for changes...`);
+
+    return new Promise((resolve) => {
+      /**
+       * Stops watching and resolves with the build counts.
+       * @returns {void} return void
+       */
+      const stop = (): void => {
+        process.off("SIGINT", stop);
+        process.off("SIGTERM", stop);
+        watcher.close();
+        response.report = report;
+        if (report.writes > 0) response.output = options.output;
+        resolve();
+      };
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+    });
   }
 }
 
@@ -0,0 +1,160 @@
+import {
+  EnvoyConfig,
+  Filter,
+  HttpConnectionManagerTypedConfig,
+  Listener,
+  TcpProxyTypedConfig,
+  VirtualHost,
+} from "../config-types";
+import { ObjectTools } from "./object-tools";
+
+/**
+ * A utility class for locating well-known structures inside an Envoy
+ * configuration, such as HTTP connection managers and their virtual hosts
+ * or TCP proxies.
+ *
+ * @export
+ * @class EnvoyTools
+ */
+export class EnvoyTools {
+  /**
+   * The well-known name of the HTTP connection manager network filter.
+   * @static
+   * @type {string}
+   */
+  public static readonly HTTP_CONNECTION_MANAGER_NAME =
+    "envoy.filters.network.http_connection_manager";
+
+  /**
+   * The `@type` URL of the HTTP connection manager network filter config.
+   * @static
+   * @type {string}
+   */
+  public static readonly HTTP_CONNECTION_MANAGER_TYPE =
+    "type.googleapis.com/envoy.extensions.filters.network.http_connection_manager.v3.HttpConnectionManager";
+
+  /**
+   * The well-known name of the TCP proxy network filter.
+   * @static
+   * @type {string}
+   */
+  public static readonly TCP_PROXY_NAME = "envoy.filters.network.tcp_proxy";
+
+  /**
+   * The `@type` URL of the TCP proxy network filter config.
+   * @static
+   * @type {string}
+   */
+  public static readonly TCP_PROXY_TYPE =
+    "type.googleapis.com/envoy.extensions.filters.network.tcp_proxy.v3.TcpProxy";
+
+  /**
+   * Checks whether a network filter is an HTTP connection manager, either by
+   * its filter name or by the `@type` of its typed config.
+   *
+   * @static
+   * @param {(Filter | Record<string, unknown> | undefined)} filter - The network filter to check, which may not have been validated yet.
+   * @returns {boolean} `true` if the filter is an HTTP connection manager.
+   */
+  public static isHttpConnectionManager(
+    filter: Filter | Record<string, unknown> | undefined
+  ): boolean {
+    if (!filter) return false;
+    const typedConfig = filter.typed_config;
+    return (
+      filter.name === EnvoyTools.HTTP_CONNECTION_MANAGER_NAME ||
+      (ObjectTools.isPlainObject(typedConfig) &&
+        typedConfig["@type"] === EnvoyTools.HTTP_CONNECTION_MANAGER_TYPE)
+    );
+  }
+
+  /**
+   * Returns the typed configs of every HTTP connection manager of a listener,
+   * across all of its filter chains.
+   *
+   * @static
+   * @param {Listener} listener - The listener to search.
+   * @returns {HttpConnectionManagerTypedConfig[]} The HTTP connection manager configurations, in declaration order.
+   */
+  public static getHttpConnectionManagers(
+    listener: Listener
+  ): HttpConnectionManagerTypedConfig[] {
+    const managers: HttpConnectionManagerTypedConfig[] = [];
+    for (const chain of listener.filter_chains ?? []) {
+      for (const filter of chain?.filters ?? []) {
+        if (EnvoyTools.isHttpConnectionManager(filter) && filter.typed_config) {
+          managers.push(
+            filter.typed_config as HttpConnectionManagerTypedConfig
+          );
+        }
+      }
+    }
+    return managers;
+  }
+
+  /**
+   * Checks whether a network filter is a TCP proxy, either by its filter
+   * name or by the `@type` of its typed config.
+   *
+   * @static
+   * @param {(Filter | Record<string, unknown> | undefined)} filter - The network filter to check, which may not have been validated yet.
+   * @returns {boolean} `true` if the filter is a TCP proxy.
+   */
+  public static isTcpProxy(
+    filter: Filter | Record<string, unknown> | undefined
+  ): boolean {
+    if (!filter) return false;
+    const typedConfig = filter.typed_config;
+    return (
+      filter.name === EnvoyTools.TCP_PROXY_NAME ||
+      (ObjectTools.isPlainObject(typedConfig) &&
+        typedConfig["@type"] === EnvoyTools.TCP_PROXY_TYPE)
+    );
+  }
+
+  /**
+   * Returns the typed configs of every TCP proxy of a listener, across all
+   * of its filter chains.
+   *
+   * @static
+   * @param {Listener} listener - The listener to search.
+   * @returns {TcpProxyTypedConfig[]} The TCP proxy configurations, in declaration order.
+   */
+  public static getTcpProxies(listener: Listener): TcpProxyTypedConfig[] {
+    const proxies: TcpProxyTypedConfig[] = [];
+    for (const chain of listener.filter_chains ?? []) {
+      for (const filter of chain?.filters ?? []) {
+        if (EnvoyTools.isTcpProxy(filter) && filter.typed_config) {
+          proxies.push(filter.typed_config as TcpProxyTypedConfig);
+        }
+      }
+    }
+    return proxies;
+  }
+
+  /**
+   * Returns the virtual hosts of an HTTP connection manager's inline route configuration.
+   *
+   * @static
+   * @param {HttpConnectionManagerTypedConfig} manager - The HTTP connection manager configuration.
+   * @returns {VirtualHost[]} The virtual hosts, or an empty array if there are none.
+   */
+  public static getVirtualHosts(
+    manager: HttpConnectionManagerTypedConfig
+  ): VirtualHost[] {
+    return manager.route_config?.virtual_hosts ?? [];
+  }
+
+  /**
+   * Returns every virtual host of every HTTP connection manager in a configuration.
+   *
+   * @static
+   * @param {EnvoyConfig} config - The Envoy configuration to search.
+   * @returns {VirtualHost[]} The virtual hosts, in declaration order.
+   */
+  public static getAllVirtualHosts(config: EnvoyConfig): VirtualHost[] {
+    return (config.static_resources?.listeners ?? [])
+      .flatMap((l) => EnvoyTools.getHttpConnectionManagers(l))
+      .flatMap((m) => EnvoyTools.getVirtualHosts(m));
+  }
+}
@@ -1,5 +1,6 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { PluginError } from "./plugin-error";
 
 /**
  * A utility class for performing common file system operations.
@@ -48,20 +49,31 @@ export class FsTools {
     return exists;
   }
 
+  /**
+   * Checks if a given path exists and is a file.
+   *
+   * @static
+   * @param {string} filePath - The path to check.
+   * @returns {boolean} `true` if the path exists and is a file, otherwise `false`.
+   */
+  public static checkFileExists(filePath: string): boolean {
+    return fs.existsSync(filePath) && fs.lstatSync(filePath).isFile();
+  }
+
   /**
    * Lists the contents of a directory, separating them into files and folders.
-   * This method uses `lstatSync` to handle symbolic links correctly and
-   * includes error handling for common issues like `ENOENT` (file not found)
-   * and `EACCES` (permission denied).
+   * This method uses `lstatSync` to handle symbolic links correctly.
    *
    * @static
    * @param {string} dirPath - The path to the directory to list.
-   * @returns {({ folders: string[]; files: string[] } | null)} An object containing two arrays,
-   * one for folders and one for files, or `null` if an error occurred.
+   * @returns {{ folders: string[]; files: string[] }} An object containing two arrays,
+   * one for folders and one for files.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` if the directory doesn't exist, or `FILE_READ_FAILED` if it can't be listed.
    */
-  public static listDirContents(
-    dirPath: string
-  ): { folders: string[]; files: string[] } | null {
+  public static readDirContents(dirPath: string): {
+    folders: string[];
+    files: string[];
+  } {
     try {
       const contents = fs.readdirSync(dirPath);
       const sortedContents: { folders: string[]; files: string[] } = {
@@ -78,6 +90,49 @@ export class FsTools {
         }
       }
       return sortedContents;
+    } catch (error) {
+      throw FsTools.listError(error, dirPath);
+    }
+  }
+
+  /**
+   * Creates the error for a directory that could not be listed.
+   *
+   * @private
+   * @static
+   * @param {unknown} error - The error thrown while listing the directory.
+   * @param {string} dirPath - The path to the directory.
+   * @returns {PluginError} `FOLDER_NOT_FOUND` if the directory doesn't exist, `FILE_READ_FAILED` otherwise.
+   */
+  private static listError(error: unknown, dirPath: string): PluginError {
+    if ((error as { code?: string })?.code === "ENOENT")
+      return new PluginError("FOLDER_NOT_FOUND", `${dirPath} does not exist`, {
+        file: dirPath,
+      });
+    return new PluginError(
+      "FILE_READ_FAILED",
+      `could not list ${dirPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { file: dirPath }
+    );
+  }
+
+  /**
+   * Lists the contents of a directory, like `readDirContents`, with error
+   * handling for common issues like `ENOENT` (file not found) and `EACCES`
+   * (permission denied).
+   *
+   * @static
+   * @param {string} dirPath - The path to the directory to list.
+   * @returns {({ folders: string[]; files: string[] } | null)} An object containing two arrays,
+   * one for folders and one for files, or `null` if an error occurred.
+   */
+  public static listDirContents(
+    dirPath: string
+  ): { folders: string[]; files: string[] } | null {
+    try {
+      return FsTools.readDirContents(dirPath);
     } catch (error) {
       console.error(`Error: '${error}'`);
 
@@ -101,4 +156,150 @@ export class FsTools {
       return [`Error creating filesystem structure: ${e}`, true];
     }
   }
+
+  /**
+   * Checks whether a path contains glob wildcards (`*`, `**` or `?`).
+   *
+   * @static
+   * @param {string} pattern - The path to check.
+   * @returns {boolean} `true` if the path is a glob pattern.
+   */
+  public static hasGlob(pattern: string): boolean {
+    return /[*?]/.test(pattern);
+  }
+
+  /**
+   * Checks whether a `/`-separated relative path matches a glob pattern.
+   * `**` matches any number of path segments (including none), `*` matches
+   * any characters within a segment and `?` a single character.
+   *
+   * @static
+   * @param {string} relativePath - The path to check.
+   * @param {string} pattern - The glob pattern.
+   * @returns {boolean} `true` if the whole path matches the pattern.
+   */
+  public static matchesGlob(relativePath: string, pattern: string): boolean {
+    // Every segment is followed by a "/" so that "**" can match no segments
+    const source = pattern
+      .split(/[\\/]+/)
+      .filter((segment) => segment !== "" && segment !== ".")
+      .map((segment) =>
+        segment === "**"
+          ? "(?:[^/]+/)*"
+          : segment
+              .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+              .replace(/\*/g, "[^/]*")
+              .replace(/\?/g, "[^/]") + "/"
+      )
+      .join("");
+    return new RegExp(`^${source}$`).test(`${relativePath}/`);
+  }
+
+  /**
+   * Checks whether a `/`-separated relative path matches any of the given
+   * glob patterns. A pattern without a `/` also matches any single path
+   * segment, so `node_modules` ignores every `node_modules` folder.
+   *
+   * @static
+   * @param {string} relativePath - The path to check, relative to the walked root.
+   * @param {string[]} patterns - The glob patterns.
+   * @returns {boolean} `true` if the path matches a pattern.
+   */
+  public static matchesAny(relativePath: string, patterns: string[]): boolean {
+    const segments = relativePath.split("/");
+    return patterns.some(
+      (pattern) =>
+        FsTools.matchesGlob(relativePath, pattern) ||
+        (!pattern.includes("/") &&
+          segments.some((s) => FsTools.matchesGlob(s, pattern)))
+    );
+  }
+
+  /**
+   * Recursively lists the folders below a directory, as `/`-separated paths
+   * relative to it, in sorted order. Symbolic links are not followed and
+   * folders matching an ignore pattern are skipped along with their contents.
+   *
+   * @static
+   * @param {string} rootPath - The directory to walk.
+   * @param {string[]} [ignore=[]] - Glob patterns of folders to skip.
+   * @param {PluginError[]} [errors] - Collects the folders that can't be listed, which are then skipped.
+   * @returns {string[]} The relative paths of the folders found.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` or `FILE_READ_FAILED` if a folder can't be listed and no `errors` list is given.
+   */
+  public static walkFolders(
+    rootPath: string,
+    ignore: string[] = [],
+    errors?: PluginError[]
+  ): string[] {
+    const found = { folders: [] as string[], files: [] as string[] };
+    FsTools.walk(rootPath, "", ignore, found, errors);
+    return found.folders;
+  }
+
+  /**
+   * Recursively lists the files below a directory, as `/`-separated paths
+   * relative to it, sorted by path. Symbolic links are not followed and
+   * files and folders matching an ignore pattern are skipped.
+   *
+   * @static
+   * @param {string} rootPath - The directory to walk.
+   * @param {string[]} [ignore=[]] - Glob patterns of files and folders to skip.
+   * @param {PluginError[]} [errors] - Collects the folders that can't be listed, which are then skipped.
+   * @returns {string[]} The relative paths of the files found.
+   * @throws {PluginError} `FOLDER_NOT_FOUND` or `FILE_READ_FAILED` if a folder can't be listed and no `errors` list is given.
+   */
+  public static walkFiles(
+    rootPath: string,
+    ignore: string[] = [],
+    errors?: PluginError[]
+  ): string[] {
+    const found = { folders: [] as string[], files: [] as string[] };
+    FsTools.walk(rootPath, "", ignore, found, errors);
+    return found.files.sort();
+  }
+
+  /**
+   * Adds the folders and files below `relativePath` to `found`, depth first.
+   *
+   * @private
+   * @static
+   * @param {string} rootPath - The directory being walked.
+   * @param {string} relativePath - The folder to list, relative to `rootPath`.
+   * @param {string[]} ignore - Glob patterns of folders and files to skip.
+   * @param {{ folders: string[]; files: string[] }} found - The relative paths found so far.
+   * @param {string[]} found.folders - The folders found so far.
+   * @param {string[]} found.files - The files found so far.
+   * @param {PluginError[]} [errors] - Collects the folders that can't be listed.
+   * @returns {void} return void
+   * @throws {PluginError} If a folder can't be listed and no `errors` list is given.
+   */
+  private static walk(
+    rootPath: string,
+    relativePath: string,
+    ignore: string[],
+    found: { folders: string[]; files: string[] },
+    errors?: PluginError[]
+  ): void {
+    const dirPath = path.join(rootPath, relativePath);
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch (error) {
+      if (!errors) throw FsTools.listError(error, dirPath);
+      errors.push(FsTools.listError(error, dirPath));
+      return;
+    }
+    for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : 1))) {
+      const child = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      if (!entry.isDirectory() && !entry.isFile()) continue;
+      if (FsTools.matchesAny(child, ignore)) continue;
+      if (entry.isFile()) {
+        found.files.push(child);
+        continue;
+      }
+      found.folders.push(child);
+      FsTools.walk(rootPath, child, ignore, found, errors);
+    }
+  }
 }
@@ -1,2 +1,5 @@
 export * from "./yaml-tools";
 export * from "./fs-tools";
+export * from "./object-tools";
+export * from "./envoy-tools";
+export * from "./plugin-error";
@@ -0,0 +1,157 @@
+/**
+ * A utility class for comparing plain JavaScript objects, such as those
+ * produced by parsing YAML configuration files.
+ *
+ * @export
+ * @class ObjectTools
+ */
+export class ObjectTools {
+  /**
+   * Serializes a value to JSON with object keys sorted, so that two
+   * structurally equal values always produce the same string.
+   *
+   * @static
+   * @param {unknown} value - The value to serialize.
+   * @returns {string} A canonical JSON representation of the value.
+   */
+  public static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((v) => ObjectTools.stableStringify(v)).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+      const entries = Object.keys(value)
+        .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+        .sort()
+        .map(
+          (k) =>
+            `${JSON.stringify(k)}:${ObjectTools.stableStringify(
+              (value as Record<string, unknown>)[k]
+            )}`
+        );
+      return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+  }
+
+  /**
+   * Checks whether two values are structurally equal, ignoring key order.
+   *
+   * @static
+   * @param {unknown} a - The first value.
+   * @param {unknown} b - The second value.
+   * @returns {boolean} `true` if both values are structurally equal.
+   */
+  public static deepEqual(a: unknown, b: unknown): boolean {
+    return ObjectTools.stableStringify(a) === ObjectTools.stableStringify(b);
+  }
+
+  /**
+   * The key that marks an overlay value for removal: a named array item with
+   * `$remove: true` removes the item with that name, and a field set to
+   * `{ $remove: true }` removes the field.
+   *
+   * @static
+   * @type {string}
+   */
+  public static readonly REMOVE_MARKER = "$remove";
+
+  /**
+   * Checks whether a value is an overlay removal marker.
+   *
+   * @static
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} `true` if the value is an object with `$remove: true`.
+   */
+  public static isRemoval(value: unknown): boolean {
+    return (
+      ObjectTools.isPlainObject(value) &&
+      value[ObjectTools.REMOVE_MARKER] === true
+    );
+  }
+
+  /**
+   * Checks whether a value is a non-null, non-array object.
+   *
+   * @static
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} `true` if the value is a plain object.
+   */
+  public static isPlainObject(
+    value: unknown
+  ): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+
+  /**
+   * Deep-merges an overlay into a value without modifying either. Objects
+   * are merged key by key, and a field set to `{ $remove: true }` is removed.
+   * Arrays whose items all have a string `name` are merged by name: matching
+   * items are deep-merged, items marked `$remove: true` remove their match
+   * and other items are appended. Any other overlay value replaces the
+   * original one.
+   *
+   * @static
+   * @param {unknown} base - The original value.
+   * @param {unknown} overlay - The overlay to merge into it.
+   * @returns {unknown} The merged value.
+   */
+  public static deepMerge(base: unknown, overlay: unknown): unknown {
+    if (ObjectTools.isPlainObject(base) && ObjectTools.isPlainObject(overlay)) {
+      const result: Record<string, unknown> = { ...base };
+      for (const [key, value] of Object.entries(overlay)) {
+        if (ObjectTools.isRemoval(value)) delete result[key];
+        else result[key] = ObjectTools.deepMerge(base[key], value);
+      }
+      return result;
+    }
+    if (
+      Array.isArray(base) &&
+      Array.isArray(overlay) &&
+      ObjectTools.isNamedList(base) &&
+      ObjectTools.isNamedList(overlay)
+    ) {
+      return ObjectTools.mergeNamed(base, overlay);
+    }
+    return overlay;
+  }
+
+  /**
+   * Merges two lists of named items by name, as described in `deepMerge`.
+   *
+   * @static
+   * @param {T[]} base - The original items.
+   * @param {T[]} overlay - The overlay items.
+   * @returns {T[]} The merged items.
+   */
+  public static mergeNamed<T extends { name?: string }>(
+    base: T[],
+    overlay: T[]
+  ): T[] {
+    const result = [...base];
+    for (const item of overlay) {
+      const index = result.findIndex((r) => r.name === item.name);
+      if (ObjectTools.isRemoval(item)) {
+        if (index >= 0) result.splice(index, 1);
+      } else if (index >= 0) {
+        result[index] = ObjectTools.deepMerge(result[index], item) as T;
+      } else {
+        result.push(item);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether every item of a list is an object with a string `name`.
+   *
+   * @private
+   * @static
+   * @param {unknown[]} list - The list to check.
+   * @returns {boolean} `true` if all items are named objects.
+   */
+  private static isNamedList(list: unknown[]): boolean {
+    return list.every(
+      (item) => ObjectTools.isPlainObject(item) && typeof item.name === "string"
+    );
+  }
+}
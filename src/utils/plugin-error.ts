@@ -0,0 +1,198 @@
+/**
+ * Stable codes for the failures that stop the plugin.
+ * - `INVALID_OPTION`: a plugin option has an unsupported value.
+ * - `FILE_NOT_FOUND`: a file to read doesn't exist.
+ * - `FOLDER_NOT_FOUND`: a service folder doesn't exist.
+ * - `FILE_READ_FAILED`: a file or folder exists but can't be read.
+ * - `YAML_PARSE_ERROR`: a YAML or JSON file has a syntax error.
+ * - `INVALID_CONFIG_FILE`: a key of a service file has the wrong type, such as `routes` not being a list or `runtime` not being a mapping.
+ * - `FILE_WRITE_FAILED`: an output file can't be written.
+ * - `BASE_CONFIG_NOT_FOUND`: the base configuration is missing or empty.
+ * - `INVALID_MANIFEST`: a service manifest has a field of the wrong type or value.
+ * - `INVALID_VARS_FILE`: the vars file is missing or not a mapping.
+ * - `UNRESOLVED_VARIABLES`: variable references without a value.
+ * - `TARGET_NOT_FOUND`: a listener or virtual host targeted by a service doesn't exist.
+ * - `INVALID_HTTP_FILTER_POSITION`: an HTTP filter is positioned both before and after other filters.
+ * - `ROUTE_CONFLICTS`: route conflicts were found with the `error` conflict policy.
+ * - `COMPILATION_FAILED`: the compiler produced no configuration.
+ * - `INVALID_CONFIGURATION`: the compiled configuration has errors, such as references to missing clusters.
+ * - `DUPLICATE_ROUTE_CONFIGURATION`: two route configurations moved to RDS share a name.
+ * - `SCAFFOLD_FAILED`: a service can't be scaffolded.
+ * - `INVALID_LINT_CONFIG`: the lint rules file names an unknown rule or has an invalid severity or option.
+ * - `BUILD_ABORTED`: strict mode stopped the build, see the causes of the error.
+ * - `UNKNOWN_ERROR`: any other failure.
+ */
+export type PluginErrorCode =
+  | "INVALID_OPTION"
+  | "FILE_NOT_FOUND"
+  | "FOLDER_NOT_FOUND"
+  | "FILE_READ_FAILED"
+  | "YAML_PARSE_ERROR"
+  | "INVALID_CONFIG_FILE"
+  | "FILE_WRITE_FAILED"
+  | "BASE_CONFIG_NOT_FOUND"
+  | "INVALID_MANIFEST"
+  | "INVALID_VARS_FILE"
+  | "UNRESOLVED_VARIABLES"
+  | "TARGET_NOT_FOUND"
+  | "INVALID_HTTP_FILTER_POSITION"
+  | "ROUTE_CONFLICTS"
+  | "COMPILATION_FAILED"
+  | "INVALID_CONFIGURATION"
+  | "DUPLICATE_ROUTE_CONFIGURATION"
+  | "SCAFFOLD_FAILED"
+  | "INVALID_LINT_CONFIG"
+  | "BUILD_ABORTED"
+  | "UNKNOWN_ERROR";
+
+/**
+ * All plugin error codes.
+ */
+export const PLUGIN_ERROR_CODES: PluginErrorCode[] = [
+  "INVALID_OPTION",
+  "FILE_NOT_FOUND",
+  "FOLDER_NOT_FOUND",
+  "FILE_READ_FAILED",
+  "YAML_PARSE_ERROR",
+  "INVALID_CONFIG_FILE",
+  "FILE_WRITE_FAILED",
+  "BASE_CONFIG_NOT_FOUND",
+  "INVALID_MANIFEST",
+  "INVALID_VARS_FILE",
+  "UNRESOLVED_VARIABLES",
+  "TARGET_NOT_FOUND",
+  "INVALID_HTTP_FILTER_POSITION",
+  "ROUTE_CONFLICTS",
+  "COMPILATION_FAILED",
+  "INVALID_CONFIGURATION",
+  "DUPLICATE_ROUTE_CONFIGURATION",
+  "SCAFFOLD_FAILED",
+  "INVALID_LINT_CONFIG",
+  "BUILD_ABORTED",
+  "UNKNOWN_ERROR",
+];
+
+/**
+ * Where a plugin error comes from.
+ * @property {string} [file] - The file that caused the error.
+ * @property {string} [service] - The service folder that caused the error.
+ * @property {number} [line] - The line of the file the error is on, starting at 1.
+ * @property {number} [column] - The column of the file the error is on, starting at 1.
+ */
+export type PluginErrorSource = {
+  file?: string;
+  service?: string;
+  line?: number;
+  column?: number;
+};
+
+/**
+ * An error that stops the plugin, with a stable code identifying the kind
+ * of failure and, where known, the file and service that caused it.
+ *
+ * @export
+ * @class PluginError
+ * @extends {Error}
+ */
+export class PluginError extends Error {
+  /**
+   * The kind of failure.
+   * @type {PluginErrorCode}
+   */
+  public readonly code: PluginErrorCode;
+
+  /**
+   * The file that caused the error.
+   * @type {(string | undefined)}
+   */
+  public readonly file?: string;
+
+  /**
+   * The service folder that caused the error.
+   * @type {(string | undefined)}
+   */
+  public readonly service?: string;
+
+  /**
+   * The line of the file the error is on, starting at 1.
+   * @type {(number | undefined)}
+   */
+  public readonly line?: number;
+
+  /**
+   * The column of the file the error is on, starting at 1.
+   * @type {(number | undefined)}
+   */
+  public readonly column?: number;
+
+  /**
+   * The errors that together caused this one, for aggregated errors.
+   * @type {PluginError[]}
+   */
+  public readonly causes: PluginError[] = [];
+
+  /**
+   * Creates an instance of PluginError.
+   * @param {PluginErrorCode} code - The kind of failure.
+   * @param {string} message - A human readable description.
+   * @param {PluginErrorSource} [source={}] - The file and service that caused the error.
+   */
+  constructor(
+    code: PluginErrorCode,
+    message: string,
+    source: PluginErrorSource = {}
+  ) {
+    super(message);
+    this.name = "PluginError";
+    this.code = code;
+    if (source.file !== undefined) this.file = source.file;
+    if (source.service !== undefined) this.service = source.service;
+    if (source.line !== undefined) this.line = source.line;
+    if (source.column !== undefined) this.column = source.column;
+  }
+
+  /**
+   * Creates a single error listing several errors, which are kept as its causes.
+   *
+   * @static
+   * @param {PluginErrorCode} code - The code of the aggregated error.
+   * @param {string} summary - What the errors caused, e.g. `build aborted in strict mode`.
+   * @param {PluginError[]} causes - The errors.
+   * @returns {PluginError} The aggregated error.
+   */
+  public static aggregate(
+    code: PluginErrorCode,
+    summary: string,
+    causes: PluginError[]
+  ): PluginError {
+    const error = new PluginError(
+      code,
+      `${summary}:\n${causes.map((c) => `  - ${c.message}`).join("\n")}`
+    );
+    error.causes.push(...causes);
+    return error;
+  }
+
+  /**
+   * Wraps any thrown value in a PluginError. Plugin errors are returned as
+   * is, other errors keep their message under the given code.
+   *
+   * @static
+   * @param {unknown} error - The thrown value.
+   * @param {PluginErrorCode} [code="UNKNOWN_ERROR"] - The code for errors that aren't plugin errors.
+   * @param {PluginErrorSource} [source] - The file and service for errors that aren't plugin errors.
+   * @returns {PluginError} The plugin error.
+   */
+  public static from(
+    error: unknown,
+    code: PluginErrorCode = "UNKNOWN_ERROR",
+    source?: PluginErrorSource
+  ): PluginError {
+    if (error instanceof PluginError) return error;
+    return new PluginError(
+      code,
+      error instanceof Error ? error.message : String(error ?? "Unknown error"),
+      source
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import * as yaml from "js-yaml";
 import * as fs from "node:fs";
+import { extname } from "node:path";
+import { pid } from "node:process";
+import { PluginError } from "./plugin-error";
 
 /**
  * A utility class for reading and writing YAML files.
@@ -10,6 +13,22 @@ import * as fs from "node:fs";
  * @class YamlTools
  */
 export class YamlTools {
+  /**
+   * Serializes a JavaScript object to a YAML string, formatted the same way
+   * as the files written by `write_yaml`.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into YAML.
+   * @returns {string} The YAML text.
+   */
+  public static dump_yaml(dataDict: object): string {
+    return yaml.dump(dataDict, {
+      indent: 2,
+      noArrayIndent: true,
+      sortKeys: false,
+    });
+  }
+
   /**
    * Writes a JavaScript object to a YAML file.
    * The output YAML is formatted with a 2-space indent, no array indent,
@@ -19,20 +38,167 @@ export class YamlTools {
    * @param {object} dataDict - The object to serialize into YAML.
    * @param {string} filePath - The path to the file where the YAML data will be written.
    * @returns {void}
+   * @throws {PluginError} `FILE_WRITE_FAILED` if the file can't be written.
    */
-  public static write_yaml(dataDict: object, filePath: string): void {
+  public static save_yaml(dataDict: object, filePath: string): void {
     try {
-      const yamlStr = yaml.dump(dataDict, {
-        indent: 2,
-        noArrayIndent: true,
-        sortKeys: false,
-      });
+      const yamlStr = YamlTools.dump_yaml(dataDict);
       fs.writeFileSync(filePath, yamlStr, "utf8");
       console.log(`Successfully wrote YAML to '${filePath}'`);
     } catch (e) {
-      console.error(
-        `Error writing dictionary to YAML file '${filePath}': ${e}`
-      );
+      throw YamlTools.write_error(e, filePath);
+    }
+  }
+
+  /**
+   * Writes a JavaScript object to a YAML file, like `save_yaml`, logging
+   * errors instead of throwing them.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into YAML.
+   * @param {string} filePath - The path to the file where the YAML data will be written.
+   * @returns {boolean} `true` if the file was written, `false` if writing failed.
+   */
+  public static write_yaml(dataDict: object, filePath: string): boolean {
+    try {
+      YamlTools.save_yaml(dataDict, filePath);
+      return true;
+    } catch (e) {
+      console.error(`Error: '${e}'`);
+      return false;
+    }
+  }
+
+  /**
+   * Writes a JavaScript object to a YAML file atomically: the YAML is written
+   * to a temporary file next to the target, which is then renamed over it.
+   * Readers watching the target (such as Envoy's filesystem xDS) never see a
+   * partially written file.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into YAML.
+   * @param {string} filePath - The path to the file where the YAML data will be written.
+   * @returns {void}
+   * @throws {PluginError} `FILE_WRITE_FAILED` if the file can't be written.
+   */
+  public static save_yaml_atomic(dataDict: object, filePath: string): void {
+    const tempPath = `${filePath}.${pid}.tmp`;
+    try {
+      const yamlStr = YamlTools.dump_yaml(dataDict);
+      fs.writeFileSync(tempPath, yamlStr, "utf8");
+      fs.renameSync(tempPath, filePath);
+      console.log(`Successfully wrote YAML to '${filePath}'`);
+    } catch (e) {
+      fs.rmSync(tempPath, { force: true });
+      throw YamlTools.write_error(e, filePath);
+    }
+  }
+
+  /**
+   * Writes a JavaScript object to a YAML file atomically, like
+   * `save_yaml_atomic`, logging errors instead of throwing them.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into YAML.
+   * @param {string} filePath - The path to the file where the YAML data will be written.
+   * @returns {boolean} `true` if the file was written, `false` if writing failed.
+   */
+  public static write_yaml_atomic(dataDict: object, filePath: string): boolean {
+    try {
+      YamlTools.save_yaml_atomic(dataDict, filePath);
+      return true;
+    } catch (e) {
+      console.error(`Error: '${e}'`);
+      return false;
+    }
+  }
+
+  /**
+   * Writes a JavaScript object to a JSON file, indented with 2 spaces.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into JSON.
+   * @param {string} filePath - The path to the file where the JSON data will be written.
+   * @returns {void}
+   * @throws {PluginError} `FILE_WRITE_FAILED` if the file can't be written.
+   */
+  public static save_json(dataDict: object, filePath: string): void {
+    try {
+      fs.writeFileSync(filePath, `${JSON.stringify(dataDict, null, 2)}\n`);
+      console.log(`Successfully wrote JSON to '${filePath}'`);
+    } catch (e) {
+      throw YamlTools.write_error(e, filePath);
+    }
+  }
+
+  /**
+   * Writes a JavaScript object to a JSON file, like `save_json`, logging
+   * errors instead of throwing them.
+   *
+   * @static
+   * @param {object} dataDict - The object to serialize into JSON.
+   * @param {string} filePath - The path to the file where the JSON data will be written.
+   * @returns {boolean} `true` if the file was written, `false` if writing failed.
+   */
+  public static write_json(dataDict: object, filePath: string): boolean {
+    try {
+      YamlTools.save_json(dataDict, filePath);
+      return true;
+    } catch (e) {
+      console.error(`Error: '${e}'`);
+      return false;
+    }
+  }
+
+  /**
+   * Turns an error thrown while writing a file into a `FILE_WRITE_FAILED`
+   * plugin error.
+   *
+   * @static
+   * @param {unknown} error - The thrown value.
+   * @param {string} filePath - The path of the file.
+   * @returns {PluginError} The plugin error.
+   */
+  public static write_error(error: unknown, filePath: string): PluginError {
+    return new PluginError(
+      "FILE_WRITE_FAILED",
+      `could not write ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { file: filePath }
+    );
+  }
+
+  /**
+   * Reads a YAML file and parses its contents into a JavaScript object.
+   *
+   * @static
+   * @param {string} filePath - The path to the YAML file to be read.
+   * @returns {unknown} The parsed JavaScript object.
+   * @throws {PluginError} `FILE_NOT_FOUND`, `FILE_READ_FAILED` or `YAML_PARSE_ERROR` if the file can't be read or parsed.
+   */
+  public static load_yaml(filePath: string): unknown {
+    const fileContents = YamlTools.read_text(filePath);
+    try {
+      return yaml.load(fileContents);
+    } catch (e) {
+      throw YamlTools.read_error(e, filePath, fileContents);
+    }
+  }
+
+  /**
+   * Reads a text file.
+   *
+   * @static
+   * @param {string} filePath - The path to the file to be read.
+   * @returns {string} The contents of the file.
+   * @throws {PluginError} `FILE_NOT_FOUND` or `FILE_READ_FAILED` if the file can't be read.
+   */
+  public static read_text(filePath: string): string {
+    try {
+      return fs.readFileSync(filePath, "utf8");
+    } catch (e) {
+      throw YamlTools.read_error(e, filePath);
     }
   }
 
@@ -47,13 +213,130 @@ export class YamlTools {
    */
   public static read_yaml(filePath: string): unknown | null {
     try {
-      const fileContents = fs.readFileSync(filePath, "utf8");
-      const config = yaml.load(fileContents);
-      return config;
+      return YamlTools.load_yaml(filePath);
     } catch (e) {
       console.error(`Error: '${e}'`);
 
       return null;
     }
   }
+
+  /**
+   * Turns an error thrown while reading or parsing a file into a plugin
+   * error with the code of the failure. Plugin errors are returned as is.
+   * Syntax errors carry the line and column they were found at, where the
+   * parser reports them.
+   *
+   * @static
+   * @param {unknown} error - The thrown value.
+   * @param {string} filePath - The path of the file.
+   * @param {string} [contents] - The contents of the file, used to locate JSON syntax errors.
+   * @returns {PluginError} The plugin error.
+   */
+  public static read_error(
+    error: unknown,
+    filePath: string,
+    contents?: string
+  ): PluginError {
+    if (error instanceof PluginError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    if ((error as { code?: string })?.code === "ENOENT")
+      return new PluginError("FILE_NOT_FOUND", `${filePath} does not exist`, {
+        file: filePath,
+      });
+    if (error instanceof yaml.YAMLException || error instanceof SyntaxError) {
+      let location: { line?: number; column?: number } = {};
+      let reason = message;
+      if (error instanceof yaml.YAMLException) {
+        reason = error.reason;
+        if (error.mark)
+          location = {
+            line: error.mark.line + 1,
+            column: error.mark.column + 1,
+          };
+      } else {
+        const position = / at position (\d+)/.exec(message);
+        if (position && contents !== undefined)
+          location = YamlTools.line_column(contents, Number(position[1]));
+      }
+      const where =
+        location.line !== undefined
+          ? `${filePath}:${location.line}:${location.column}`
+          : filePath;
+      return new PluginError(
+        "YAML_PARSE_ERROR",
+        `could not parse ${where}: ${reason}`,
+        { file: filePath, ...location }
+      );
+    }
+    return new PluginError(
+      "FILE_READ_FAILED",
+      `could not read ${filePath}: ${message}`,
+      { file: filePath }
+    );
+  }
+
+  /**
+   * Converts an offset in a text into a line and column, both starting at 1.
+   *
+   * @static
+   * @param {string} contents - The text.
+   * @param {number} offset - The offset, starting at 0.
+   * @returns {{ line: number; column: number }} The line and column of the offset.
+   */
+  public static line_column(
+    contents: string,
+    offset: number
+  ): { line: number; column: number } {
+    const before = contents.slice(0, offset).split("\n");
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+    };
+  }
+
+  /**
+   * The file extensions of configuration files, as returned by `extname`.
+   *
+   * @static
+   * @type {string[]}
+   */
+  public static readonly CONFIG_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+  /**
+   * Checks whether a file is a configuration file by its extension
+   * (`.yaml`, `.yml` or `.json`, in any case).
+   *
+   * @static
+   * @param {string} filePath - The path or name of the file.
+   * @returns {boolean} `true` if the file is a configuration file.
+   */
+  public static isConfigFile(filePath: string): boolean {
+    return YamlTools.CONFIG_EXTENSIONS.includes(
+      extname(filePath).toLowerCase()
+    );
+  }
+
+  /**
+   * Reads every document of a configuration file: a `.json` file is parsed
+   * as a single JSON document, other files as a YAML stream that may contain
+   * several `---`-separated documents. Empty documents are skipped.
+   *
+   * @static
+   * @param {string} filePath - The path to the file to be read.
+   * @returns {unknown[]} The parsed documents.
+   * @throws {PluginError} `FILE_NOT_FOUND`, `FILE_READ_FAILED` or `YAML_PARSE_ERROR` if the file can't be read or parsed.
+   */
+  public static load_documents(filePath: string): unknown[] {
+    const fileContents = YamlTools.read_text(filePath);
+    try {
+      const documents =
+        extname(filePath).toLowerCase() === ".json"
+          ? [JSON.parse(fileContents)]
+          : yaml.loadAll(fileContents);
+      return documents.filter((d) => d !== null && d !== undefined);
+    } catch (e) {
+      throw YamlTools.read_error(e, filePath, fileContents);
+    }
+  }
 }